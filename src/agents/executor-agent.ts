@@ -1,9 +1,20 @@
+import { env } from "@/config/env";
+import type { LlmMessage, LlmResponse } from "@/types/llm";
 import { parseJsonSafe } from "@/utils/clean-json";
-import openaiClient from "@/services/openAIClient";
+import { findModelPrice } from "@/services/llm/usage";
 import type { LoadedFile } from "@/types/loaded-file";
 import { saveDebugPrompt } from "@/utils/debug-prompt";
-import type { ExecutorOutput } from "@/types/executor-output";
+import { estimateTokens } from "@/utils/estimate-tokens";
+import { completeWithLlm } from "@/services/llm/llm-client";
+import type { ContextBudgetReport } from "@/types/context-budget";
 import { buildExecutorPrompt } from "@/prompts/build-executor-prompt";
+import type { EditFormat, ExecutorOutput } from "@/types/executor-output";
+import { validateWithSchema } from "@/utils/validate-schema";
+import { budgetExecutorContext } from "@/retrieval/budget-executor-context";
+import { executorOutputJsonSchema, executorOutputSchema } from "@/schemas/executor-output-schema";
+
+/** Number of times the model is asked to fix an answer that does not match the schema. */
+const MAX_OUTPUT_RETRIES = 1;
 
 /**
  * Input parameters for the Executor Agent.
@@ -15,61 +26,191 @@ type ExecutorAgentParams = {
     projectDocs: string;
     /** List of actual files loaded from the repository that the agent can read/modify. */
     files: LoadedFile[];
+    /** Files that import the files to modify, given to the agent as read-only context. */
+    contextFiles?: LoadedFile[];
+    /** Relative paths of new files the plan asks for (`implementation.filesToCreate`). */
+    filesToCreate?: string[];
+    /** Protocol used for changes to existing files. Defaults to `unified-diff`. */
+    editFormat?: EditFormat;
+    /** In per-file mode: the other files of the plan and the changes already made to them. */
+    otherFiles?: string;
+    /** Name of the debug prompt files (`debug/executor/<name>-input`). Defaults to `executor`. */
+    debugName?: string;
+    /** Task of the plan, recorded with the model calls. */
+    taskId?: string;
+};
+
+/**
+ * What the Executor Agent returns: the parsed output, and the model responses it came from.
+ */
+export type ExecutorAgentResult = {
+    output: ExecutorOutput;
+    /**
+     * The raw responses, including the model and whether they were served from the cache:
+     * the first answer, then one per retry after an invalid answer.
+     */
+    responses: LlmResponse[];
+    /** How the prompt was fitted into its token budget. */
+    contextBudget: ContextBudgetReport;
 };
 
+/**
+ * The executor prompt budget: `EXECUTOR_PROMPT_BUDGET_TOKENS`, capped by the model's context
+ * window (from the price table) minus the tokens reserved for the answer.
+ */
+function executorPromptBudget(): number {
+    const config = env.llm.executor;
+    const contextWindow = findModelPrice(config.model)?.contextWindow;
+    const reservedForOutput = config.maxTokens ?? 8192;
+
+    return contextWindow
+        ? Math.min(env.executorPromptBudgetTokens, contextWindow - reservedForOutput)
+        : env.executorPromptBudgetTokens;
+}
+
+/**
+ * Parses an executor answer and validates it against the output schema.
+ *
+ * @returns The output when it is valid, and the errors otherwise (with their field paths).
+ */
+function parseExecutorOutput(content: string, editFormat: EditFormat): { output?: ExecutorOutput; errors: string[] } {
+    let parsed: unknown;
+
+    try {
+        parsed = parseJsonSafe<unknown>(content);
+    } catch (err: any) {
+        return { errors: [`the answer is not valid JSON (${err.message})`] };
+    }
+
+    const { data, errors } = validateWithSchema(executorOutputSchema(editFormat), parsed);
+    return data ? { output: { modifications: [], ...data } as ExecutorOutput, errors } : { errors };
+}
+
 /**
  * Runs the Executor Agent
  * 
  * This agent is responsible for taking the detailed plan from the Planner Agent and the
- * relevant source files, then generating the actual code modifications (unified diffs).
+ * relevant source files, then generating the actual code modifications (unified diffs)
+ * and the content of any new files.
  * 
  * Process:
- * 1. Constructs a prompt with the plan, docs, and file contents.
- * 2. Calls OpenAI to generate the implementation.
- * 3. Parses the output JSON into a structured object containing diffs.
+ * 1. Fits the docs and file contents into the prompt budget (`budgetExecutorContext`), then
+ *    constructs a prompt with the plan, docs, and file contents.
+ * 2. Calls the executor model (`EXECUTOR_LLM_*`) to generate the implementation, with the
+ *    `ExecutorOutput` JSON schema of the edit format (`executorOutputJsonSchema`).
+ * 3. Parses the output JSON into a structured object containing diffs
+ *    (or SEARCH/REPLACE edits when `editFormat` is `search-replace`), and validates it
+ *    against the schema. An invalid answer is sent back to the model with the errors, up to
+ *    `MAX_OUTPUT_RETRIES` times.
  * 
  * @param params - The input parameters containing plan, context, and files.
- * @returns The structured output containing unified diffs and summary.
+ * @returns The structured output containing unified diffs, new files and summary,
+ *          with the model responses it was parsed from and the context budget report.
+ * @throws {Error} If the answer still does not match the schema after the retries, listing
+ *                 the invalid fields
  * 
  * @example
+ * // result.output:
  * {
  *   summary: "Added login validation logic",
  *   confidence: 1.0,
  *   modifications: [
  *     { path: "src/auth.ts", diff: "--- src/auth.ts\n+++ src/auth.ts..." }
  *   ],
+ *   creations: [
+ *     { path: "src/hooks/use-auth.ts", content: "export function useAuth() {..." }
+ *   ],
  *   missingInformation: []
  * }
  */
 export async function runExecutorAgent(
     params: ExecutorAgentParams
-): Promise<ExecutorOutput> {
-    const prompt = buildExecutorPrompt({
-        plan: params.planJson,
+): Promise<ExecutorAgentResult> {
+    const filesToCreate = params.filesToCreate ?? [];
+
+    // Everything but the plan, docs and files: the part of the prompt that is never trimmed.
+    const fixedTokens = estimateTokens(buildExecutorPrompt({
+        plan: "",
+        projectDocs: "",
+        files: [],
+        filesToCreate,
+        editFormat: params.editFormat,
+        otherFiles: params.otherFiles,
+        hasExcerpts: true,
+    }));
+
+    const budgeted = budgetExecutorContext({
+        planJson: params.planJson,
         projectDocs: params.projectDocs,
-        files: params.files.map(f => ({
-            path: f.path,
-            content: f.content,
-        })),
+        files: params.files.map(f => ({ path: f.path, content: f.content })),
+        contextFiles: (params.contextFiles ?? []).map(f => ({ path: f.path, content: f.content })),
+        fixedTokens,
+        budgetTokens: executorPromptBudget(),
+        largeFileTokens: env.executorLargeFileTokens,
     });
 
-    saveDebugPrompt(prompt, `/executor/executor-input`)
+    const { report } = budgeted;
+    const trimmed = report.decisions.filter(d => d.action !== "kept");
+
+    console.log(`Executor prompt: ~${report.finalTokens} tokens (budget ${report.budgetTokens}, ~${report.originalTokens} before trimming)`);
+    for (const d of trimmed) {
+        console.log(`  ${d.action} ${d.kind} ${d.name} (${d.originalTokens} → ${d.finalTokens} tokens${d.reason ? `, ${d.reason}` : ""})`);
+    }
+    if (report.overBudget) {
+        console.warn("⚠️ The executor prompt is still over budget after trimming every optional part.");
+    }
 
-    console.log("Calling OpenAI API...");
-    const response = await openaiClient.chat.completions.create({
-        model: "gpt-4.1-mini",
-        messages: [{ role: "user", content: prompt }],
-        temperature: 0,
-    }, {
-        timeout: 120000
+    const prompt = buildExecutorPrompt({
+        plan: budgeted.plan,
+        projectDocs: budgeted.projectDocs,
+        files: budgeted.files,
+        contextFiles: budgeted.contextFiles,
+        filesToCreate,
+        editFormat: params.editFormat,
+        otherFiles: params.otherFiles,
+        hasExcerpts: trimmed.some(d => d.kind === "file" || d.kind === "context-file"),
     });
-    console.log("✓ Received response from OpenAI");
 
-    const content = response.choices[0].message?.content ?? "{}";
+    const debugName = params.debugName ?? "executor";
+    saveDebugPrompt(prompt, `/executor/${debugName}-input`)
+
+    const editFormat = params.editFormat ?? "unified-diff";
+    const messages: LlmMessage[] = [{ role: "user", content: prompt }];
+    const responses: LlmResponse[] = [];
+
+    for (let attempt = 0; ; attempt++) {
+        const response = await completeWithLlm("executor", {
+            messages,
+            jsonSchema: { name: "ExecutorOutput", schema: executorOutputJsonSchema(editFormat), strict: true },
+        }, {}, { taskId: params.taskId });
+        responses.push(response);
+
+        const content = response.content || "{}";
+
+        console.log("Saving debug prompt...");
+        saveDebugPrompt(content, `/executor/${debugName}-content-output${attempt ? `-retry-${attempt}` : ""}`)
+
+        const { output, errors } = parseExecutorOutput(content, editFormat);
+
+        if (output) {
+            return { output, responses, contextBudget: report };
+        }
+
+        const listed = errors.map(e => `- ${e}`).join("\n");
+
+        if (attempt >= MAX_OUTPUT_RETRIES) {
+            throw new Error(`Invalid executor output after ${attempt + 1} attempt(s):\n${listed}`);
+        }
 
-    console.log("Saving debug prompt...");
-    saveDebugPrompt(content, `/executor/executor-content-output`)
+        console.warn(`⚠️ Invalid executor output, asking the model to fix it:\n${listed}`);
 
-    const parsed = parseJsonSafe<ExecutorOutput>(content);
-    return parsed;
+        messages.push(
+            { role: "assistant", content },
+            {
+                role: "user",
+                content: `Your answer does not match the ExecutorOutput schema:\n${listed}\n\n` +
+                    "Fix these fields and return the complete corrected JSON only.",
+            }
+        );
+    }
 }
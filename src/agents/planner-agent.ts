@@ -1,14 +1,22 @@
 import fs from "node:fs";
 import path from "node:path";
 
-import { getMondayTaskById } from "@/tools/monday";
-import openAiClient from "@/services/openAIClient";
+import { env } from "@/config/env";
+import type { TaskProviderName } from "@/types/task";
+import { parseJsonSafe } from "@/utils/clean-json";
 import { saveDebugPrompt } from "@/utils/debug-prompt";
-import type { PlannerOutput } from "@/types/plannerTypes";
+import { summarizeLlmUsage } from "@/utils/summarize-llm-usage";
+import { completeWithLlm } from "@/services/llm/llm-client";
+import { getTaskProvider } from "@/services/tasks/task-provider";
+import { findRelevantFiles } from "@/retrieval/findRelevantFiles";
+import { getDependents, loadDependencyGraph } from "@/repo/dependency-graph";
+import type { Clarification, PlannerOutput } from "@/types/plannerTypes";
+import type { LlmCallStats, LlmMessage } from "@/types/llm";
 import buildPlannerPrompt from "@/prompts/build-planner-prompt";
-import { plannerOutputJsonSchema } from "@/schemas/planner-output-schema";
-
-const model = "gpt-4.1-mini";
+import { formatPlanPathIssue, validatePlanPaths } from "@/repo/validate-plan-paths";
+import { buildPlannerFeedbackPrompt } from "@/prompts/build-planner-feedback-prompt";
+import { validateWithSchema } from "@/utils/validate-schema";
+import { plannerOutputJsonSchema, plannerOutputSchema } from "@/schemas/planner-output-schema";
 
 /**
  * Loads the project context from the generated markdown file.
@@ -26,51 +34,150 @@ function loadProjectContext(): string {
     return fs.readFileSync(contextPath, "utf-8");
 }
 
+/**
+ * Adds a risk for every file to modify that other files import, based on the dependency graph.
+ * Does nothing when the graph has not been generated.
+ *
+ * @param {PlannerOutput} plan - The plan returned by the model.
+ * @returns {PlannerOutput} The plan with the affected-files risks appended.
+ */
+function addAffectedFilesRisks(plan: PlannerOutput): PlannerOutput {
+    const graph = loadDependencyGraph();
+    if (!graph) return plan;
+
+    for (const file of plan.implementation.filesToModify) {
+        const dependents = getDependents(graph, file).map(d => d.path);
+        if (!dependents.length) continue;
+
+        const listed = dependents.slice(0, 5).join(", ");
+        const more = dependents.length > 5 ? ` (+${dependents.length - 5} more)` : "";
+
+        plan.risks.push(
+            `Changing ${file} may affect ${dependents.length} file(s) that import it: ${listed}${more}`
+        );
+    }
+
+    return plan;
+}
+
+/**
+ * Parses a planner answer and validates it against `plannerOutputSchema`.
+ *
+ * @returns The plan when it is valid, and the errors otherwise (with their field paths).
+ */
+function parsePlannerAnswer(content: string): ReturnType<typeof validateWithSchema<typeof plannerOutputSchema>> {
+    try {
+        return validateWithSchema(plannerOutputSchema, parseJsonSafe<unknown>(content));
+    } catch (err: any) {
+        return { errors: [`the answer is not valid JSON (${err.message})`] };
+    }
+}
+
 /**
  * Runs the Planner Agent to generate an implementation plan for a given task.
  * 
  * This agent performs the following steps:
  * 1. Loads the project context.
- * 2. Fetches the task details from Monday.com.
- * 3. Builds a prompt combining context and task info.
- * 4. Queries OpenAI to generate a structured implementation plan.
+ * 2. Fetches the task details from its tracker (`options.source`, default `TASK_PROVIDER`):
+ *    the description and, when the tracker has them, fields, subtasks and comments.
+ * 3. Ranks the repository files most relevant to the task (BM25 over repo-index.json).
+ * 4. Builds a prompt combining context, task info, candidate files and the team's answers
+ *    to earlier questions.
+ * 5. Queries the planner model (`PLANNER_LLM_*`) to generate a structured implementation plan,
+ *    and validates it against `plannerOutputSchema`.
+ * 6. Checks `filesToModify` and `filesToCreate` against repo-index.json (`validatePlanPaths`).
+ *    An invalid plan or an unknown path is sent back to the planner, with the closest real
+ *    paths, up to `MAX_REPLAN_ATTEMPTS` times.
+ * 7. Lists the files importing each file to modify as risks.
+ * 8. Records the tokens and cost of the model calls in `metadata`.
  * 
- * @param {string} taskId - The ID of the task on Monday.com.
+ * @param {string} taskId - The ID of the task in its tracker.
+ * @param options.clarifications - Answers to questions asked about the task, added to the prompt.
+ * @param options.source - The tracker to read the task from (`getTaskProvider`).
  * @returns {Promise<PlannerOutput>} A promise that resolves to the generated plan in JSON format.
- * @throws {Error} If any step of the process fails.
+ * @throws {Error} If any step of the process fails, or the plan still does not match the schema
+ *                  or has unknown paths after re-planning (nothing is saved then).
  */
-export default async function plannerAgent(taskId: string): Promise<PlannerOutput> {
+export default async function plannerAgent(
+    taskId: string,
+    options: { clarifications?: Clarification[]; source?: TaskProviderName } = {}
+): Promise<PlannerOutput> {
     try {
         const projectDocContext = loadProjectContext();
 
-        const mondayTask = await getMondayTaskById(taskId);
+        const task = await getTaskProvider(options.source).getTask(taskId);
+
+        const candidateFiles = findRelevantFiles({
+            taskName: task.name,
+            taskDescription: task.description,
+        });
+
+        console.log(`[planner] ${candidateFiles.length} candidate files found in repo index`);
 
         const prompt = buildPlannerPrompt({
             projectDocs: projectDocContext,
             taskId,
-            taskName: mondayTask.name,
-            taskDescription: mondayTask.description,
+            taskName: task.name,
+            taskDescription: task.description,
+            taskFields: task.fields,
+            subtasks: task.subtasks,
+            comments: task.comments,
+            candidateFiles,
+            clarifications: options.clarifications,
         });
 
         saveDebugPrompt(prompt, `planner/${taskId}`);
 
-        const completion = await openAiClient.chat.completions.create({
-            model,
-            messages: [
-                { role: "system", content: "You output JSON only." },
-                { role: "user", content: prompt },
-            ],
-            response_format: {
-                type: "json_schema",
-                json_schema: {
+        const messages: LlmMessage[] = [
+            { role: "system", content: "You output JSON only." },
+            { role: "user", content: prompt },
+        ];
+        const llmCalls: LlmCallStats[] = [];
+
+        for (let attempt = 0; ; attempt++) {
+            const completion = await completeWithLlm("planner", {
+                messages,
+                jsonSchema: {
                     name: 'PlannerOutput',
                     schema: plannerOutputJsonSchema,
                     strict: true,
-                }
-            },
-        });
+                },
+            }, {}, { taskId });
+
+            if (completion.stats) llmCalls.push(completion.stats);
+
+            const content = completion.content || "{}";
+            const { data, errors: schemaErrors } = parsePlannerAnswer(content);
+            const pathIssues = data ? validatePlanPaths(data.implementation) ?? [] : [];
+
+            if (data && !pathIssues.length) {
+                const plan: PlannerOutput = {
+                    ...data,
+                    ...(options.clarifications?.length && { clarifications: options.clarifications }),
+                    metadata: {
+                        generatedAt: new Date().toISOString(),
+                        taskSource: task.source,
+                        llmUsage: summarizeLlmUsage(llmCalls),
+                        llmCalls,
+                    },
+                };
+
+                return addAffectedFilesRisks(plan);
+            }
+
+            const problems = [...schemaErrors, ...pathIssues.map(formatPlanPathIssue)].map(p => `- ${p}`).join("\n");
+
+            if (attempt >= env.maxReplanAttempts) {
+                throw new Error(`The planner returned an unusable plan after ${attempt + 1} attempt(s); it was not saved:\n${problems}`);
+            }
+
+            console.warn(`⚠️ [planner] The plan cannot be used, re-planning (attempt ${attempt + 2}):\n${problems}`);
+
+            const feedback = buildPlannerFeedbackPrompt({ schemaErrors, pathIssues });
+            saveDebugPrompt(feedback, `planner/${taskId}-replan-${attempt + 1}`);
 
-        return JSON.parse(completion.choices[0].message.content ?? "{}");
+            messages.push({ role: "assistant", content }, { role: "user", content: feedback });
+        }
     } catch (error) {
         console.error("Error in plannerAgent:", error);
         throw error;
@@ -0,0 +1,82 @@
+import { parseJsonSafe } from "@/utils/clean-json";
+import { completeWithLlm } from "@/services/llm/llm-client";
+import type { LlmResponse } from "@/types/llm";
+import { saveDebugPrompt } from "@/utils/debug-prompt";
+import type { FileModification } from "@/types/executor-output";
+import { buildRepairPrompt } from "@/prompts/build-repair-prompt";
+
+/**
+ * Input parameters for the Repair Agent.
+ */
+type RepairAgentParams = {
+    /** The JSON string of the plan generated by the Planner Agent (empty when unavailable). */
+    planJson: string;
+    /** The relative path of the file whose diff failed to apply. */
+    filePath: string;
+    /** The current content of the file on disk. */
+    fileContent: string;
+    /** The diff that every patch strategy rejected. */
+    failedDiff: string;
+    /** The error reported by each patch strategy. */
+    strategyErrors: string[];
+    /** The 1-based repair attempt number. */
+    attempt: number;
+    /** Task of the plan, recorded with the model call. */
+    taskId?: string;
+};
+
+/**
+ * What the Repair Agent returns: the regenerated modification, and the model response it came from.
+ */
+export type RepairAgentResult = {
+    modification: FileModification;
+    response: LlmResponse;
+};
+
+/**
+ * Runs the Executor model in repair mode for a single file.
+ *
+ * Sends the rejected diff, the real file content and the patch errors back to the model
+ * and asks it to regenerate the modification for that file only.
+ *
+ * @param params - The failing diff and its context.
+ * @returns The regenerated modification for the file, with the model response.
+ * @throws {Error} If the model response has no diff.
+ *
+ * @example
+ * const { modification } = await runRepairAgent({
+ *   planJson, filePath: "src/auth.ts", fileContent, failedDiff, strategyErrors, attempt: 1
+ * });
+ * // { path: "src/auth.ts", diff: "--- src/auth.ts\n+++ src/auth.ts..." }
+ */
+export async function runRepairAgent(
+    params: RepairAgentParams
+): Promise<RepairAgentResult> {
+    const prompt = buildRepairPrompt({
+        plan: params.planJson,
+        filePath: params.filePath,
+        fileContent: params.fileContent,
+        failedDiff: params.failedDiff,
+        strategyErrors: params.strategyErrors,
+        attempt: params.attempt,
+    });
+
+    const debugName = params.filePath.replace(/[\\/]/g, "__");
+    saveDebugPrompt(prompt, `/repair/${debugName}-attempt-${params.attempt}-input`);
+
+    console.log(`Repairing ${params.filePath} (attempt ${params.attempt})...`);
+    const response = await completeWithLlm("repair", {
+        messages: [{ role: "user", content: prompt }],
+    }, {}, { taskId: params.taskId });
+
+    const content = response.content || "{}";
+    saveDebugPrompt(content, `/repair/${debugName}-attempt-${params.attempt}-output`);
+
+    const parsed = parseJsonSafe<Partial<FileModification>>(content);
+
+    if (typeof parsed.diff !== "string" || !parsed.diff.trim()) {
+        throw new Error(`Repair response for ${params.filePath} did not contain a diff.`);
+    }
+
+    return { modification: { path: params.filePath, diff: parsed.diff }, response };
+}
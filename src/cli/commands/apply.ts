@@ -0,0 +1,86 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import type { CliCommand } from "@/types/cli";
+import type { PatchResult } from "@/utils/apply-patches";
+import type { ExecutorOutput } from "@/types/executor-output";
+import { findExecutionFolder } from "@/utils/find-execution-folder";
+
+import { EXIT_CODES, UsageError } from "../exit-codes";
+
+export const applyCommand: CliCommand = {
+    name: "apply",
+    summary: "Apply an execution's changes to the frontend repository",
+    usage: "mat apply [--execution <id>] [--failed] [--no-repair] [--dry-run] [--json]",
+    options: {
+        execution: {
+            type: "string",
+            short: "e",
+            valueName: "<id>",
+            description: "Execution to apply (default: the latest one)",
+        },
+        failed: {
+            type: "boolean",
+            description: "Only re-apply the files that failed in the execution's apply-results.json",
+        },
+        "no-repair": { type: "boolean", description: "Disable the self-repair loop for rejected diffs" },
+        "dry-run": { type: "boolean", description: "Check that every change applies without writing anything" },
+    },
+
+    async run({ values, positionals }) {
+        if (positionals.length) throw new UsageError(`Unexpected arguments: ${positionals.join(" ")}`);
+
+        const { id, folder } = findExecutionFolder(values.execution as string | undefined);
+        const executorOutputPath = path.join(folder, "executor-output.json");
+
+        if (!fs.existsSync(executorOutputPath)) {
+            throw new Error(`executor-output.json not found in ${folder}`);
+        }
+
+        const executorOutput = JSON.parse(fs.readFileSync(executorOutputPath, "utf8")) as ExecutorOutput;
+
+        const manifestPath = path.join(folder, "execution-manifest.json");
+        const planJson: string = fs.existsSync(manifestPath)
+            ? JSON.parse(fs.readFileSync(manifestPath, "utf8")).plan
+            : "";
+
+        const dryRun = values["dry-run"] === true;
+
+        const applyResultsPath = path.join(folder, "apply-results.json");
+        let previousResults: PatchResult[] | undefined;
+
+        if (values.failed) {
+            if (!fs.existsSync(applyResultsPath)) {
+                throw new UsageError(`--failed needs the results of an earlier apply: ${applyResultsPath} not found.`);
+            }
+            previousResults = JSON.parse(fs.readFileSync(applyResultsPath, "utf8")) as PatchResult[];
+        } else if (fs.existsSync(applyResultsPath) && !dryRun) {
+            console.warn(`⚠️ Execution ${id} was already applied: every change is applied again. Use --failed to only retry the failed files.`);
+        }
+
+        // Loaded lazily so `mat --help` works without a configured .env.
+        const { runApply } = await import("@/orchestrator/run-apply");
+
+        console.log(`🛠 ${dryRun ? "Checking" : "Applying"} execution: ${id}`);
+
+        const results = await runApply(executorOutput, {
+            executionFolder: folder,
+            planJson,
+            maxRepairAttempts: values["no-repair"] ? 0 : undefined,
+            dryRun,
+            previousResults,
+        });
+
+        if (!dryRun) {
+            fs.writeFileSync(applyResultsPath, JSON.stringify(results, null, 2), "utf8");
+            console.log("Apply results stored at:", applyResultsPath);
+        }
+
+        const failed = results.filter(r => !r.success).length;
+
+        return {
+            exitCode: failed ? EXIT_CODES.partial : EXIT_CODES.success,
+            data: { id, folder, dryRun, applied: results.length - failed, failed, results },
+        };
+    },
+};
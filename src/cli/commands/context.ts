@@ -0,0 +1,21 @@
+import type { CliCommand } from "@/types/cli";
+
+import { EXIT_CODES, UsageError } from "../exit-codes";
+
+export const contextCommand: CliCommand = {
+    name: "context",
+    summary: "Build generated/memory/project-context.md from the frontend repo docs",
+    usage: "mat context [--json]",
+    options: {},
+
+    async run({ positionals }) {
+        if (positionals.length) throw new UsageError(`Unexpected arguments: ${positionals.join(" ")}`);
+
+        // Loaded lazily so `mat --help` works without a configured .env.
+        const { buildProjectContext } = await import("@/utils/build-project-context");
+
+        const context = buildProjectContext();
+
+        return { exitCode: context ? EXIT_CODES.success : EXIT_CODES.failure, data: { length: context.length } };
+    },
+};
@@ -0,0 +1,160 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import type { CliCommand } from "@/types/cli";
+import { loadAnswersFile } from "@/utils/clarifications";
+import type { EditFormat, ExecutorMode } from "@/types/executor-output";
+
+import { EXIT_CODES, UsageError } from "../exit-codes";
+
+const PROJECT_CONTEXT_PATH = "generated/memory/project-context.md";
+
+/**
+ * Resolves the plan file from `--plan <path>` or `--task <id>` (`plans/task-<id>.json`).
+ *
+ * @throws {UsageError} If neither or both options are given
+ * @throws {Error} If the plan file does not exist
+ */
+function resolvePlanPath(plan: string | undefined, task: string | undefined): string {
+    if (!plan === !task) throw new UsageError("Pass exactly one of --plan <path> or --task <id>.");
+
+    const planPath = path.resolve(process.cwd(), plan ?? path.join("plans", `task-${task}.json`));
+
+    if (!fs.existsSync(planPath)) {
+        throw new Error(`Plan not found: ${planPath}. Run 'mat plan <taskId>' first.`);
+    }
+
+    return planPath;
+}
+
+export const executeCommand: CliCommand = {
+    name: "execute",
+    summary: "Generate diffs for a plan into a new execution folder",
+    usage: "mat execute (--plan <path> | --task <id>) [--edit-format <format>] [--mode <mode>] [--concurrency <n>] [--context <path>] [--clarify] [--answers <file>] [--dry-run] [--json]",
+    options: {
+        plan: { type: "string", short: "p", valueName: "<path>", description: "Plan JSON file to execute" },
+        task: { type: "string", short: "t", valueName: "<id>", description: "Execute plans/task-<id>.json" },
+        "edit-format": {
+            type: "string",
+            valueName: "<format>",
+            description: "unified-diff | search-replace (default: EXECUTOR_EDIT_FORMAT)",
+        },
+        mode: {
+            type: "string",
+            valueName: "<mode>",
+            description: "single (one call) | per-file (one call per file) (default: EXECUTOR_MODE)",
+        },
+        concurrency: {
+            type: "string",
+            valueName: "<n>",
+            description: "Parallel executor calls in per-file mode (default: EXECUTOR_CONCURRENCY)",
+        },
+        context: {
+            type: "string",
+            valueName: "<path>",
+            description: `Project context file (default: ${PROJECT_CONTEXT_PATH})`,
+        },
+        clarify: {
+            type: "boolean",
+            description: "Ask the executor's missing information in the terminal and execute again with the answers",
+        },
+        answers: {
+            type: "string",
+            valueName: "<file>",
+            description: "JSON file of answers ({ \"question\": \"answer\" }) saved to the plan before executing",
+        },
+        "dry-run": {
+            type: "boolean",
+            description: "Validate the plan and load its files without calling the model",
+        },
+    },
+
+    async run({ values, positionals }) {
+        if (positionals.length) throw new UsageError(`Unexpected arguments: ${positionals.join(" ")}`);
+
+        const editFormat = values["edit-format"] as string | undefined;
+        if (editFormat !== undefined && editFormat !== "unified-diff" && editFormat !== "search-replace") {
+            throw new UsageError("--edit-format must be 'unified-diff' or 'search-replace'.");
+        }
+
+        const mode = values.mode as string | undefined;
+        if (mode !== undefined && mode !== "single" && mode !== "per-file") {
+            throw new UsageError("--mode must be 'single' or 'per-file'.");
+        }
+
+        const concurrency = values.concurrency !== undefined ? Number(values.concurrency) : undefined;
+        if (concurrency !== undefined && !(Number.isInteger(concurrency) && concurrency > 0)) {
+            throw new UsageError("--concurrency must be a positive integer.");
+        }
+
+        if (values.clarify && !process.stdin.isTTY) {
+            throw new UsageError("--clarify asks questions in a terminal; use --answers <file> in scripts.");
+        }
+
+        const planPath = resolvePlanPath(values.plan as string | undefined, values.task as string | undefined);
+        const jsonPlanContent = fs.readFileSync(planPath, "utf8");
+
+        // Loaded lazily so `mat --help` works without a configured .env.
+        const { prepareExecution } = await import("@/orchestrator/run-execution");
+        const { runClarifiedExecution } = await import("@/orchestrator/run-clarified-execution");
+
+        if (values["dry-run"]) {
+            const prepared = await prepareExecution(jsonPlanContent, planPath);
+            console.log("✔ Plan is valid. Dry run: the executor was not called.");
+
+            return {
+                exitCode: EXIT_CODES.success,
+                data: {
+                    plan: planPath,
+                    filesToModify: prepared.filesToModify,
+                    filesToCreate: prepared.filesToCreate,
+                    contextFiles: prepared.contextFiles.map(f => f.path),
+                },
+            };
+        }
+
+        const contextPath = path.resolve(process.cwd(), (values.context as string | undefined) ?? PROJECT_CONTEXT_PATH);
+        if (!fs.existsSync(contextPath)) {
+            throw new Error(`Project context not found at: ${contextPath}. Please run 'npm run build:project-context' first.`);
+        }
+
+        console.log("Running execution for plan:", planPath);
+
+        const answersPath = values.answers as string | undefined;
+
+        const result = await runClarifiedExecution({
+            jsonPlanContent,
+            projectDocsContext: fs.readFileSync(contextPath, "utf8"),
+            editFormat: editFormat as EditFormat | undefined,
+            mode: mode as ExecutorMode | undefined,
+            concurrency,
+            planPath,
+        }, {
+            clarify: values.clarify === true,
+            answers: answersPath ? loadAnswersFile(path.resolve(process.cwd(), answersPath), "executor") : undefined,
+        });
+
+        const failedFiles = (result.fileResults ?? []).filter(r => !r.success);
+
+        console.log(failedFiles.length
+            ? `⚠️ Execution ${result.id} ready without ${failedFiles.map(r => r.path).join(", ")}. Apply it with: mat apply --execution ${result.id}`
+            : `✅ Execution ${result.id} ready. Apply it with: mat apply --execution ${result.id}`);
+
+        return {
+            exitCode: failedFiles.length ? EXIT_CODES.partial : EXIT_CODES.success,
+            data: {
+                id: result.id,
+                folder: result.savedDiffsPath,
+                plan: planPath,
+                summary: result.output.summary,
+                modifications: result.output.modifications.map(m => m.path),
+                creations: (result.output.creations ?? []).map(c => c.path),
+                missingInformation: result.output.missingInformation,
+                openQuestions: result.openQuestions,
+                supersededIds: result.supersededIds,
+                confidence: result.output.confidence,
+                fileResults: result.fileResults?.map(({ contextBudget: _budget, ...r }) => r),
+            },
+        };
+    },
+};
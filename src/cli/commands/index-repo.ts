@@ -0,0 +1,73 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import type { CliCommand } from "@/types/cli";
+import type { RepoIndex } from "@/types/repo-index";
+import normalizePath from "@/utils/normalize-path";
+
+import { EXIT_CODES } from "../exit-codes";
+
+export const indexCommand: CliCommand = {
+    name: "index",
+    summary: "Index the frontend repository (incremental by default)",
+    usage: "mat index [--full] [--dry-run] [--json] | mat index --explain [paths...]",
+    options: {
+        full: { type: "boolean", description: "Ignore the previous index and re-process every file" },
+        explain: {
+            type: "boolean",
+            description: "Show which classification rule matches each path (default: every indexed file)",
+        },
+        "dry-run": { type: "boolean", description: "Show the files that would be re-indexed without writing" },
+    },
+
+    async run({ values, positionals }) {
+        // Loaded lazily so `mat --help` works without a configured .env.
+        const { env } = await import("@/config/env");
+        const { explainClassification } = await import("@/repo/classify-file");
+        const { printIndexChangeSummary, REPO_INDEX_PATH, updateRepoIndex } = await import("@/repo/update-repo-index");
+
+        if (values.explain) {
+            let paths = positionals;
+
+            if (!paths.length) {
+                if (!fs.existsSync(REPO_INDEX_PATH)) {
+                    throw new Error("repo-index.json not found. Run 'mat index' first or pass paths to explain.");
+                }
+
+                const index = JSON.parse(fs.readFileSync(REPO_INDEX_PATH, "utf8")) as RepoIndex;
+                paths = index.files.map(f => f.path);
+            }
+
+            const explanations = paths.map(p => explainClassification(normalizePath(p)));
+            const counts: Record<string, number> = {};
+
+            for (const { path: relPath, type, rule, ruleIndex, source } of explanations) {
+                counts[type] = (counts[type] ?? 0) + 1;
+
+                const matched = rule
+                    ? `rule #${ruleIndex! + 1} ${rule.glob ? `glob "${rule.glob}"` : `regex /${rule.regex}/${rule.flags ?? ""}`}` +
+                      `${rule.description ? ` (${rule.description})` : ""} from ${source}`
+                    : "no rule matched";
+
+                console.log(`${relPath} → ${type}  [${matched}]`);
+            }
+
+            console.log("\n📊 Types:", Object.entries(counts).map(([type, n]) => `${type}: ${n}`).join(", "));
+
+            return { exitCode: EXIT_CODES.success, data: { explanations, counts } };
+        }
+
+        const repoRoot = path.resolve(env.frontendRepoPath);
+        const full = values.full === true;
+        const dryRun = values["dry-run"] === true;
+
+        console.log(`📁 Indexing repo at: ${repoRoot}${full ? " (full rebuild)" : ""}${dryRun ? " (dry run)" : ""}`);
+
+        const { summary } = updateRepoIndex(repoRoot, { full, dryRun });
+        printIndexChangeSummary(summary);
+
+        if (!dryRun) console.log(`✅ repo-index.json up to date at ${REPO_INDEX_PATH}!`);
+
+        return { exitCode: EXIT_CODES.success, data: { root: repoRoot, full, dryRun, ...summary } };
+    },
+};
@@ -0,0 +1,99 @@
+import type { CliCommand } from "@/types/cli";
+import type { BatchPlanResult } from "@/orchestrator/run-batch-planner";
+
+import { EXIT_CODES, UsageError } from "../exit-codes";
+
+/** Item names are cut to this width in the summary table. */
+const MAX_NAME_WIDTH = 50;
+
+function formatSummary(results: BatchPlanResult[]): string {
+    const rows = [
+        ["Task", "Status", "Complexity", "Confidence", "Missing info", "Name"],
+        ...results.map(r => [
+            r.taskId,
+            r.status,
+            r.complexity ?? "-",
+            r.confidence !== undefined ? String(r.confidence) : "-",
+            r.missingInformation ? String(r.missingInformation.length) : "-",
+            r.name.length > MAX_NAME_WIDTH ? `${r.name.slice(0, MAX_NAME_WIDTH - 1)}…` : r.name,
+        ]),
+    ];
+
+    const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+    return rows.map(row => `  ${row.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd()}`).join("\n");
+}
+
+export const planBatchCommand: CliCommand = {
+    name: "plan-batch",
+    summary: "Plan every item of a Monday board or group, several at a time",
+    usage: "mat plan-batch --board <id> [--group <id>] [--filter <column>=<value>] [--concurrency <n>] [--force] [--dry-run] [--json]",
+    options: {
+        board: {
+            type: "string",
+            short: "b",
+            valueName: "<id>",
+            description: "Monday board to plan",
+        },
+        group: {
+            type: "string",
+            short: "g",
+            valueName: "<id>",
+            description: "Only plan the items of this group",
+        },
+        filter: {
+            type: "string",
+            valueName: "<column>=<value>",
+            description: "Only plan the items whose column (ID or title) has this text, e.g. Status=Ready",
+        },
+        concurrency: {
+            type: "string",
+            valueName: "<n>",
+            description: "Items planned at a time (default: PLANNER_CONCURRENCY)",
+        },
+        force: { type: "boolean", description: "Re-plan items whose plan is newer than their last update" },
+        "dry-run": { type: "boolean", description: "Generate the plans without saving them to plans/" },
+    },
+
+    async run({ values, positionals }) {
+        if (positionals.length) throw new UsageError(`Unexpected arguments: ${positionals.join(" ")}`);
+
+        const boardId = values.board as string | undefined;
+        if (!boardId) throw new UsageError("Missing --board <id>.");
+
+        const filterValue = values.filter as string | undefined;
+        const separator = filterValue?.indexOf("=") ?? -1;
+        if (filterValue !== undefined && separator < 1) {
+            throw new UsageError("--filter must be <column>=<value>, e.g. Status=Ready.");
+        }
+
+        const concurrency = values.concurrency !== undefined ? Number(values.concurrency) : undefined;
+        if (concurrency !== undefined && !(Number.isInteger(concurrency) && concurrency > 0)) {
+            throw new UsageError("--concurrency must be a positive integer.");
+        }
+
+        // Loaded lazily so `mat --help` works without a configured .env.
+        const { runBatchPlanner } = await import("@/orchestrator/run-batch-planner");
+
+        const results = await runBatchPlanner({
+            boardId,
+            groupId: values.group as string | undefined,
+            filter: filterValue
+                ? { column: filterValue.slice(0, separator).trim(), value: filterValue.slice(separator + 1).trim() }
+                : undefined,
+        }, {
+            concurrency,
+            force: values.force === true,
+            dryRun: values["dry-run"] === true,
+        });
+
+        const count = (status: BatchPlanResult["status"]) => results.filter(r => r.status === status).length;
+
+        console.log(`\n📋 ${results.length} item(s): ${count("planned")} planned, ${count("skipped")} skipped, ${count("failed")} failed`);
+        if (results.length) console.log(formatSummary(results));
+
+        return {
+            exitCode: count("failed") ? EXIT_CODES.partial : EXIT_CODES.success,
+            data: { boardId, groupId: values.group, results },
+        };
+    },
+};
@@ -0,0 +1,60 @@
+import path from "node:path";
+
+import type { CliCommand } from "@/types/cli";
+import type { TaskProviderName } from "@/types/task";
+import { loadAnswersFile } from "@/utils/clarifications";
+
+import { EXIT_CODES, UsageError } from "../exit-codes";
+
+export const planCommand: CliCommand = {
+    name: "plan",
+    summary: "Generate an implementation plan for a task (Monday, local file, GitHub or Jira)",
+    usage: "mat plan <taskId> [--source <provider>] [--clarify] [--answers <file>] [--dry-run] [--json]",
+    options: {
+        source: {
+            type: "string",
+            short: "s",
+            valueName: "<provider>",
+            description: "Task tracker: monday | file | github | jira (default: TASK_PROVIDER)",
+        },
+        clarify: {
+            type: "boolean",
+            description: "Ask the plan's missing information in the terminal and re-plan with the answers",
+        },
+        answers: {
+            type: "string",
+            valueName: "<file>",
+            description: "JSON file of answers ({ \"question\": \"answer\" }) to plan with",
+        },
+        "dry-run": { type: "boolean", description: "Generate the plan without saving it to plans/" },
+    },
+
+    async run({ values, positionals }) {
+        const [taskId, ...rest] = positionals;
+        if (!taskId) throw new UsageError("Missing <taskId>.");
+        if (rest.length) throw new UsageError(`Unexpected arguments: ${rest.join(" ")}`);
+
+        const source = values.source as string | undefined;
+        if (source !== undefined && !["monday", "file", "github", "jira"].includes(source)) {
+            throw new UsageError("--source must be 'monday', 'file', 'github' or 'jira'.");
+        }
+
+        if (values.clarify && !process.stdin.isTTY) {
+            throw new UsageError("--clarify asks questions in a terminal; use --answers <file> in scripts.");
+        }
+
+        // Loaded lazily so `mat --help` works without a configured .env.
+        const { runPlanner } = await import("@/orchestrator/run-planner");
+
+        const answersPath = values.answers as string | undefined;
+
+        const result = await runPlanner(taskId, {
+            dryRun: values["dry-run"] === true,
+            clarify: values.clarify === true,
+            source: source as TaskProviderName | undefined,
+            answers: answersPath ? loadAnswersFile(path.resolve(process.cwd(), answersPath), "planner") : undefined,
+        });
+
+        return { exitCode: EXIT_CODES.success, data: { taskId, ...result } };
+    },
+};
@@ -0,0 +1,80 @@
+import type { CliCommand } from "@/types/cli";
+import type { LlmCallStats, LlmUsageSummary } from "@/types/llm";
+import { summarizeLlmUsage } from "@/utils/summarize-llm-usage";
+import { readUsageLedger, USAGE_LEDGER_PATH } from "@/services/llm/usage-ledger";
+
+import { EXIT_CODES, UsageError } from "../exit-codes";
+
+function groupBy(calls: LlmCallStats[], key: (call: LlmCallStats) => string): Record<string, LlmUsageSummary> {
+    const groups = new Map<string, LlmCallStats[]>();
+
+    for (const call of calls) {
+        const k = key(call);
+        groups.set(k, [...(groups.get(k) ?? []), call]);
+    }
+
+    return Object.fromEntries(
+        Array.from(groups.keys()).sort().map(k => [k, summarizeLlmUsage(groups.get(k)!)])
+    );
+}
+
+function formatUsage(usage: LlmUsageSummary): string {
+    const cached = usage.cachedCalls ? ` (${usage.cachedCalls} cached)` : "";
+    const tokens = `${usage.promptTokens.toLocaleString("en-US")} in / ${usage.completionTokens.toLocaleString("en-US")} out`;
+    return `$${usage.costUsd.toFixed(4).padStart(9)}  ${String(usage.calls).padStart(3)} call(s)${cached}  ${tokens}`;
+}
+
+export const reportCommand: CliCommand = {
+    name: "report",
+    summary: "Report model tokens and estimated cost per task and per day",
+    usage: "mat report [--task <id>] [--since <YYYY-MM-DD>] [--json]",
+    options: {
+        task: {
+            type: "string",
+            short: "t",
+            valueName: "<id>",
+            description: "Only count the calls made for this task",
+        },
+        since: {
+            type: "string",
+            valueName: "<YYYY-MM-DD>",
+            description: "Only count the calls made on or after this day",
+        },
+    },
+
+    async run({ values, positionals }) {
+        if (positionals.length) throw new UsageError(`Unexpected arguments: ${positionals.join(" ")}`);
+
+        const since = values.since as string | undefined;
+        if (since && !/^\d{4}-\d{2}-\d{2}$/.test(since)) throw new UsageError("--since must be a date like 2025-01-31");
+
+        // The ledger has every call, including dry runs, re-plans and failed runs, which plans and manifests do not keep.
+        const calls = readUsageLedger()
+            .filter(c => !values.task || c.taskId === values.task)
+            .filter(c => !since || c.startedAt.slice(0, 10) >= since);
+
+        const total = summarizeLlmUsage(calls);
+        const byTask = groupBy(calls, c => c.taskId ?? "unknown");
+        const byDay = groupBy(calls, c => c.startedAt.slice(0, 10));
+        const byAgent = groupBy(calls, c => c.agent);
+
+        if (!calls.length) {
+            console.log(`No model calls recorded in ${USAGE_LEDGER_PATH}.`);
+        } else {
+            const width = Math.max(...Object.keys(byTask).map(k => k.length), 10);
+
+            console.log("💰 Per task");
+            for (const [taskId, usage] of Object.entries(byTask)) console.log(`  ${taskId.padEnd(width)}  ${formatUsage(usage)}`);
+
+            console.log("\n📅 Per day");
+            for (const [day, usage] of Object.entries(byDay)) console.log(`  ${day.padEnd(width)}  ${formatUsage(usage)}`);
+
+            console.log("\n🤖 Per agent");
+            for (const [agent, usage] of Object.entries(byAgent)) console.log(`  ${agent.padEnd(width)}  ${formatUsage(usage)}`);
+
+            console.log(`\n  ${"Total".padEnd(width)}  ${formatUsage(total)}`);
+        }
+
+        return { exitCode: EXIT_CODES.success, data: { total, byTask, byDay, byAgent } };
+    },
+};
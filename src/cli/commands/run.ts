@@ -0,0 +1,105 @@
+import type { CliCommand } from "@/types/cli";
+import type { TaskProviderName } from "@/types/task";
+import type { EditFormat, ExecutorMode } from "@/types/executor-output";
+import { PIPELINE_PHASES } from "@/utils/run-state";
+
+import { EXIT_CODES, UsageError } from "../exit-codes";
+
+export const runCommand: CliCommand = {
+    name: "run",
+    summary: "Run a task end to end (context, index, plan, execute, apply, verify) with checkpoints",
+    usage: "mat run <taskId> [--source <provider>] [--edit-format <format>] [--mode <mode>] [--no-repair] [--json] | mat run --resume <runId|taskId>",
+    options: {
+        resume: {
+            type: "string",
+            short: "r",
+            valueName: "<runId|taskId>",
+            description: "Resume a run from its last completed phase (a task ID resumes its latest run)",
+        },
+        source: {
+            type: "string",
+            short: "s",
+            valueName: "<provider>",
+            description: "Task tracker: monday | file | github | jira (default: TASK_PROVIDER)",
+        },
+        "edit-format": {
+            type: "string",
+            valueName: "<format>",
+            description: "unified-diff | search-replace (default: EXECUTOR_EDIT_FORMAT)",
+        },
+        mode: {
+            type: "string",
+            valueName: "<mode>",
+            description: "Executor mode: single | per-file (default: EXECUTOR_MODE)",
+        },
+        "no-repair": { type: "boolean", description: "Disable the self-repair loop for rejected diffs" },
+        "dry-run": { type: "boolean", description: "Show the phases that would run without running them" },
+    },
+
+    async run({ values, positionals }) {
+        const resume = values.resume as string | undefined;
+        const [taskId, ...rest] = positionals;
+
+        if (!resume === !taskId) throw new UsageError("Pass either <taskId> or --resume <runId|taskId>.");
+        if (rest.length) throw new UsageError(`Unexpected arguments: ${rest.join(" ")}`);
+
+        const editFormat = values["edit-format"] as string | undefined;
+        if (editFormat !== undefined && editFormat !== "unified-diff" && editFormat !== "search-replace") {
+            throw new UsageError("--edit-format must be 'unified-diff' or 'search-replace'.");
+        }
+
+        const mode = values.mode as string | undefined;
+        if (mode !== undefined && mode !== "single" && mode !== "per-file") {
+            throw new UsageError("--mode must be 'single' or 'per-file'.");
+        }
+
+        const source = values.source as string | undefined;
+        if (source !== undefined && !["monday", "file", "github", "jira"].includes(source)) {
+            throw new UsageError("--source must be 'monday', 'file', 'github' or 'jira'.");
+        }
+
+        if (resume && (source || editFormat || mode || values["no-repair"])) {
+            throw new UsageError("A resumed run keeps its original options; --source, --edit-format, --mode and --no-repair are not allowed.");
+        }
+
+        // Loaded lazily so `mat --help` works without a configured .env.
+        const { createRunState, listRunIds, loadRunState } = await import("@/utils/run-state");
+
+        if (values["dry-run"]) {
+            const state = resume ? loadRunState(listRunIds(resume)[0] ?? resume) : undefined;
+            const phases = PIPELINE_PHASES.filter(p => state?.phases[p].status !== "completed");
+
+            console.log(`Phases to run${state ? ` for ${state.id}` : ""}: ${phases.join(" → ") || "none"}`);
+            return { exitCode: EXIT_CODES.success, data: { runId: state?.id, phases } };
+        }
+
+        const state = resume
+            ? loadRunState(listRunIds(resume)[0] ?? resume)
+            : createRunState(taskId, {
+                taskSource: source as TaskProviderName | undefined,
+                editFormat: editFormat as EditFormat | undefined,
+                executorMode: mode as ExecutorMode | undefined,
+                maxRepairAttempts: values["no-repair"] ? 0 : undefined,
+            });
+
+        if (state.status === "completed") {
+            console.log(`Run ${state.id} is already completed.`);
+            return { exitCode: EXIT_CODES.success, data: state };
+        }
+
+        console.log(`🚀 ${resume ? "Resuming" : "Starting"} run ${state.id} for task ${state.taskId}`);
+
+        const { runPipeline } = await import("@/orchestrator/run-pipeline");
+
+        try {
+            const final = await runPipeline(state);
+            console.log(`\n✅ Run ${final.id} completed. Execution: ${final.executionId}`);
+
+            return { exitCode: EXIT_CODES.success, data: final };
+        } catch (err: any) {
+            // The failure is recorded in the run state; the state is more useful than the bare error.
+            console.error(`❌ ${err.message}`);
+            return { exitCode: EXIT_CODES.failure, data: state };
+        }
+    },
+};
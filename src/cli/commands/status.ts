@@ -0,0 +1,182 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import type { CliCommand } from "@/types/cli";
+import type { RepoIndex } from "@/types/repo-index";
+import type { PatchResult } from "@/utils/apply-patches";
+import type { ExecutionManifest } from "@/utils/save-execution-manifest";
+import { listRunIds, loadRunState, PIPELINE_PHASES } from "@/utils/run-state";
+import { findExecutionFolder, listExecutionIds } from "@/utils/find-execution-folder";
+
+import { EXIT_CODES, UsageError } from "../exit-codes";
+
+const GENERATED_FILES = {
+    repoIndex: "generated/repo-index.json",
+    symbolIndex: "generated/symbol-index.json",
+    dependencyGraph: "generated/dependency-graph.json",
+    projectContext: "generated/memory/project-context.md",
+};
+
+/** Number of executions and runs listed when no `--execution` is given. */
+const MAX_EXECUTIONS = 10;
+
+type ExecutionStatus = {
+    id: string;
+    createdAt: string;
+    /** Task ID of the plan that produced the execution, when the manifest has it. */
+    taskId?: string;
+    /** Plan file and pipeline run that produced the execution, when recorded. */
+    planPath?: string;
+    runId?: string;
+    modifications: number;
+    creations: number;
+    /** `pending` until `mat apply` wrote `apply-results.json`. */
+    applied: "pending" | { succeeded: number; failed: number };
+};
+
+function readJson<T>(filePath: string): T | undefined {
+    try {
+        return JSON.parse(fs.readFileSync(filePath, "utf8")) as T;
+    } catch {
+        return undefined;
+    }
+}
+
+function parsePlanTask(json: string): { task?: { id?: string } } | undefined {
+    try {
+        return JSON.parse(json);
+    } catch {
+        return undefined;
+    }
+}
+
+function formatApplied(applied: ExecutionStatus["applied"]): string {
+    return applied === "pending"
+        ? "not applied"
+        : `applied (${applied.succeeded} ok, ${applied.failed} failed)`;
+}
+
+/**
+ * Summarizes an execution folder from its manifest and apply results.
+ */
+function getExecutionStatus(id: string, folder: string): ExecutionStatus {
+    const manifest = readJson<ExecutionManifest>(path.join(folder, "execution-manifest.json"));
+    const applyResults = readJson<PatchResult[]>(path.join(folder, "apply-results.json"));
+    const plan = manifest ? parsePlanTask(manifest.plan) : undefined;
+
+    const createdAt = /^\d+$/.test(id)
+        ? new Date(Number(id)).toISOString()
+        : fs.statSync(folder).birthtime.toISOString();
+
+    return {
+        id,
+        createdAt,
+        taskId: plan?.task?.id,
+        planPath: manifest?.planPath,
+        runId: manifest?.runId,
+        modifications: manifest?.executorOutput.modifications.length ?? 0,
+        creations: manifest?.executorOutput.creations?.length ?? 0,
+        applied: applyResults
+            ? {
+                succeeded: applyResults.filter(r => r.success).length,
+                failed: applyResults.filter(r => !r.success).length,
+            }
+            : "pending",
+    };
+}
+
+export const statusCommand: CliCommand = {
+    name: "status",
+    summary: "Show the index, plans, executions and pipeline runs",
+    usage: "mat status [--execution <id>] [--json]",
+    options: {
+        execution: {
+            type: "string",
+            short: "e",
+            valueName: "<id>",
+            description: "Show a single execution",
+        },
+    },
+
+    async run({ values, positionals }) {
+        if (positionals.length) throw new UsageError(`Unexpected arguments: ${positionals.join(" ")}`);
+
+        if (values.execution) {
+            const { id, folder } = findExecutionFolder(values.execution as string);
+            const execution = getExecutionStatus(id, folder);
+
+            console.log(`Execution ${id} (${execution.createdAt})`);
+            console.log(`  Folder:  ${folder}`);
+            console.log(`  Task:    ${execution.taskId ?? "unknown"}`);
+            console.log(`  Plan:    ${execution.planPath ?? "unknown"}${execution.runId ? ` (run ${execution.runId})` : ""}`);
+            console.log(`  Changes: ${execution.modifications} modification(s), ${execution.creations} creation(s)`);
+            console.log(`  Applied: ${formatApplied(execution.applied)}`);
+
+            return { exitCode: EXIT_CODES.success, data: { ...execution, folder } };
+        }
+
+        const index = readJson<RepoIndex>(path.resolve(process.cwd(), GENERATED_FILES.repoIndex));
+
+        const generated = Object.fromEntries(
+            Object.entries(GENERATED_FILES).map(([key, file]) => [key, fs.existsSync(path.resolve(process.cwd(), file))])
+        );
+
+        const plansDir = path.join(process.cwd(), "plans");
+        const plans = fs.existsSync(plansDir)
+            ? fs.readdirSync(plansDir).filter(f => f.endsWith(".json")).sort()
+            : [];
+
+        const executions = listExecutionIds()
+            .slice(0, MAX_EXECUTIONS)
+            .map(id => getExecutionStatus(id, findExecutionFolder(id).folder));
+
+        const runs = listRunIds()
+            .slice(0, MAX_EXECUTIONS)
+            .map(loadRunState)
+            .map(run => ({
+                id: run.id,
+                taskId: run.taskId,
+                status: run.status,
+                completedPhases: PIPELINE_PHASES.filter(p => run.phases[p].status === "completed"),
+                failedPhase: PIPELINE_PHASES.find(p => run.phases[p].status === "failed"),
+                executionId: run.executionId,
+            }));
+
+        console.log("📁 Repo index");
+        console.log(index
+            ? `  ${index.files.length} files from ${index.root}, generated ${index.generatedAt}`
+            : "  not built (run 'mat index')");
+
+        for (const [key, exists] of Object.entries(generated)) {
+            console.log(`  ${exists ? "✔" : "✖"} ${GENERATED_FILES[key as keyof typeof GENERATED_FILES]}`);
+        }
+
+        console.log(`\n📝 Plans (${plans.length})`);
+        for (const plan of plans) console.log(`  ${plan}`);
+
+        console.log(`\n🛠 Executions (latest ${executions.length})`);
+        for (const e of executions) {
+            console.log(
+                `  ${e.id}  task ${e.taskId ?? "?"}  ${e.modifications} mod / ${e.creations} new  ${formatApplied(e.applied)}`
+            );
+        }
+
+        console.log(`\n🚀 Runs (latest ${runs.length})`);
+        for (const r of runs) {
+            const progress = `${r.completedPhases.length}/${PIPELINE_PHASES.length} phases`;
+            const failed = r.failedPhase ? `, failed at ${r.failedPhase}` : "";
+            console.log(`  ${r.id}  ${r.status} (${progress}${failed})${r.executionId ? `  execution ${r.executionId}` : ""}`);
+        }
+
+        return {
+            exitCode: EXIT_CODES.success,
+            data: {
+                runs,
+                index: index ? { root: index.root, generatedAt: index.generatedAt, files: index.files.length } : null,
+                generated,
+                plans,
+                executions,
+            },
+        };
+    },
+};
@@ -0,0 +1,24 @@
+/**
+ * Exit codes of the `mat` CLI.
+ */
+export const EXIT_CODES = {
+    /** The command completed. */
+    success: 0,
+    /** The command failed (missing files, API errors, invalid plan, ...). */
+    failure: 1,
+    /** Invalid command, option or argument. */
+    usage: 2,
+    /** The command completed but some files failed (e.g. patches that did not apply). */
+    partial: 3,
+} as const;
+
+/**
+ * Thrown for invalid commands, options or arguments. Exits with `EXIT_CODES.usage`
+ * and prints the usage of the command.
+ */
+export class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "UsageError";
+    }
+}
@@ -0,0 +1,161 @@
+#!/usr/bin/env node
+import { parseArgs } from "node:util";
+
+import type { CliCommand, CliOption } from "@/types/cli";
+
+import { runCommand } from "./commands/run";
+import { planCommand } from "./commands/plan";
+import { planBatchCommand } from "./commands/plan-batch";
+import { applyCommand } from "./commands/apply";
+import { reportCommand } from "./commands/report";
+import { statusCommand } from "./commands/status";
+import { contextCommand } from "./commands/context";
+import { EXIT_CODES, UsageError } from "./exit-codes";
+import { executeCommand } from "./commands/execute";
+import { indexCommand } from "./commands/index-repo";
+
+const COMMANDS: CliCommand[] = [
+    runCommand,
+    contextCommand,
+    indexCommand,
+    planCommand,
+    planBatchCommand,
+    executeCommand,
+    applyCommand,
+    statusCommand,
+    reportCommand,
+];
+
+/** Options available on every command. */
+const GLOBAL_OPTIONS: Record<string, CliOption> = {
+    json: { type: "boolean", description: "Print the result as JSON on stdout (logs go to stderr)" },
+    "no-cache": { type: "boolean", description: "Call the model even when an identical request is cached" },
+    publish: { type: "boolean", description: "Publish plans, executions and apply results to the Monday item (MONDAY_PUBLISH=on)" },
+    cassette: { type: "string", valueName: "<mode>", description: "Record or replay LLM and task tracker calls: off, record, replay (default: CASSETTE_MODE)" },
+    help: { type: "boolean", short: "h", description: "Show help" },
+};
+
+function formatOptions(options: Record<string, CliOption>): string {
+    const rows = Object.entries(options).map(([name, option]) => {
+        const flag = `${option.short ? `-${option.short}, ` : "    "}--${name}${option.valueName ? ` ${option.valueName}` : ""}`;
+        return [flag, option.description];
+    });
+
+    const width = Math.max(...rows.map(([flag]) => flag.length));
+    return rows.map(([flag, description]) => `  ${flag.padEnd(width)}  ${description}`).join("\n");
+}
+
+function globalHelp(): string {
+    const width = Math.max(...COMMANDS.map(c => c.name.length));
+
+    return [
+        "Usage: mat <command> [options]",
+        "",
+        "Commands:",
+        ...COMMANDS.map(c => `  ${c.name.padEnd(width)}  ${c.summary}`),
+        "",
+        "Options:",
+        formatOptions(GLOBAL_OPTIONS),
+        "",
+        "Exit codes: 0 success, 1 failure, 2 invalid usage, 3 completed with failed files",
+        "Run 'mat <command> --help' for the options of a command.",
+    ].join("\n");
+}
+
+function commandHelp(command: CliCommand): string {
+    return [
+        `Usage: ${command.usage}`,
+        "",
+        command.summary,
+        "",
+        "Options:",
+        formatOptions({ ...command.options, ...GLOBAL_OPTIONS }),
+    ].join("\n");
+}
+
+/**
+ * Parses the arguments, runs the command and returns the process exit code.
+ *
+ * With `--json`, human-readable logs are redirected to stderr so stdout only
+ * contains the command's JSON result (on failure: `{ "error": "..." }`).
+ *
+ * @param argv - The arguments after `mat` (e.g. `["apply", "--execution", "1765692907016"]`).
+ * @returns One of `EXIT_CODES`.
+ */
+async function main(argv: string[]): Promise<number> {
+    const [name, ...rest] = argv;
+
+    if (!name || name === "--help" || name === "-h" || name === "help") {
+        console.log(globalHelp());
+        return name ? EXIT_CODES.success : EXIT_CODES.usage;
+    }
+
+    const command = COMMANDS.find(c => c.name === name);
+
+    if (!command) {
+        console.error(`Unknown command: ${name}\n\n${globalHelp()}`);
+        return EXIT_CODES.usage;
+    }
+
+    const json = rest.includes("--json");
+
+    if (json) {
+        console.log = console.error;
+        console.info = console.error;
+    }
+
+    try {
+        let parsed: ReturnType<typeof parseArgs>;
+
+        try {
+            parsed = parseArgs({
+                args: rest,
+                options: { ...command.options, ...GLOBAL_OPTIONS },
+                allowPositionals: true,
+                strict: true,
+            });
+        } catch (err: any) {
+            throw new UsageError(err.message);
+        }
+
+        if (parsed.values.help) {
+            console.log(commandHelp(command));
+            return EXIT_CODES.success;
+        }
+
+        // Commands load the env lazily, so setting it here is enough to override CASSETTE_MODE.
+        if (typeof parsed.values.cassette === "string") {
+            if (!["off", "record", "replay"].includes(parsed.values.cassette)) {
+                throw new UsageError("--cassette must be 'off', 'record' or 'replay'");
+            }
+            process.env.CASSETTE_MODE = parsed.values.cassette;
+        }
+
+        if (parsed.values["no-cache"]) process.env.LLM_CACHE = "off";
+        if (parsed.values.publish) process.env.MONDAY_PUBLISH = "on";
+
+        const result = await command.run({
+            values: parsed.values as Record<string, string | boolean | undefined>,
+            positionals: parsed.positionals,
+            json,
+        });
+
+        if (json) process.stdout.write(JSON.stringify(result.data ?? null, null, 2) + "\n");
+
+        return result.exitCode;
+    } catch (err: any) {
+        if (json) process.stdout.write(JSON.stringify({ error: err.message }, null, 2) + "\n");
+
+        if (err instanceof UsageError) {
+            console.error(`❌ ${err.message}\n\n${commandHelp(command)}`);
+            return EXIT_CODES.usage;
+        }
+
+        console.error(`❌ mat ${command.name} failed: ${err.message}`);
+        return EXIT_CODES.failure;
+    }
+}
+
+main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+});
@@ -1,11 +1,129 @@
 import "dotenv/config";
 
+import type { TaskProviderName } from "@/types/task";
+import type { AgentLlmConfig, LlmAgentName } from "@/types/llm";
+
+const DEFAULT_MODEL = "gpt-4.1-mini";
+const DEFAULT_TIMEOUT_MS = 120000;
+
+/**
+ * Reads the first defined variable among `<PREFIX>_LLM_<NAME>` for each prefix, then `LLM_<NAME>`.
+ */
+function llmVar(prefixes: string[], name: string): string | undefined {
+    for (const prefix of prefixes) {
+        const value = process.env[`${prefix}_LLM_${name}`];
+        if (value) return value;
+    }
+
+    return process.env[`LLM_${name}`] || undefined;
+}
+
+/**
+ * Builds the model settings of an agent. Per-agent variables (`PLANNER_LLM_MODEL`) override
+ * the shared ones (`LLM_MODEL`); the repair agent falls back to the executor's settings.
+ */
+function agentLlmConfig(prefixes: string[], defaults: { temperature?: number }): AgentLlmConfig {
+    const provider = (llmVar(prefixes, "PROVIDER") ?? "openai") as AgentLlmConfig["provider"];
+    const temperature = llmVar(prefixes, "TEMPERATURE");
+    const maxTokens = llmVar(prefixes, "MAX_TOKENS");
+
+    return {
+        provider,
+        model: llmVar(prefixes, "MODEL") ?? (provider === "openai" ? DEFAULT_MODEL : ""),
+        temperature: temperature !== undefined ? Number(temperature) : defaults.temperature,
+        timeoutMs: Number(llmVar(prefixes, "TIMEOUT_MS") ?? DEFAULT_TIMEOUT_MS),
+        baseUrl: llmVar(prefixes, "BASE_URL"),
+        maxTokens: maxTokens !== undefined ? Number(maxTokens) : undefined,
+        structuredOutput: (llmVar(prefixes, "STRUCTURED_OUTPUT")
+            ?? (provider === "openai-compatible" ? "prompt" : "native")) as AgentLlmConfig["structuredOutput"],
+    };
+}
+
 export const env = {
     openaiApiKey: process.env.OPENAI_API_KEY ?? "",
+    anthropicApiKey: process.env.ANTHROPIC_API_KEY ?? "",
+    openaiCompatibleApiKey: process.env.OPENAI_COMPATIBLE_API_KEY ?? "local",
     mondayApiKey: process.env.MONDAY_API_KEY ?? "",
+    mondayApiUrl: process.env.MONDAY_API_URL ?? "",
     frontendRepoPath: process.env.FRONTEND_REPO_PATH ?? "",
+    taskProvider: (process.env.TASK_PROVIDER || "monday") as TaskProviderName,
+    tasksDir: process.env.TASKS_DIR || "tasks",
+    githubRepository: process.env.GITHUB_REPOSITORY ?? "",
+    githubToken: process.env.GITHUB_TOKEN ?? "",
+    jiraBaseUrl: process.env.JIRA_BASE_URL ?? "",
+    jiraEmail: process.env.JIRA_EMAIL ?? "",
+    jiraApiToken: process.env.JIRA_API_TOKEN ?? "",
+    maxRepairAttempts: Number(process.env.MAX_REPAIR_ATTEMPTS ?? 2),
+    maxReplanAttempts: Number(process.env.MAX_REPLAN_ATTEMPTS ?? 2),
+    plannerConcurrency: Number(process.env.PLANNER_CONCURRENCY ?? 3),
+    executorEditFormat: process.env.EXECUTOR_EDIT_FORMAT ?? "unified-diff",
+    executorMode: process.env.EXECUTOR_MODE ?? "single",
+    executorConcurrency: Number(process.env.EXECUTOR_CONCURRENCY ?? 3),
+    executorPromptBudgetTokens: Number(process.env.EXECUTOR_PROMPT_BUDGET_TOKENS ?? 60000),
+    executorLargeFileTokens: Number(process.env.EXECUTOR_LARGE_FILE_TOKENS ?? 8000),
+    verifyCommand: process.env.VERIFY_COMMAND ?? "",
+    classificationRulesPath: process.env.CLASSIFICATION_RULES_PATH ?? "config/classification-rules.json",
+    modelPricesPath: process.env.MODEL_PRICES_PATH ?? "config/model-prices.json",
+    mondayColumnsPath: process.env.MONDAY_COLUMNS_PATH ?? "config/monday-columns.json",
+    cassetteMode: (process.env.CASSETTE_MODE || "off") as "off" | "record" | "replay",
+    cassetteDir: process.env.CASSETTE_DIR || "cassettes",
+    llmCache: {
+        enabled: (process.env.LLM_CACHE || "on") !== "off",
+        dir: process.env.LLM_CACHE_DIR || ".cache/llm",
+        ttlHours: Number(process.env.LLM_CACHE_TTL_HOURS ?? 168),
+        maxMb: Number(process.env.LLM_CACHE_MAX_MB ?? 200),
+    },
+    mondayPublish: {
+        enabled: (process.env.MONDAY_PUBLISH || "off") === "on",
+        subitems: (process.env.MONDAY_PUBLISH_SUBITEMS || "off") === "on",
+        statusColumn: process.env.MONDAY_STATUS_COLUMN ?? "",
+        /** Status set when each step finishes; an empty label leaves the status unchanged. */
+        statusLabels: {
+            plan: process.env.MONDAY_STATUS_PLANNED ?? "Planned",
+            execution: process.env.MONDAY_STATUS_EXECUTED ?? "Code generated",
+            apply: process.env.MONDAY_STATUS_APPLIED ?? "Applied",
+        },
+    },
+    llm: {
+        planner: agentLlmConfig(["PLANNER"], {}),
+        executor: agentLlmConfig(["EXECUTOR"], { temperature: 0 }),
+        repair: agentLlmConfig(["REPAIR", "EXECUTOR"], { temperature: 0 }),
+    } satisfies Record<LlmAgentName, AgentLlmConfig>,
 };
 
-if (!env.openaiApiKey) throw new Error("Missing OPENAI_API_KEY");
-if (!env.mondayApiKey) throw new Error("Missing MONDAY_API_KEY");
+// Replayed runs never reach the APIs, so they need no keys.
+const needsApiKeys = env.cassetteMode !== "replay";
+
+if (!["off", "record", "replay"].includes(env.cassetteMode)) throw new Error("CASSETTE_MODE must be 'off', 'record' or 'replay'");
 if (!env.frontendRepoPath) throw new Error("Missing FRONTEND_REPO_PATH");
+if (!["monday", "file", "github", "jira"].includes(env.taskProvider)) throw new Error("TASK_PROVIDER must be 'monday', 'file', 'github' or 'jira'");
+
+if (!["unified-diff", "search-replace"].includes(env.executorEditFormat)) throw new Error("EXECUTOR_EDIT_FORMAT must be 'unified-diff' or 'search-replace'");
+if (!(env.executorPromptBudgetTokens > 0)) throw new Error("EXECUTOR_PROMPT_BUDGET_TOKENS must be a positive number");
+if (!(env.executorLargeFileTokens > 0)) throw new Error("EXECUTOR_LARGE_FILE_TOKENS must be a positive number");
+if (!["on", "off"].includes(process.env.LLM_CACHE || "on")) throw new Error("LLM_CACHE must be 'on' or 'off'");
+if (!(env.llmCache.ttlHours > 0)) throw new Error("LLM_CACHE_TTL_HOURS must be a positive number");
+if (!(env.llmCache.maxMb > 0)) throw new Error("LLM_CACHE_MAX_MB must be a positive number");
+if (!["on", "off"].includes(process.env.MONDAY_PUBLISH || "off")) throw new Error("MONDAY_PUBLISH must be 'on' or 'off'");
+if (!["on", "off"].includes(process.env.MONDAY_PUBLISH_SUBITEMS || "off")) throw new Error("MONDAY_PUBLISH_SUBITEMS must be 'on' or 'off'");
+if (!["single", "per-file"].includes(env.executorMode)) throw new Error("EXECUTOR_MODE must be 'single' or 'per-file'");
+if (!Number.isInteger(env.plannerConcurrency) || env.plannerConcurrency < 1) throw new Error("PLANNER_CONCURRENCY must be a positive integer");
+if (!Number.isInteger(env.executorConcurrency) || env.executorConcurrency < 1) throw new Error("EXECUTOR_CONCURRENCY must be a positive integer");
+if (!Number.isInteger(env.maxRepairAttempts) || env.maxRepairAttempts < 0) throw new Error("MAX_REPAIR_ATTEMPTS must be a non-negative integer");
+if (!Number.isInteger(env.maxReplanAttempts) || env.maxReplanAttempts < 0) throw new Error("MAX_REPLAN_ATTEMPTS must be a non-negative integer");
+
+for (const [agent, config] of Object.entries(env.llm)) {
+    const prefix = `${agent.toUpperCase()}_LLM_`;
+
+    if (!["openai", "openai-compatible", "anthropic"].includes(config.provider)) throw new Error(`${prefix}PROVIDER must be 'openai', 'openai-compatible' or 'anthropic'`);
+    if (!["native", "json-mode", "prompt"].includes(config.structuredOutput)) throw new Error(`${prefix}STRUCTURED_OUTPUT must be 'native', 'json-mode' or 'prompt'`);
+    if (config.temperature !== undefined && Number.isNaN(config.temperature)) throw new Error(`${prefix}TEMPERATURE must be a number`);
+    if (!(config.timeoutMs > 0)) throw new Error(`${prefix}TIMEOUT_MS must be a positive number`);
+    if (config.maxTokens !== undefined && !(config.maxTokens > 0)) throw new Error(`${prefix}MAX_TOKENS must be a positive number`);
+
+    if (!config.model) throw new Error(`${prefix}MODEL (or LLM_MODEL) is required for the ${config.provider} provider`);
+    if (!needsApiKeys) continue;
+    if (config.provider === "openai" && !env.openaiApiKey) throw new Error(`Missing OPENAI_API_KEY (used by the ${agent} agent)`);
+    if (config.provider === "anthropic" && !env.anthropicApiKey) throw new Error(`Missing ANTHROPIC_API_KEY (used by the ${agent} agent)`);
+    if (config.provider === "openai-compatible" && !config.baseUrl) throw new Error(`${prefix}BASE_URL (or LLM_BASE_URL) is required for the openai-compatible provider`);
+}
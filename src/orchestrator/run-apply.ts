@@ -1,34 +1,226 @@
-import { ExecutorOutput } from "@/types/executor-output";
-import { applyPatches, PatchResult } from "@/utils/apply-patches";
+import fs from "node:fs";
+import path from "node:path";
+
+import { env } from "@/config/env";
+import { runRepairAgent } from "@/agents/repair-agent";
+import { saveRepairAttempt } from "@/utils/save-repair-attempt";
+import { publishApplyResults } from "@/tools/monday-publisher";
+import normalizePath from "@/utils/normalize-path";
+import { parsePlannerOutput } from "@/utils/parse-planner-output";
+import type { RepairAttempt } from "@/utils/save-repair-attempt";
+import { ExecutorOutput, FileModification } from "@/types/executor-output";
+import { applyModification, applyPatches, isModificationApplied, PatchResult } from "@/utils/apply-patches";
+
+/**
+ * Options controlling the patch application process.
+ */
+export type RunApplyOptions = {
+    /** Execution folder where repair attempts are stored. Self-repair is disabled without it. */
+    executionFolder?: string;
+    /** The JSON string of the plan, given to the model as context while repairing a diff. */
+    planJson?: string;
+    /** Maximum number of repair attempts per file. Defaults to `MAX_REPAIR_ATTEMPTS`. */
+    maxRepairAttempts?: number;
+    /** Only check that every change applies, without writing to the repository or repairing. */
+    dryRun?: boolean;
+    /**
+     * Results of an earlier apply of the same execution (`apply-results.json`). Only the files
+     * that failed there are applied again; the others keep their result.
+     */
+    previousResults?: PatchResult[];
+};
+
+/**
+ * Reads the task ID of the plan, recorded with the repair calls. The plan is optional context
+ * here, so an unreadable one is not an error.
+ */
+function planTaskId(planJson?: string): string | undefined {
+    try {
+        return planJson ? (JSON.parse(planJson) as { task?: { id?: string } }).task?.id : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Selects what a re-apply after `previous` still has to apply: the files that failed, except
+ * the ones whose change is already on disk (fixed by hand), which count as applied.
+ *
+ * @returns The changes to apply, and the result of every other file by path.
+ */
+function selectFailedChanges(
+    output: ExecutorOutput,
+    previous: PatchResult[]
+): { pending: ExecutorOutput; settled: Map<string, PatchResult> } {
+    const repoRoot = path.resolve(env.frontendRepoPath);
+    const settled = new Map(previous.filter(r => r.success).map(r => [r.file, r]));
+    const failed = new Set(previous.filter(r => !r.success).map(r => r.file));
+
+    const modifications = output.modifications.filter(mod => {
+        const file = normalizePath(mod.path);
+        if (!failed.has(file)) return false;
+        if (!isModificationApplied(mod)) return true;
+
+        settled.set(file, { file, success: true, alreadyApplied: true });
+        return false;
+    });
+
+    const creations = (output.creations ?? []).filter(creation => {
+        const file = normalizePath(creation.path);
+        if (!failed.has(file)) return false;
+        if (!fs.existsSync(path.resolve(repoRoot, file))) return true;
+
+        settled.set(file, { file, success: true, created: true, alreadyApplied: true });
+        return false;
+    });
+
+    return { pending: { ...output, modifications, creations }, settled };
+}
+
+/**
+ * Runs the self-repair loop for a modification that every patch strategy rejected.
+ *
+ * Each attempt sends the failing diff, the real file content and the strategy errors
+ * to the Repair Agent, then tries to apply the regenerated diff. A diff that fails again
+ * becomes the input of the next attempt. Every attempt is saved to the execution folder.
+ *
+ * @param mod - The original modification that failed.
+ * @param failed - The failed result returned by `applyModification`.
+ * @param options - The execution folder, plan and attempt limit.
+ * @returns The result of the last attempt, with `repairAttempts` set.
+ */
+async function repairModification(
+    mod: FileModification,
+    failed: PatchResult,
+    options: { executionFolder: string; planJson: string; maxRepairAttempts: number; taskId?: string }
+): Promise<PatchResult> {
+    const abs = path.join(path.resolve(env.frontendRepoPath), failed.file);
+    const fileContent = fs.readFileSync(abs, "utf8");
+
+    let failedDiff = mod.diff;
+    let strategyErrors = failed.strategyErrors ?? [];
+    let result = failed;
+
+    for (let attempt = 1; attempt <= options.maxRepairAttempts; attempt++) {
+        console.log(`🔧 Repairing ${failed.file} (attempt ${attempt}/${options.maxRepairAttempts})...`);
+
+        const record: RepairAttempt = {
+            attempt,
+            file: failed.file,
+            failedDiff,
+            strategyErrors,
+            success: false,
+        };
+
+        try {
+            const { modification: repaired, response } = await runRepairAgent({
+                planJson: options.planJson,
+                filePath: failed.file,
+                fileContent,
+                failedDiff,
+                strategyErrors,
+                attempt,
+                taskId: options.taskId,
+            });
+
+            record.llmCall = response.stats;
+            record.repairedDiff = repaired.diff;
+            result = applyModification(repaired);
+            record.success = result.success;
+            record.error = result.error;
+
+            failedDiff = repaired.diff;
+            strategyErrors = result.strategyErrors ?? [];
+        } catch (err: any) {
+            record.error = err.message;
+        }
+
+        const recordPath = saveRepairAttempt(options.executionFolder, record);
+        console.log(`Repair attempt saved to: ${recordPath}`);
+
+        if (record.success) {
+            return { ...result, repairAttempts: attempt };
+        }
+    }
+
+    return { ...result, success: false, repairAttempts: options.maxRepairAttempts };
+}
 
 /**
  * Orchestrates the patch application process.
- * 
+ *
  * This function serves as the high-level entry point for applying changes.
  * It coordinates the core `applyPatches` utility and handles user-facing logging/feedback.
- * 
- * @param output - The output from the Executor Agent containing the diffs to apply.
+ * When an execution folder is given, diffs rejected by every patch strategy go through
+ * a self-repair loop with the Executor model before being reported as failed, and with the
+ * plan, the results are published to the Monday item when `MONDAY_PUBLISH=on`.
+ *
+ * With `options.previousResults`, only the files that failed in that earlier apply are applied
+ * again, so an execution can be re-applied after fixing its failed files: changes already on
+ * disk are never applied twice.
+ *
+ * @param output - The output from the Executor Agent containing the diffs to apply and files to create.
+ * @param options - Optional self-repair settings.
  * @returns An array of results for each file modification.
- * 
+ *
  * @example
- * const results = await runApply(executorOutput);
+ * const results = await runApply(executorOutput, { executionFolder, planJson });
  * // Logs: "✔ Updated: src/app.tsx"
  */
 export async function runApply(
-    output: ExecutorOutput
+    output: ExecutorOutput,
+    options: RunApplyOptions = {}
 ): Promise<PatchResult[]> {
-    console.log("🛠 Applying patches to repository...");
+    console.log(options.dryRun ? "🔍 Checking patches (dry run)..." : "🛠 Applying patches to repository...");
+
+    const { pending, settled } = options.previousResults
+        ? selectFailedChanges(output, options.previousResults)
+        : { pending: output, settled: new Map<string, PatchResult>() };
 
-    const results = await applyPatches(output);
+    let results = await applyPatches(pending, { dryRun: options.dryRun });
+
+    const maxRepairAttempts = options.maxRepairAttempts ?? env.maxRepairAttempts;
+
+    if (options.executionFolder && maxRepairAttempts > 0 && !options.dryRun) {
+        for (let i = 0; i < pending.modifications.length; i++) {
+            const r = results[i];
+            if (r.success || !r.strategyErrors) continue;
+
+            results[i] = await repairModification(pending.modifications[i], r, {
+                executionFolder: options.executionFolder,
+                planJson: options.planJson ?? "",
+                maxRepairAttempts,
+                taskId: planTaskId(options.planJson),
+            });
+        }
+    }
+
+    if (options.previousResults) {
+        const retried = new Map(results.map(r => [r.file, r]));
+        results = options.previousResults.map(r => settled.get(r.file) ?? retried.get(r.file) ?? r);
+    }
 
     for (const r of results) {
-        if (r.success) {
-            console.log(`✔ Updated: ${r.file}`);
+        const repaired = r.repairAttempts ? ` (after ${r.repairAttempts} repair attempt(s))` : "";
+
+        if (r.success && r.dryRun) {
+            console.log(`✔ Would ${r.created ? "create" : "update"}: ${r.file}`);
+        } else if (r.success && r.alreadyApplied) {
+            console.log(`✔ Already applied: ${r.file}`);
+        } else if (r.success && r.created) {
+            console.log(`✚ Created: ${r.file}`);
+        } else if (r.success) {
+            console.log(`✔ Updated: ${r.file}${repaired}`);
         } else {
-            console.log(`❌ Failed: ${r.file} → ${r.error}`);
+            console.log(`❌ Failed: ${r.file} → ${r.error}${repaired}`);
         }
     }
 
     console.log("✨ Patch operation complete.");
+
+    if (options.executionFolder && options.planJson && !options.dryRun) {
+        await publishApplyResults(parsePlannerOutput(options.planJson), path.basename(options.executionFolder), results);
+    }
+
     return results;
 }
@@ -0,0 +1,107 @@
+import { env } from "@/config/env";
+import { runPlanner } from "@/orchestrator/run-planner";
+import { loadPlannerOutput } from "@/tools/fsTools";
+import type { PlannerOutput } from "@/types/plannerTypes";
+import { mapWithConcurrency } from "@/utils/map-with-concurrency";
+import { type BoardItem, type BoardItemSelection, listBoardItems } from "@/tools/monday-board";
+
+/**
+ * Outcome of one item of `runBatchPlanner`. Skipped items report their saved plan.
+ */
+export type BatchPlanResult = {
+    taskId: string;
+    name: string;
+    status: "planned" | "skipped" | "failed";
+    /** Why the item was skipped, or the error it failed with. */
+    reason?: string;
+    complexity?: PlannerOutput["estimatedComplexity"];
+    confidence?: number;
+    missingInformation?: string[];
+    /** Path of the saved JSON plan (undefined in dry-run mode and for failed items). */
+    jsonPath?: string;
+};
+
+/**
+ * Options of `runBatchPlanner`.
+ */
+export type RunBatchPlannerOptions = {
+    /** Maximum number of items planned at a time; defaults to `PLANNER_CONCURRENCY`. */
+    concurrency?: number;
+    /** Re-plan items whose saved plan is newer than their last update. */
+    force?: boolean;
+    /** Generate the plans without writing anything to `plans/`. */
+    dryRun?: boolean;
+};
+
+/**
+ * Returns the saved plan of an item when it is newer than the item's last update, i.e. when
+ * re-planning would read the same task again.
+ */
+async function findUpToDatePlan(item: BoardItem): Promise<PlannerOutput | undefined> {
+    let plan: PlannerOutput | undefined;
+
+    try {
+        plan = await loadPlannerOutput(item.id);
+    } catch (err: any) {
+        console.warn(`⚠️ [batch] The saved plan of ${item.id} is unreadable and will be replaced: ${err.message}`);
+        return undefined;
+    }
+
+    const generatedAt = plan?.metadata?.generatedAt;
+    if (!plan || !generatedAt) return undefined;
+
+    return !item.lastUpdateAt || Date.parse(generatedAt) >= Date.parse(item.lastUpdateAt) ? plan : undefined;
+}
+
+function summarizePlan(plan: PlannerOutput): Pick<BatchPlanResult, "complexity" | "confidence" | "missingInformation"> {
+    return {
+        complexity: plan.estimatedComplexity,
+        confidence: plan.confidence,
+        missingInformation: plan.missingInformation,
+    };
+}
+
+/**
+ * Plans every item of a Monday board or group (optionally filtered by a column), for sprint
+ * planning:
+ * 1. Lists the matching items (`listBoardItems`).
+ * 2. Skips the items whose saved plan is newer than their last update, unless `force` is set.
+ * 3. Plans the others with `runPlanner`, `concurrency` at a time. A failed item does not stop
+ *    the batch: it is reported with its error.
+ *
+ * @param selection - The board, group and column filter.
+ * @param options - Concurrency, force and dry run options (`RunBatchPlannerOptions`).
+ * @returns One result per item, in board order.
+ * @throws {Error} If the items cannot be listed.
+ *
+ * @example
+ * const results = await runBatchPlanner({ boardId: "123", groupId: "new_group" }, { concurrency: 4 });
+ * // [{ taskId: "456", name: "Show the user avatar", status: "planned", complexity: "low", confidence: 0.8, ... }]
+ */
+export async function runBatchPlanner(
+    selection: BoardItemSelection,
+    options: RunBatchPlannerOptions = {}
+): Promise<BatchPlanResult[]> {
+    const items = await listBoardItems(selection);
+    const concurrency = options.concurrency ?? env.plannerConcurrency;
+
+    console.log(`[batch] ${items.length} item(s) on board ${selection.boardId}${selection.groupId ? `, group ${selection.groupId}` : ""}`);
+
+    return mapWithConcurrency(items, concurrency, async (item): Promise<BatchPlanResult> => {
+        const base = { taskId: item.id, name: item.name };
+
+        const saved = options.force ? undefined : await findUpToDatePlan(item);
+        if (saved) {
+            console.log(`[batch] ${item.id} skipped: its plan is newer than its last update`);
+            return { ...base, status: "skipped", reason: "plan is up to date", ...summarizePlan(saved) };
+        }
+
+        try {
+            const { plan, jsonPath } = await runPlanner(item.id, { source: "monday", dryRun: options.dryRun });
+            return { ...base, status: "planned", jsonPath, ...summarizePlan(plan) };
+        } catch (err: any) {
+            console.error(`❌ [batch] ${item.id} failed: ${err.message}`);
+            return { ...base, status: "failed", reason: err.message };
+        }
+    });
+}
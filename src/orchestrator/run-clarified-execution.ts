@@ -0,0 +1,110 @@
+import fs from "node:fs";
+
+import type { Clarification } from "@/types/plannerTypes";
+import { parsePlannerOutput } from "@/utils/parse-planner-output";
+import type { ExecutionParams, ExecutionResult } from "@/types/execution";
+import {
+    askQuestions,
+    MAX_CLARIFICATION_ROUNDS,
+    mergeClarifications,
+    unansweredQuestions,
+} from "@/utils/clarifications";
+
+import { runExecution } from "./run-execution";
+
+/**
+ * Options of `runClarifiedExecution`.
+ */
+export type ClarifiedExecutionOptions = {
+    /** Ask the executor's questions in the terminal and run it again with the answers (`--clarify`). */
+    clarify?: boolean;
+    /** Answers given before the executor runs (`--answers <file>`). */
+    answers?: Clarification[];
+};
+
+export type ClarifiedExecutionResult = ExecutionResult & {
+    /** Questions of `missingInformation` that no answer covers yet. */
+    openQuestions: string[];
+    /** Executions replaced by a later run with more answers. */
+    supersededIds: string[];
+};
+
+/**
+ * Adds answers to the plan file's `clarifications`. The rest of the file is written back
+ * unchanged.
+ *
+ * @returns The updated plan JSON.
+ * @throws {Error} If the plan file does not match the plan schema
+ */
+function saveAnswersToPlan(planPath: string, answers: Clarification[]): string {
+    const json = fs.readFileSync(planPath, "utf8");
+    const plan = parsePlannerOutput(json, planPath);
+
+    const updated = JSON.stringify(
+        { ...JSON.parse(json), clarifications: mergeClarifications(plan.clarifications ?? [], answers) },
+        null,
+        2
+    );
+
+    fs.writeFileSync(planPath, updated, "utf8");
+    return updated;
+}
+
+/**
+ * Runs the executor on a plan file, with answers to its questions:
+ * 1. Answers given in `options.answers` are added to the plan's `clarifications` first.
+ * 2. With `options.clarify`, the executor's `missingInformation` is asked in the terminal,
+ *    the answers are added to the plan, and the executor runs again in a new execution folder,
+ *    up to `MAX_CLARIFICATION_ROUNDS` times.
+ *
+ * The executor reads the answers from the plan it is given, so they stay with the plan for
+ * later executions.
+ *
+ * @param params - The `runExecution` parameters. `planPath` is the file the answers are saved to.
+ * @param options - Clarification options (`ClarifiedExecutionOptions`).
+ * @returns The result of the last execution, its unanswered questions, and the ids of the
+ *          executions it replaced.
+ * @throws {Error} If the plan file is invalid or the executor fails
+ */
+export async function runClarifiedExecution(
+    params: ExecutionParams & { planPath: string },
+    options: ClarifiedExecutionOptions = {}
+): Promise<ClarifiedExecutionResult> {
+    let jsonPlanContent = params.jsonPlanContent;
+
+    if (options.answers?.length) {
+        jsonPlanContent = saveAnswersToPlan(params.planPath, options.answers);
+        console.log(`[executor] ${options.answers.length} answer(s) saved to ${params.planPath}`);
+    }
+
+    let result = await runExecution({ ...params, jsonPlanContent });
+    const supersededIds: string[] = [];
+
+    for (let round = 1; options.clarify && round <= MAX_CLARIFICATION_ROUNDS; round++) {
+        const history = parsePlannerOutput(jsonPlanContent, params.planPath).clarifications ?? [];
+        const questions = unansweredQuestions(result.output.missingInformation, history);
+        if (!questions.length) break;
+
+        const answers = await askQuestions(questions, "executor");
+        if (!answers.length) break;
+
+        jsonPlanContent = saveAnswersToPlan(params.planPath, answers);
+        console.log(`[executor] Running again with ${answers.length} new answer(s)...`);
+
+        supersededIds.push(result.id);
+        result = await runExecution({ ...params, jsonPlanContent });
+    }
+
+    if (supersededIds.length) {
+        console.log(`[executor] Execution ${result.id} replaces ${supersededIds.join(", ")}`);
+    }
+
+    const history = parsePlannerOutput(jsonPlanContent, params.planPath).clarifications ?? [];
+    const openQuestions = unansweredQuestions(result.output.missingInformation, history);
+
+    if (openQuestions.length) {
+        console.log(`[executor] ${openQuestions.length} open question(s). Answer them with --clarify or --answers <file> and execute again.`);
+    }
+
+    return { ...result, openQuestions, supersededIds };
+}
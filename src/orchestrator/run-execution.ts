@@ -1,32 +1,313 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import { env } from "@/config/env";
+import { summarizeLlmUsage } from "@/utils/summarize-llm-usage";
 import { saveDiffFile } from "@/utils/save-diff-file";
-import { loadRepoFiles } from "@/repo/load-repo-files";
+import normalizePath from "@/utils/normalize-path";
+import type { LoadedFile } from "@/types/loaded-file";
+import type { LlmResponse } from "@/types/llm";
+import type { ContextBudgetReport } from "@/types/context-budget";
+import { mapWithConcurrency } from "@/utils/map-with-concurrency";
+import type { EditFormat, ExecutorMode, ExecutorOutput } from "@/types/executor-output";
 import { runExecutorAgent } from "@/agents/executor-agent";
+import { publishExecution } from "@/tools/monday-publisher";
+import type { PlannerOutput } from "@/types/plannerTypes";
 import { parsePlannerOutput } from "@/utils/parse-planner-output";
 import { saveExecutionManifest } from "@/utils/save-execution-manifest";
 import { createExecutionFolder } from "@/utils/create-execution-folder";
-import type { ExecutionParams, ExecutionResult } from "@/types/execution";
+import type { ExecutionParams, ExecutionResult, ExecutorFileResult } from "@/types/execution";
+import { getDependents, loadDependencyGraph } from "@/repo/dependency-graph";
+import { loadRepoFiles, validateFilesToCreate } from "@/repo/load-repo-files";
+import { buildCreationDiff, resolveCreationContent } from "@/utils/resolve-creation-content";
+import { buildModificationsFromEdits, FileEditReport } from "@/utils/build-modifications-from-edits";
+
+/** Maximum number of read-only dependent files given to the executor as context. */
+const MAX_CONTEXT_FILES = 5;
+
+/**
+ * Finds the files that directly import any of the files to modify, so the executor
+ * can see how they are used. Files already being modified are excluded, and the list
+ * is capped at `MAX_CONTEXT_FILES` to keep the prompt small.
+ *
+ * @param filesToModify - The relative paths of the files to modify.
+ * @returns The relative paths of the direct dependents, or an empty list when no graph exists.
+ */
+function findDirectDependents(filesToModify: string[]): string[] {
+    const graph = loadDependencyGraph();
+    if (!graph) return [];
+
+    const dependents = new Set<string>();
+
+    for (const file of filesToModify) {
+        for (const d of getDependents(graph, file)) {
+            if (!filesToModify.includes(d.path)) dependents.add(d.path);
+        }
+    }
+
+    return Array.from(dependents).slice(0, MAX_CONTEXT_FILES);
+}
+
+/**
+ * Files an execution works on, resolved and validated from the plan.
+ */
+export type PreparedExecution = {
+    plan: PlannerOutput;
+    filesToModify: string[];
+    filesToCreate: string[];
+    /** Contents of `filesToModify`. */
+    loadedFiles: LoadedFile[];
+    /** Read-only direct dependents of `filesToModify`. */
+    contextFiles: LoadedFile[];
+};
+
+/**
+ * Loads the read-only context files. They only help the executor, so one that is missing or
+ * unreadable (e.g. deleted since the last index) is skipped with a warning.
+ */
+async function loadContextFiles(paths: string[]): Promise<LoadedFile[]> {
+    const files: LoadedFile[] = [];
+
+    for (const relPath of paths) {
+        try {
+            files.push(...await loadRepoFiles([relPath]));
+        } catch (err: any) {
+            console.warn(`⚠️ Context file ${relPath} skipped: ${err.message}`);
+        }
+    }
+
+    return files;
+}
+
+/**
+ * Parses the plan and validates and loads every file the executor needs, without calling
+ * the model or writing anything. `runExecution` starts with it, and it is enough on its own
+ * to check a plan (`mat execute --dry-run`).
+ *
+ * @param jsonPlanContent - The complete JSON plan from the Planner Agent.
+ * @param planPath - Plan file the JSON was read from, named in validation errors.
+ * @returns The files to modify and create, with the loaded contents and context files.
+ * @throws {Error} If the plan does not match the plan schema (with the invalid field paths),
+ *                 lists no files, or references unknown files
+ */
+export async function prepareExecution(jsonPlanContent: string, planPath?: string): Promise<PreparedExecution> {
+    const planner = parsePlannerOutput(jsonPlanContent, planPath);
+
+    const { filesToModify, filesToCreate } = planner.implementation;
+
+    if (!filesToModify[0] && !filesToCreate[0]) {
+        throw new Error(
+            "Planner did not provide implementation.filesToModify or implementation.filesToCreate. Cannot run execution."
+        );
+    }
+
+    console.log("Files to modify:", filesToModify);
+    console.log("Files to create:", filesToCreate);
+
+    validateFilesToCreate(filesToCreate);
+    const loadedFiles = await loadRepoFiles(filesToModify);
+    const contextFiles = await loadContextFiles(findDirectDependents(filesToModify));
+
+    console.log("Loaded files:", loadedFiles);
+
+    return { plan: planner, filesToModify, filesToCreate, loadedFiles, contextFiles };
+}
+
+/**
+ * Output of the executor step, whichever the mode.
+ */
+type ExecutorStepResult = {
+    output: ExecutorOutput;
+    responses: LlmResponse[];
+    /** Single mode only; per-file budgets are in `fileResults`. */
+    contextBudget?: ContextBudgetReport;
+    fileResults?: ExecutorFileResult[];
+};
+
+/**
+ * Describes the other files of the plan for a per-file call: the summary of the files
+ * already done, and what is planned for the others.
+ */
+function describeOtherFiles(
+    current: string,
+    units: { path: string; operation: "modify" | "create" }[],
+    done: Map<string, ExecutorFileResult>
+): string {
+    return units
+        .filter(u => u.path !== current)
+        .map(u => {
+            const result = done.get(u.path);
+            if (result?.success) return `- ${u.path} (${u.operation === "create" ? "created" : "modified"}): ${result.summary ?? ""}`;
+            if (result) return `- ${u.path} (${u.operation}, failed; assume it is unchanged)`;
+            return `- ${u.path} (to ${u.operation}, in progress; follow the plan for it)`;
+        })
+        .join("\n");
+}
+
+/**
+ * Runs the executor once per file to modify or create, at most `concurrency` calls at a time.
+ *
+ * Each call gets the full plan, the docs, its own file (plus the read-only files importing it)
+ * and a summary of the other files (`describeOtherFiles`). Changes returned for other files
+ * are ignored, and a call that fails or returns nothing for its file is recorded as failed
+ * without affecting the others. The results are merged into one `ExecutorOutput`: the lowest
+ * confidence wins, and failures are listed in `missingInformation`.
+ *
+ * @throws {Error} If no file got a change
+ */
+async function runPerFileExecutor(
+    prepared: PreparedExecution,
+    params: { planJson: string; projectDocs: string; editFormat: EditFormat; concurrency: number }
+): Promise<ExecutorStepResult> {
+    const units = [
+        ...prepared.filesToModify.map(p => ({ path: p, operation: "modify" as const })),
+        ...prepared.filesToCreate.map(p => ({ path: p, operation: "create" as const })),
+    ];
+
+    const graph = loadDependencyGraph();
+    const done = new Map<string, ExecutorFileResult>();
+    const responses: LlmResponse[] = [];
+
+    console.log(`Per-file execution: ${units.length} file(s), up to ${params.concurrency} at a time`);
+
+    const outputs = await mapWithConcurrency(units, params.concurrency, async (unit, i) => {
+        const dependents = new Set(graph ? getDependents(graph, unit.path).map(d => d.path) : []);
+        let output: ExecutorOutput | undefined;
+        let result: ExecutorFileResult;
+
+        try {
+            const agent = await runExecutorAgent({
+                planJson: params.planJson,
+                projectDocs: params.projectDocs,
+                files: prepared.loadedFiles.filter(f => f.path === unit.path),
+                contextFiles: prepared.contextFiles.filter(f => dependents.has(f.path)),
+                filesToCreate: unit.operation === "create" ? [unit.path] : [],
+                editFormat: params.editFormat,
+                otherFiles: describeOtherFiles(unit.path, units, done),
+                debugName: `executor-${i + 1}-${unit.path.replace(/[\\/]/g, "__")}`,
+                taskId: prepared.plan.task.id,
+            });
+
+            responses.push(...agent.responses);
+            output = agent.output;
+
+            const produced = unit.operation === "create"
+                ? (output.creations ?? []).some(c => c.path === unit.path)
+                : params.editFormat === "search-replace"
+                    ? (output.edits ?? []).some(e => e.path === unit.path)
+                    : output.modifications.some(m => m.path === unit.path);
+
+            result = {
+                path: unit.path,
+                operation: unit.operation,
+                success: produced,
+                summary: output.summary,
+                confidence: output.confidence,
+                contextBudget: agent.contextBudget,
+                ...(!produced && { error: "The executor returned no change for this file" }),
+            };
+        } catch (err: any) {
+            result = { path: unit.path, operation: unit.operation, success: false, error: err.message };
+        }
+
+        done.set(unit.path, result);
+        console.log(`${result.success ? "✔" : "❌"} Executor ${unit.operation} ${unit.path}${result.error ? ` → ${result.error}` : ""}`);
+
+        return { unit, output, result };
+    });
+
+    const succeeded = outputs.filter(o => o.result.success);
+
+    if (!succeeded.length) {
+        throw new Error(
+            `The executor failed for every file:\n${outputs.map(o => `- ${o.unit.path}: ${o.result.error}`).join("\n")}`
+        );
+    }
+
+    const output: ExecutorOutput = {
+        summary: succeeded.map(o => `${o.unit.path}: ${o.result.summary ?? ""}`).join("\n"),
+        modifications: succeeded.flatMap(o => o.output!.modifications.filter(m => m.path === o.unit.path)),
+        edits: succeeded.flatMap(o => (o.output!.edits ?? []).filter(e => e.path === o.unit.path)),
+        creations: succeeded.flatMap(o => (o.output!.creations ?? []).filter(c => c.path === o.unit.path)),
+        missingInformation: outputs.flatMap(o => [
+            ...(o.output?.missingInformation ?? []).map(m => `${o.unit.path}: ${m}`),
+            ...(o.result.success ? [] : [`${o.unit.path}: executor failed: ${o.result.error}`]),
+        ]),
+        confidence: Math.min(...succeeded.map(o => o.result.confidence ?? 0)),
+    };
+
+    return { output, responses, fileResults: outputs.map(o => o.result) };
+}
+
+/** Compares paths of the plan and of the model whatever their separators or leading `./`. */
+function planPathKey(p: string): string {
+    return normalizePath(p).replace(/^(\.\/)+/, "");
+}
+
+/**
+ * Drops the changes of a single-mode answer to files the plan does not list, as per-file mode
+ * does, so the executor never creates or modifies a file outside the plan.
+ */
+function keepPlannedChanges(output: ExecutorOutput, prepared: PreparedExecution): ExecutorOutput {
+    const toModify = new Set(prepared.filesToModify.map(planPathKey));
+    const toCreate = new Set(prepared.filesToCreate.map(planPathKey));
+    const isPlannedModification = (p: string) => toModify.has(planPathKey(p));
+    const isPlannedCreation = (p: string) => toCreate.has(planPathKey(p));
+
+    const unplanned = [
+        ...output.modifications.filter(m => !isPlannedModification(m.path)),
+        ...(output.edits ?? []).filter(e => !isPlannedModification(e.path)),
+        ...(output.creations ?? []).filter(c => !isPlannedCreation(c.path)),
+    ].map(c => c.path);
+
+    if (unplanned.length) {
+        console.warn(`⚠️ Changes to files outside the plan dropped: ${[...new Set(unplanned)].join(", ")}`);
+    }
+
+    return {
+        ...output,
+        modifications: output.modifications.filter(m => isPlannedModification(m.path)),
+        ...(output.edits && { edits: output.edits.filter(e => isPlannedModification(e.path)) }),
+        ...(output.creations && { creations: output.creations.filter(c => isPlannedCreation(c.path)) }),
+    };
+}
 
 /**
  * Orchestrates the execution workflow of the Mat AI Agent.
  * 
  * This function takes the planner output and project documentation context to generate
- * unified diffs for all files that need to be modified. It validates file paths,
- * loads real file contents, and uses the Executor Agent to generate precise diffs.
+ * unified diffs for all files that need to be modified, and the content of all files that
+ * need to be created. It validates file paths, loads real file contents (plus the files
+ * that directly import them, as read-only context), and uses the Executor Agent to
+ * generate precise diffs.
  * 
  * @param params - Execution parameters containing planner output and project context
  * @param params.jsonPlanContent - The complete JSON plan from the Planner Agent.
- *                                  Must contain `implementation.filesToModify` array.
+ *                                  Must contain `implementation.filesToModify` and/or
+ *                                  `implementation.filesToCreate` arrays.
  * @param params.projectDocsContext - Concatenated project documentation from `/context` folder.
  *                                     Used to provide architectural context to the Executor Agent.
+ * @param params.planPath - Plan file the JSON was read from, recorded in the manifest.
+ * @param params.runId - Pipeline run the execution belongs to, recorded in the manifest.
+ * @param params.editFormat - Protocol for changes to existing files. In `search-replace` mode the
+ *                            model returns SEARCH/REPLACE blocks, which are applied locally and
+ *                            converted into unified diffs before being saved.
+ * @param params.mode - `single` sends every file in one executor call; `per-file` makes one call
+ *                      per file (`params.concurrency` at a time) and merges the results, so one
+ *                      bad file does not ruin the others.
+ * 
+ * The executor output is also written to `executor-output.json` in the execution folder,
+ * where `mat apply` picks it up.
  * 
  * @returns A promise that resolves to the execution result containing:
  *          - `id`: Unique execution identifier (timestamp-based)
  *          - `output`: The ExecutorOutput with all generated modifications
  *          - `savedDiffsPath`: Absolute path to the execution folder containing diffs
  * 
- * @throws {Error} If the planner JSON is invalid or cannot be parsed
- * @throws {Error} If `implementation.filesToModify` is missing or empty
+ * @throws {Error} If the planner JSON is invalid or cannot be parsed, or does not match the plan schema
+ * @throws {Error} If both `implementation.filesToModify` and `implementation.filesToCreate` are empty
  * @throws {Error} If any file in `filesToModify` doesn't exist in the repo index
+ * @throws {Error} If any file in `filesToCreate` already exists or has an unknown parent directory
  * @throws {Error} If the Executor Agent fails to generate diffs
  * 
  * @example
@@ -51,6 +332,12 @@ import type { ExecutionParams, ExecutionResult } from "@/types/execution";
  * //         diff: '--- a/src/components/Login.tsx\n+++ b/src/components/Login.tsx\n...'
  * //       }
  * //     ],
+ * //     creations: [
+ * //       {
+ * //         path: 'src/components/login/password-hint.tsx',
+ * //         content: 'export function PasswordHint() {\n...'
+ * //       }
+ * //     ],
  * //     missingInformation: [],
  * //     confidence: 0.95
  * //   }
@@ -58,33 +345,59 @@ import type { ExecutionParams, ExecutionResult } from "@/types/execution";
  * ```
  */
 export async function runExecution(
-    { jsonPlanContent, projectDocsContext }: ExecutionParams
+    { jsonPlanContent, projectDocsContext, editFormat, mode, concurrency, planPath, runId }: ExecutionParams
 ): Promise<ExecutionResult> {
-    const planner = parsePlannerOutput(jsonPlanContent);
+    const format = editFormat ?? (env.executorEditFormat as EditFormat);
+    const executorMode = mode ?? (env.executorMode as ExecutorMode);
+    const prepared = await prepareExecution(jsonPlanContent, planPath);
+    const { filesToModify, loadedFiles, contextFiles } = prepared;
+
+    const { id, folder } = createExecutionFolder();
 
-    const filesToModify = planner.implementation?.filesToModify ?? [];
+    console.log("Execution ID:", id);
+    console.log("Execution folder:", folder);
 
-    if (!filesToModify[0]) {
-        throw new Error(
-            "Planner did not provide implementation.filesToModify. Cannot run execution."
-        );
-    }
+    const step: ExecutorStepResult = executorMode === "per-file"
+        ? await runPerFileExecutor(prepared, {
+            planJson: jsonPlanContent,
+            projectDocs: projectDocsContext,
+            editFormat: format,
+            concurrency: concurrency ?? env.executorConcurrency,
+        })
+        : await runExecutorAgent({
+            planJson: jsonPlanContent,
+            projectDocs: projectDocsContext,
+            files: loadedFiles,
+            contextFiles,
+            filesToCreate: prepared.filesToCreate,
+            editFormat: format,
+            taskId: prepared.plan.task.id,
+        }).then(r => ({ output: keepPlannedChanges(r.output, prepared), responses: r.responses, contextBudget: r.contextBudget }));
 
-    console.log("Files to modify:", filesToModify);
+    const { output: executorOutput, contextBudget, fileResults } = step;
 
-    const loadedFiles = await loadRepoFiles(filesToModify);
+    let editReports: FileEditReport[] | undefined;
 
-    console.log("Loaded files:", loadedFiles);
-    const { id, folder } = createExecutionFolder();
+    if (format === "search-replace") {
+        const converted = buildModificationsFromEdits(executorOutput.edits ?? [], loadedFiles);
+        executorOutput.modifications = converted.modifications;
+        editReports = converted.reports;
 
-    console.log("Execution ID:", id);
-    console.log("Execution folder:", folder);
+        const applied = editReports.filter(r => r.success).length;
+        console.log(`SEARCH/REPLACE edits converted to diffs: ${applied}/${editReports.length} files`);
 
-    const executorOutput = await runExecutorAgent({
-        planJson: jsonPlanContent,
-        projectDocs: projectDocsContext,
-        files: loadedFiles,
-    });
+        // A per-file unit only succeeded if its blocks also matched the file.
+        for (const report of editReports.filter(r => !r.success)) {
+            const result = fileResults?.find(r => r.path === report.path);
+            if (!result) continue;
+
+            const failedBlocks = report.blocks.filter(b => b.status !== "applied").length;
+            Object.assign(result, {
+                success: false,
+                error: report.error ?? `${failedBlocks} SEARCH/REPLACE block(s) did not match the file`,
+            });
+        }
+    }
 
     const diffPaths: string[] = [];
 
@@ -93,17 +406,68 @@ export async function runExecution(
         diffPaths.push(p);
     }
 
+    const filesCreated: string[] = [];
+
+    for (const creation of [...executorOutput.creations ?? []]) {
+        let content: string;
+
+        // A creation without usable content fails alone instead of losing the whole (paid) execution.
+        try {
+            content = resolveCreationContent(creation);
+        } catch (err: any) {
+            console.warn(`⚠️ ${creation.path} not created: ${err.message}`);
+            executorOutput.creations = executorOutput.creations?.filter(c => c !== creation);
+
+            const result = fileResults?.find(r => r.path === creation.path);
+            if (result) Object.assign(result, { success: false, error: err.message });
+            continue;
+        }
+
+        const p = saveDiffFile(folder, creation.path, buildCreationDiff(creation.path, content));
+        diffPaths.push(p);
+        filesCreated.push(creation.path);
+    }
+
+    const llmCalls = step.responses.flatMap(r => (r.stats ? [r.stats] : []));
+    const cacheHits = step.responses.filter(r => r.cached).length;
+
     saveExecutionManifest(folder, {
+        createdAt: new Date().toISOString(),
         plan: jsonPlanContent,
+        planPath,
+        runId,
         projectDocsContext,
         filesLoaded: filesToModify,
+        contextFiles: contextFiles.map(f => f.path),
+        filesCreated,
+        editFormat: format,
+        executorMode,
+        fileResults,
+        editReports,
+        llmCache: {
+            enabled: env.llmCache.enabled,
+            hits: cacheHits,
+            misses: step.responses.length - cacheHits,
+        },
+        llmUsage: summarizeLlmUsage(llmCalls),
+        contextBudget,
+        llmCalls,
         executorOutput,
         diffPaths,
     });
 
-    return {
+    const executorOutPath = path.join(folder, "executor-output.json");
+    fs.writeFileSync(executorOutPath, JSON.stringify(executorOutput, null, 2), "utf8");
+    console.log("Executor output stored at:", executorOutPath);
+
+    const result: ExecutionResult = {
         id,
         output: executorOutput,
         savedDiffsPath: folder,
+        fileResults,
     };
+
+    await publishExecution(prepared.plan, result);
+
+    return result;
 }
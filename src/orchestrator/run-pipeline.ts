@@ -0,0 +1,244 @@
+import fs from "node:fs";
+import path from "node:path";
+import { spawnSync } from "node:child_process";
+
+import { env } from "@/config/env";
+import { runApply } from "@/orchestrator/run-apply";
+import { runPlanner } from "@/orchestrator/run-planner";
+import type { PatchResult } from "@/utils/apply-patches";
+import { runExecution } from "@/orchestrator/run-execution";
+import type { ExecutorOutput } from "@/types/executor-output";
+import { buildProjectContext } from "@/utils/build-project-context";
+import type { PipelinePhase, RunState } from "@/types/pipeline";
+import { printIndexChangeSummary, updateRepoIndex } from "@/repo/update-repo-index";
+import { getRunFolder, PIPELINE_PHASES, saveRunState } from "@/utils/run-state";
+
+/** Maximum duration of `VERIFY_COMMAND`. */
+const VERIFY_TIMEOUT_MS = 10 * 60 * 1000;
+
+/** Number of output lines of `VERIFY_COMMAND` kept in the run state (the full log is saved to `verify.log`). */
+const VERIFY_OUTPUT_TAIL = 20;
+
+/**
+ * Reads the output of a completed phase from the run state.
+ *
+ * @throws {Error} If the phase has not completed (the run state is inconsistent)
+ */
+function phaseOutput<T>(state: RunState, phase: PipelinePhase): T {
+    const checkpoint = state.phases[phase];
+
+    if (checkpoint.status !== "completed" || !checkpoint.output) {
+        throw new Error(`Phase "${phase}" has no checkpoint in run ${state.id}.`);
+    }
+
+    return checkpoint.output as T;
+}
+
+/**
+ * Runs one phase and returns its checkpoint output. Each phase reads what it needs
+ * from the checkpoints of earlier phases, so a resumed run behaves like a fresh one.
+ */
+async function runPhase(state: RunState, phase: PipelinePhase): Promise<Record<string, unknown>> {
+    const folder = getRunFolder(state.id);
+    const repoRoot = path.resolve(env.frontendRepoPath);
+
+    switch (phase) {
+        case "context": {
+            const context = buildProjectContext();
+            const contextPath = path.join(folder, "project-context.md");
+            fs.writeFileSync(contextPath, context, "utf8");
+
+            return { contextPath, length: context.length };
+        }
+
+        case "index": {
+            const { summary } = updateRepoIndex(repoRoot);
+            printIndexChangeSummary(summary);
+
+            return {
+                added: summary.added.length,
+                changed: summary.changed.length,
+                deleted: summary.deleted.length,
+                unchanged: summary.unchanged,
+            };
+        }
+
+        case "plan": {
+            const { plan, jsonPath } = await runPlanner(state.taskId, { source: state.options.taskSource });
+
+            // The run keeps its own copy: plans/task-<id>.json is overwritten by the next plan of the task.
+            const planPath = path.join(folder, "plan.json");
+            fs.writeFileSync(planPath, JSON.stringify(plan, null, 2), "utf8");
+            state.planPath = planPath;
+
+            return {
+                planPath,
+                savedPlanPath: jsonPath,
+                filesToModify: plan.implementation.filesToModify,
+                filesToCreate: plan.implementation.filesToCreate,
+            };
+        }
+
+        case "execute": {
+            const { planPath } = phaseOutput<{ planPath: string }>(state, "plan");
+            const { contextPath } = phaseOutput<{ contextPath: string }>(state, "context");
+
+            const result = await runExecution({
+                jsonPlanContent: fs.readFileSync(planPath, "utf8"),
+                projectDocsContext: fs.readFileSync(contextPath, "utf8"),
+                editFormat: state.options.editFormat,
+                mode: state.options.executorMode,
+                planPath,
+                runId: state.id,
+            });
+
+            state.executionId = result.id;
+
+            return {
+                executionId: result.id,
+                executionFolder: result.savedDiffsPath,
+                planPath,
+                modifications: result.output.modifications.length,
+                creations: result.output.creations?.length ?? 0,
+                confidence: result.output.confidence,
+                failedFiles: (result.fileResults ?? []).filter(r => !r.success).map(r => r.path),
+            };
+        }
+
+        case "apply": {
+            const { executionFolder, planPath } = phaseOutput<{ executionFolder: string; planPath: string }>(state, "execute");
+            const applyResultsPath = path.join(executionFolder, "apply-results.json");
+
+            const previousResults = fs.existsSync(applyResultsPath)
+                ? JSON.parse(fs.readFileSync(applyResultsPath, "utf8")) as PatchResult[]
+                : undefined;
+
+            let results: PatchResult[];
+
+            // Patches are not idempotent: on resume, only the files that failed are applied again,
+            // and the ones fixed by hand since then count as applied.
+            if (previousResults?.every(r => r.success)) {
+                console.log(`Apply results already stored at: ${applyResultsPath}`);
+                results = previousResults;
+            } else {
+                const executorOutput = JSON.parse(
+                    fs.readFileSync(path.join(executionFolder, "executor-output.json"), "utf8")
+                ) as ExecutorOutput;
+
+                if (previousResults) console.log(`Re-applying the files that failed in: ${applyResultsPath}`);
+
+                results = await runApply(executorOutput, {
+                    executionFolder,
+                    planJson: fs.readFileSync(planPath, "utf8"),
+                    maxRepairAttempts: state.options.maxRepairAttempts,
+                    previousResults,
+                });
+
+                fs.writeFileSync(applyResultsPath, JSON.stringify(results, null, 2), "utf8");
+            }
+
+            const failed = results.filter(r => !r.success).map(r => r.file);
+
+            if (failed.length) {
+                throw new Error(
+                    `${failed.length} file(s) failed to apply: ${failed.join(", ")}. ` +
+                    `Fix them by hand and resume: only the failed files are applied again ` +
+                    `(or re-apply them alone with 'mat apply --execution ${state.executionId} --failed').`
+                );
+            }
+
+            return { applyResultsPath, applied: results.map(r => r.file) };
+        }
+
+        case "verify": {
+            if (!env.verifyCommand) {
+                console.log("No VERIFY_COMMAND configured: every change applied, nothing else to verify.");
+                return { command: null };
+            }
+
+            console.log(`🔎 Running "${env.verifyCommand}" in ${repoRoot}...`);
+
+            const check = spawnSync(env.verifyCommand, {
+                cwd: repoRoot,
+                shell: true,
+                encoding: "utf8",
+                timeout: VERIFY_TIMEOUT_MS,
+                maxBuffer: 32 * 1024 * 1024,
+            });
+
+            const output = `${check.stdout ?? ""}${check.stderr ?? ""}`;
+            const logPath = path.join(folder, "verify.log");
+            fs.writeFileSync(logPath, output, "utf8");
+
+            if (check.error || check.status !== 0) {
+                const tail = output.trim().split("\n").slice(-VERIFY_OUTPUT_TAIL).join("\n");
+                throw new Error(
+                    `VERIFY_COMMAND failed (${check.error?.message ?? `exit code ${check.status}`}). Full log: ${logPath}\n${tail}`
+                );
+            }
+
+            return { command: env.verifyCommand, logPath };
+        }
+    }
+}
+
+/**
+ * Runs the end-to-end pipeline of a task: build context, index, plan, execute, apply and verify.
+ *
+ * Phases already completed in the run state are skipped, so the same function starts a new run
+ * and resumes a failed or interrupted one. The state is saved to `runs/<id>/run-state.json`
+ * before and after every phase, and records which plan (`planPath`) produced which execution
+ * (`executionId`).
+ *
+ * @param state - A new run state (`createRunState`) or a loaded one (`loadRunState`).
+ * @returns The final run state.
+ * @throws {Error} The error of the failing phase, after it was recorded in the run state
+ *
+ * @example
+ * const state = await runPipeline(createRunState("123", {}));
+ * // runs/123-1765692907016/run-state.json, plan.json, project-context.md
+ *
+ * // After a failure, fix the cause and continue from the failed phase:
+ * await runPipeline(loadRunState("123-1765692907016"));
+ */
+export async function runPipeline(state: RunState): Promise<RunState> {
+    state.status = "running";
+
+    for (const phase of PIPELINE_PHASES) {
+        const checkpoint = state.phases[phase];
+
+        if (checkpoint.status === "completed") {
+            console.log(`⏭  [${phase}] already completed, skipping.`);
+            continue;
+        }
+
+        console.log(`\n▶ [${phase}] starting...`);
+
+        checkpoint.status = "running";
+        checkpoint.startedAt = new Date().toISOString();
+        delete checkpoint.error;
+        saveRunState(state);
+
+        try {
+            checkpoint.output = await runPhase(state, phase);
+            checkpoint.status = "completed";
+            checkpoint.completedAt = new Date().toISOString();
+            saveRunState(state);
+
+            console.log(`✔ [${phase}] completed.`);
+        } catch (err: any) {
+            checkpoint.status = "failed";
+            checkpoint.error = err.message;
+            state.status = "failed";
+            saveRunState(state);
+
+            console.error(`❌ [${phase}] failed. Resume with: mat run --resume ${state.id}`);
+            throw err;
+        }
+    }
+
+    state.status = "completed";
+    saveRunState(state);
+
+    return state;
+}
@@ -1,20 +1,17 @@
 import plannerAgent from "@/agents/planner-agent";
-import { savePlannerOutput } from "@/tools/fsTools";
+import type { TaskProviderName } from "@/types/task";
 import { saveMarkdown } from "@/tools/save-markdown";
-import type { PlannerOutput } from "@/types/plannerTypes";
+import { publishPlan } from "@/tools/monday-publisher";
+import { summarizeLlmUsage } from "@/utils/summarize-llm-usage";
+import { loadPlannerOutput, savePlannerOutput } from "@/tools/fsTools";
+import type { Clarification, PlannerOutput } from "@/types/plannerTypes";
 import { formatPlanToMarkdown } from "@/tools/format-plan-to-markdown";
-
-/**
- * Parses command line arguments to extract the task ID.
- * 
- * @returns {string} The extracted task ID.
- * @throws {Error} If the taskId argument is missing.
- */
-function parseArgs() {
-    const a = process.argv.find((x) => x.startsWith("--taskId="));
-    if (!a) throw new Error("Usage: --taskId=<ID>");
-    return a.split("=")[1];
-}
+import {
+    askQuestions,
+    MAX_CLARIFICATION_ROUNDS,
+    mergeClarifications,
+    unansweredQuestions,
+} from "@/utils/clarifications";
 
 /**
  * Saves the generated plan to both JSON and Markdown formats.
@@ -24,6 +21,7 @@ function parseArgs() {
  * 
  * @param {PlannerOutput} plan - The generated plan object.
  * @param {string} taskId - The ID of the task.
+ * @returns The paths of the saved JSON and Markdown files.
  */
 async function savePlan(plan: PlannerOutput, taskId: string) {
     const { jsonPath } = await savePlannerOutput(plan);
@@ -32,29 +30,108 @@ async function savePlan(plan: PlannerOutput, taskId: string) {
 
     console.log(`[planner] JSON saved at: ${jsonPath}`);
     console.log(`[planner] Markdown saved at: ${markdownPath}`);
+
+    return { jsonPath, markdownPath };
 }
 
 /**
- * Main entry point for the planner orchestrator.
- * 
- * Orchestrates the planning process:
- * 1. Parses the task ID.
- * 2. Runs the planner agent to generate the plan.
- * 3. Saves the plan to disk (JSON and Markdown).
- * 
- * Handles errors by logging them and exiting with code 1.
+ * Result of `runPlanner`.
  */
-async function runPlanner() {
+export type RunPlannerResult = {
+    plan: PlannerOutput;
+    /** Path of the saved JSON plan (undefined in dry-run mode). */
+    jsonPath?: string;
+    /** Path of the saved Markdown plan (undefined in dry-run mode). */
+    markdownPath?: string;
+    /** Questions of `missingInformation` that no answer covers yet. */
+    openQuestions: string[];
+};
+
+/**
+ * Options of `runPlanner`.
+ */
+export type RunPlannerOptions = {
+    /** Generate the plan without writing anything to `plans/`. */
+    dryRun?: boolean;
+    /** Ask the plan's questions in the terminal and re-plan with the answers (`--clarify`). */
+    clarify?: boolean;
+    /** Answers given before planning (`--answers <file>`). */
+    answers?: Clarification[];
+    /** Tracker to read the task from (`--source`); defaults to `TASK_PROVIDER`. */
+    source?: TaskProviderName;
+};
+
+/**
+ * Reads the answers stored with the task's saved plan, so re-planning a task keeps them.
+ */
+async function loadSavedClarifications(taskId: string): Promise<Clarification[]> {
     try {
-        const id = parseArgs();
-        console.log(`[planner] Running for task ${id}...`);
-        const plan = await plannerAgent(id);
-
-        await savePlan(plan, id);
-    } catch (err) {
-        console.error("[planner] Error:", err);
-        process.exit(1);
+        return (await loadPlannerOutput(taskId))?.clarifications ?? [];
+    } catch (err: any) {
+        console.warn(`⚠️ [planner] The answers of the saved plan were not reused: ${err.message}`);
+        return [];
     }
 }
 
-runPlanner();
+/**
+ * Orchestrates the planning process:
+ * 1. Runs the planner agent to generate the plan, with the answers stored with the task's
+ *    saved plan and the ones given in `options.answers`.
+ * 2. With `options.clarify`, asks the plan's `missingInformation` in the terminal and re-plans
+ *    with the answers, up to `MAX_CLARIFICATION_ROUNDS` times. The Q&A history is stored in the
+ *    plan's `clarifications`, and the cost of every round in its `metadata`.
+ * 3. Saves the plan to disk (JSON and Markdown), unless `dryRun` is set, and publishes it to
+ *    the Monday item when `MONDAY_PUBLISH=on`.
+ * 
+ * @param {string} taskId - The ID of the task in its tracker.
+ * @param options - Dry run, clarification and task source options (`RunPlannerOptions`).
+ * @returns The plan, the paths it was saved to, and the questions still unanswered.
+ * @throws {Error} If the planner agent fails.
+ * 
+ * @example
+ * const { plan, jsonPath } = await runPlanner("123");
+ * // jsonPath: "/path/to/project/plans/task-123.json"
+ */
+export async function runPlanner(
+    taskId: string,
+    options: RunPlannerOptions = {}
+): Promise<RunPlannerResult> {
+    console.log(`[planner] Running for task ${taskId}...`);
+
+    let clarifications = mergeClarifications(await loadSavedClarifications(taskId), options.answers ?? []);
+    if (clarifications.length) console.log(`[planner] Planning with ${clarifications.length} answered question(s)`);
+
+    let plan = await plannerAgent(taskId, { clarifications, source: options.source });
+    const llmCalls = [...(plan.metadata?.llmCalls ?? [])];
+
+    for (let round = 1; options.clarify && round <= MAX_CLARIFICATION_ROUNDS; round++) {
+        const questions = unansweredQuestions(plan.missingInformation, clarifications);
+        if (!questions.length) break;
+
+        const answers = await askQuestions(questions, "planner");
+        if (!answers.length) break;
+
+        clarifications = mergeClarifications(clarifications, answers);
+        console.log(`[planner] Re-planning with ${answers.length} new answer(s)...`);
+
+        plan = await plannerAgent(taskId, { clarifications, source: options.source });
+        llmCalls.push(...(plan.metadata?.llmCalls ?? []));
+    }
+
+    if (plan.metadata) plan.metadata = { ...plan.metadata, llmUsage: summarizeLlmUsage(llmCalls), llmCalls };
+
+    const openQuestions = unansweredQuestions(plan.missingInformation, clarifications);
+    if (openQuestions.length) {
+        console.log(`[planner] ${openQuestions.length} open question(s). Answer them with --clarify or --answers <file> and plan again.`);
+    }
+
+    if (options.dryRun) {
+        console.log("[planner] Dry run: plan not saved.");
+        return { plan, openQuestions };
+    }
+
+    const saved = await savePlan(plan, taskId);
+    await publishPlan(plan);
+
+    return { plan, openQuestions, ...saved };
+}
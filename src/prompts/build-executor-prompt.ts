@@ -1,96 +1,29 @@
+import type { EditFormat } from "@/types/executor-output";
+
 /**
- * Builds the comprehensive prompt for the Executor Agent.
- * 
- * This prompt acts as the system instruction and context provider for the AI.
- * It combines:
- * 1. Project documentation (style guides, patterns)
- * 2. The implementation plan from the Planner Agent
- * 3. The actual content of the files to be modified
- * 4. Strict rules for generating valid unified diffs
- * 
- * @param input - The input parameters for prompt construction
- * @param input.plan - The JSON implementation plan string
- * @param input.projectDocs - The concatenated project documentation string
- * @param input.files - Array of loaded files (path and content) that the AI can modify
- * @returns The fully constructed prompt string ready to be sent to the LLM
+ * Format-specific parts of the executor prompt.
  */
-export function buildExecutorPrompt(input: {
-    plan: string;
-    projectDocs: string;
-    files: { path: string; content: string }[];
-}) {
-    return `
-You are the EXECUTOR AGENT. You apply code changes to a real TypeScript/React/React-Native codebase.
-
-==========================
-PROJECT CONTEXT
-==========================
-${input.projectDocs}
-
-==========================
-PLANNER OUTPUT (MANDATORY)
-==========================
-The following JSON describes EXACTLY what must be implemented.
-
-CRITICAL: You MUST implement EVERY step listed in implementation.steps[].
-Each step is a separate change you need to make. Count the steps and verify your diff includes ALL of them.
-If there are 2 steps, your diff must have 2 sets of changes (additions/removals).
-
-${input.plan}
-
-==========================
-FILES PROVIDED (SOURCE OF TRUTH)
-==========================
-You can only modify the files provided below. 
-If a file is not provided, you MUST NOT reference or modify it.
-
-${input.files.map(f => `
-----------------------
-FILE: ${f.path}
-----------------------
-${f.content}`).join("\n")}
-
-==========================
-STRICT EXECUTION RULES
-==========================
-
-1. You MUST produce ONLY valid JSON following the ExecutorOutput schema.
-2. You MUST return unified diffs for each file you modify.
-3. You MUST NOT hallucinate file paths.
-4. You MUST NOT modify or mention files NOT included above.
-5. You MUST NOT invent components, hooks, or functions.
-6. If required information is missing, do NOT guess — add it to missingInformation[].
-7. Your diff MUST apply cleanly without syntax errors.
-8. Follow React and TypeScript idioms used in the current codebase.
-9. When modifying a component:
-   - Verify the component exists in the provided file.
-   - Verify imports exist or create them ONLY if needed.
-10. Maintain existing code style, naming, spacing, conventions.
-
-🚨 CRITICAL FORMATTING RULES:
-- DO NOT change indentation (tabs vs spaces) - preserve EXACTLY as in original
-- DO NOT add empty lines at the start of files
-- DO NOT reformat code that isn't part of the requested changes
-- DO NOT change whitespace, line breaks, or formatting unless explicitly required
-- ONLY modify the specific lines needed for the implementation
-- If the file uses tabs, your diff MUST use tabs
-- If the file uses spaces, your diff MUST use spaces
-
-Example of WRONG diff (reformats entire file):
-❌ Removes all lines and adds them back with different indentation
-❌ Adds empty line at top of file
-❌ Changes tabs to spaces throughout
-
-Example of CORRECT diff (minimal changes):
-✅ Only modifies the specific lines that need changes
-✅ Preserves original indentation style
-✅ Includes only 3 lines of context before/after
-
-CRITICAL: You MUST implement ALL steps from the planner output. Do not skip any steps.
-If a step says "remove X", you MUST remove X. If it says "replace Y with Z", you MUST do the replacement.
-Partial implementations are NOT acceptable.
-
-==========================
+type EditFormatPrompt = {
+    /** How the prompt refers to the changes ("diff" or "edits"). */
+    noun: string;
+    /** The output field holding changes to existing files. */
+    outputField: string;
+    /** Rule describing how existing files must be modified. */
+    modifyRule: string;
+    /** Rule describing what "applies cleanly" means for this format. */
+    applyRule: string;
+    /** The format requirements and examples section. */
+    instructions: string;
+    /** The output schema lines for `outputField`. */
+    outputSchema: string;
+};
+
+const UNIFIED_DIFF_PROMPT: EditFormatPrompt = {
+    noun: "diff",
+    outputField: "modifications",
+    modifyRule: "You MUST return unified diffs for each file you modify.",
+    applyRule: "Your diff MUST apply cleanly without syntax errors.",
+    instructions: `==========================
 UNIFIED DIFF FORMAT REQUIREMENTS
 ==========================
 
@@ -216,7 +149,221 @@ CORRECT (two small hunks):
 ✅ -		<div className="fixed top-2 right-2" style={{ zIndex: 1400 }}>
 ✅ +		<div className="fixed top-2 right-2 z-[1400]">
 ✅  		{transitions(({ life, ...style }, alert) => {
-✅  			return (
+✅  			return (`,
+    outputSchema: `  modifications: {
+    path: string;
+    diff: string;
+  }[];`,
+};
+
+const SEARCH_REPLACE_PROMPT: EditFormatPrompt = {
+    noun: "edits",
+    outputField: "edits",
+    modifyRule: "You MUST return SEARCH/REPLACE blocks for each file you modify.",
+    applyRule: "Every SEARCH block MUST match EXACTLY ONE location of the current file.",
+    instructions: `==========================
+SEARCH/REPLACE FORMAT REQUIREMENTS
+==========================
+
+Each file you modify is described by a list of SEARCH/REPLACE blocks. Blocks are applied in order.
+
+1. "search" is text copied VERBATIM from the file provided above (same characters, same tabs/spaces).
+2. "search" MUST identify ONE location. Include enough surrounding lines to make it unique
+   (usually 2-3 lines around the change), but never the whole file.
+3. "replace" is the full text that replaces the "search" text, including the unchanged lines you copied.
+4. To insert code, copy the lines next to the insertion point into "search" and repeat them in "replace" with the new lines added.
+5. To delete code, put it in "search" and leave it out of "replace".
+6. Use one block per separate change. Do NOT use line numbers.
+7. Later blocks see the file AFTER earlier blocks were applied. Do NOT overlap blocks.
+
+==========================
+SEARCH/REPLACE EXAMPLES
+==========================
+
+Example 1: Adding an import
+{
+  "path": "src/components/button.tsx",
+  "blocks": [
+    {
+      "search": "import { ButtonProps } from './types'\\n",
+      "replace": "import { ButtonProps } from './types'\\nimport { Icon } from './icon'\\n"
+    }
+  ]
+}
+
+Example 2: Two separate changes = TWO blocks
+{
+  "path": "src/components/alerts.jsx",
+  "blocks": [
+    {
+      "search": "import { Alert } from './alert'\\n\\nconst alertConfig",
+      "replace": "import { Alert } from './alert'\\n\\nconsole.log('my first interaction')\\n\\nconst alertConfig"
+    },
+    {
+      "search": "\\t\\t<div className=\\"fixed top-2 right-2\\" style={{ zIndex: 1400 }}>",
+      "replace": "\\t\\t<div className=\\"fixed top-2 right-2 z-[1400]\\">"
+    }
+  ]
+}`,
+    outputSchema: `  edits: {
+    path: string;
+    blocks: {
+      search: string;
+      replace: string;
+    }[];
+  }[];`,
+};
+
+const EDIT_FORMAT_PROMPTS: Record<EditFormat, EditFormatPrompt> = {
+    "unified-diff": UNIFIED_DIFF_PROMPT,
+    "search-replace": SEARCH_REPLACE_PROMPT,
+};
+
+/**
+ * Builds the comprehensive prompt for the Executor Agent.
+ * 
+ * This prompt acts as the system instruction and context provider for the AI.
+ * It combines:
+ * 1. Project documentation (style guides, patterns)
+ * 2. The implementation plan from the Planner Agent
+ * 3. The actual content of the files to be modified
+ * 4. The paths of the new files to be created
+ * 5. Strict rules for generating valid unified diffs or SEARCH/REPLACE blocks, depending on `editFormat`
+ * 
+ * @param input - The input parameters for prompt construction
+ * @param input.plan - The JSON implementation plan string
+ * @param input.projectDocs - The concatenated project documentation string
+ * @param input.files - Array of loaded files (path and content) that the AI can modify
+ * @param input.contextFiles - Files that import the files to modify, shown read-only
+ * @param input.filesToCreate - Relative paths of new files the AI must create
+ * @param input.editFormat - The protocol used for changes to existing files (defaults to `unified-diff`)
+ * @param input.otherFiles - In per-file mode, the other files of the plan and what was changed in
+ *                           them, handled by separate calls
+ * @param input.hasExcerpts - Some files were trimmed by the context budget (`budgetExecutorContext`),
+ *                            so the prompt explains the excerpt markers
+ * @returns The fully constructed prompt string ready to be sent to the LLM
+ */
+export function buildExecutorPrompt(input: {
+    plan: string;
+    projectDocs: string;
+    files: { path: string; content: string }[];
+    contextFiles?: { path: string; content: string }[];
+    filesToCreate: string[];
+    editFormat?: EditFormat;
+    otherFiles?: string;
+    hasExcerpts?: boolean;
+}) {
+    const format = EDIT_FORMAT_PROMPTS[input.editFormat ?? "unified-diff"];
+    const contextFiles = input.contextFiles ?? [];
+
+    return `
+You are the EXECUTOR AGENT. You apply code changes to a real TypeScript/React/React-Native codebase.
+
+==========================
+PROJECT CONTEXT
+==========================
+${input.projectDocs}
+
+==========================
+PLANNER OUTPUT (MANDATORY)
+==========================
+The following JSON describes EXACTLY what must be implemented.
+
+CRITICAL: You MUST implement EVERY step listed in implementation.steps[].
+Each step is a separate change you need to make. Count the steps and verify your diff includes ALL of them.
+If there are 2 steps, your diff must have 2 sets of changes (additions/removals).
+When the plan has clarifications[], they are the team's answers to earlier questions: follow them,
+and do NOT list those questions again in missingInformation[].
+
+${input.plan}
+
+==========================
+FILES PROVIDED (SOURCE OF TRUTH)
+==========================
+You can only modify the files provided below. 
+If a file is not provided, you MUST NOT reference or modify it.
+${input.hasExcerpts ? `
+Some large files are EXCERPTS: only the regions around the planned edits are shown.
+- [LINES a-b] labels give the REAL line numbers of the region that follows. Use them for hunk headers.
+- [… LINES a-b OMITTED …] marks code you cannot see. You MUST NOT modify it.
+- [EXCERPT ...], [OUTLINE ...] and the other bracketed labels are NOT part of the file. Never copy them into your ${format.noun}.
+` : ""}
+${input.files.map(f => `
+----------------------
+FILE: ${f.path}
+----------------------
+${f.content}`).join("\n")}
+${contextFiles.length ? `
+==========================
+READ-ONLY CONTEXT FILES
+==========================
+These files import the files above. They are provided ONLY so your changes keep them working
+(e.g. do not remove or rename exports they use). You MUST NOT modify them.
+${contextFiles.map(f => `
+----------------------
+FILE (READ-ONLY): ${f.path}
+----------------------
+${f.content}`).join("\n")}
+` : ""}
+==========================
+FILES TO CREATE
+==========================
+These files do NOT exist yet. You MUST create each of them in creations[] with its FULL content.
+You MUST NOT create any file that is not listed here.
+
+${input.filesToCreate.length ? input.filesToCreate.map(p => `- ${p}`).join("\n") : "(none)"}
+${input.otherFiles ? `
+==========================
+OTHER FILES OF THIS PLAN
+==========================
+This request covers ONLY the files above. The plan also changes the files below, which are handled
+by separate requests. You MUST NOT modify or create them, but your changes MUST stay consistent
+with them (same names, exports and props):
+
+${input.otherFiles}
+` : ""}
+==========================
+STRICT EXECUTION RULES
+==========================
+
+1. You MUST produce ONLY valid JSON following the ExecutorOutput schema.
+2. ${format.modifyRule}
+3. You MUST return the full content for each file you create (in creations[], never in ${format.outputField}[]).
+4. You MUST NOT hallucinate file paths.
+5. You MUST NOT modify or mention files NOT included above.
+6. You MUST NOT invent components, hooks, or functions.
+7. If required information is missing, do NOT guess — add it to missingInformation[].
+8. ${format.applyRule}
+9. Follow React and TypeScript idioms used in the current codebase.
+10. When modifying a component:
+   - Verify the component exists in the provided file.
+   - Verify imports exist or create them ONLY if needed.
+11. Maintain existing code style, naming, spacing, conventions.
+
+🚨 CRITICAL FORMATTING RULES:
+- DO NOT change indentation (tabs vs spaces) - preserve EXACTLY as in original
+- DO NOT add empty lines at the start of files
+- DO NOT reformat code that isn't part of the requested changes
+- DO NOT change whitespace, line breaks, or formatting unless explicitly required
+- ONLY modify the specific lines needed for the implementation
+- If the file uses tabs, your ${format.noun} MUST use tabs
+- If the file uses spaces, your ${format.noun} MUST use spaces
+
+Example of WRONG ${format.noun} (reformats entire file):
+❌ Removes all lines and adds them back with different indentation
+❌ Adds empty line at top of file
+❌ Changes tabs to spaces throughout
+
+Example of CORRECT ${format.noun} (minimal changes):
+✅ Only modifies the specific lines that need changes
+✅ Preserves original indentation style
+✅ Includes only 3 lines of context before/after
+
+CRITICAL: You MUST implement ALL steps from the planner output. Do not skip any steps.
+If a step says "remove X", you MUST remove X. If it says "replace Y with Z", you MUST do the replacement.
+Partial implementations are NOT acceptable.
+
+${format.instructions}
 
 ==========================
 OUTPUT FORMAT
@@ -226,15 +373,19 @@ Return ONLY valid JSON:
 
 interface ExecutorOutput {
   summary: string;
-  modifications: {
+${format.outputSchema}
+  creations: {
     path: string;
-    diff: string;
+    content: string;
   }[];
   missingInformation: string[];
   confidence: number;
 }
 
-CRITICAL: Your diff must include ALL changes from all steps in implementation.steps[].
+Each entry in creations[] holds the COMPLETE content of one file from FILES TO CREATE.
+Use an empty creations[] array if there are no files to create.
+
+CRITICAL: Your ${format.noun} must include ALL changes from all steps in implementation.steps[].
 
 ==========================
 NOW PRODUCE THE JSON OUTPUT
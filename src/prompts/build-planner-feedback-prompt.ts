@@ -0,0 +1,37 @@
+import { formatPlanPathIssue, PlanPathIssue } from "@/repo/validate-plan-paths";
+
+/**
+ * Builds the message sent back to the planner when its plan cannot be used: fields that do
+ * not match the schema, and file paths that do not resolve, with the closest real paths.
+ *
+ * @param input.schemaErrors - Errors from `validateWithSchema`, with their field paths.
+ * @param input.pathIssues - Issues from `validatePlanPaths`.
+ * @returns The follow-up user message asking for the complete corrected plan.
+ */
+export function buildPlannerFeedbackPrompt(input: {
+    schemaErrors: string[];
+    pathIssues: PlanPathIssue[];
+}): string {
+    const sections: string[] = [];
+
+    if (input.schemaErrors.length) {
+        sections.push(`INVALID FIELDS:\n${input.schemaErrors.map(e => `- ${e}`).join("\n")}`);
+    }
+
+    if (input.pathIssues.length) {
+        sections.push(`FILE PATHS THAT DO NOT RESOLVE:\n${input.pathIssues.map(i => `- ${formatPlanPathIssue(i)}`).join("\n")}`);
+    }
+
+    return `
+Your plan cannot be used yet.
+
+${sections.join("\n\n")}
+
+Fix the plan:
+- Replace every unknown path with the real one, copied EXACTLY (from the suggestions above or the RELEVANT FILES list).
+- If a file really does not exist yet, move it to implementation.filesToCreate, inside an existing directory.
+- Remove files the task does not need.
+
+Return the COMPLETE corrected plan as a JSON object only.
+`;
+}
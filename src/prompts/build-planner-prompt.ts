@@ -1,9 +1,35 @@
+import type { TaskComment, TaskSubtask } from "@/types/task";
+import type { Clarification } from "@/types/plannerTypes";
+import type { RelevantFile } from "@/retrieval/findRelevantFiles";
+
+function formatComment(comment: TaskComment, prefix = ""): string {
+    const header = [comment.createdAt?.slice(0, 10), comment.author].filter(Boolean).join(", ");
+    const indent = " ".repeat(prefix.length);
+
+    return [
+        `${prefix}${header ? `[${header}] ` : ""}${comment.body.replace(/\n/g, `\n${indent}`)}`,
+        ...(comment.replies ?? []).map(r => formatComment(r, `${indent}  ↳ `)),
+    ].join("\n");
+}
+
 export default function buildPlannerPrompt(args: {
     projectDocs: string;
     taskId: string;
     taskName: string;
     taskDescription: string;
+    /** Status, priority, tags, assignee, ... by label. */
+    taskFields?: Record<string, string>;
+    subtasks?: TaskSubtask[];
+    comments?: TaskComment[];
+    candidateFiles?: RelevantFile[];
+    clarifications?: Clarification[];
 }) {
+    const candidateFiles = args.candidateFiles ?? [];
+    const clarifications = args.clarifications ?? [];
+    const taskFields = Object.entries(args.taskFields ?? {});
+    const subtasks = args.subtasks ?? [];
+    const comments = args.comments ?? [];
+
     return `
 You are a Senior Frontend Architect AI.
 
@@ -21,6 +47,30 @@ TASK ID: ${args.taskId}
 TASK NAME: ${args.taskName}
 TASK DESCRIPTION:
 ${args.taskDescription}
+${taskFields.length ? `
+TASK FIELDS:
+${taskFields.map(([label, value]) => `- ${label}: ${value}`).join("\n")}
+` : ""}${subtasks.length ? `
+SUBTASKS:
+${subtasks.map(s => `- ${s.name}${s.status ? ` (${s.status})` : ""}`).join("\n")}
+` : ""}${comments.length ? `
+UPDATES AND COMMENTS (oldest first; they may clarify or change the description):
+${comments.map(c => formatComment(c)).join("\n\n")}
+` : ""}${clarifications.length ? `
+ANSWERS FROM THE TEAM (to questions asked about this task; they complete and take precedence over the description):
+${clarifications.map(c => `Q: ${c.question}\nA: ${c.answer}`).join("\n\n")}
+
+Do NOT ask these questions again in missingInformation.
+` : ""}
+RELEVANT FILES IN THE REPOSITORY (ranked by keyword relevance to the task):
+${candidateFiles.length
+        ? candidateFiles.map(f => `- ${f.path} (${f.type}${f.componentName ? `, ${f.componentName}` : ""})`).join("\n")
+        : "(none found)"}
+
+FILE RULES:
+- implementation.filesToModify MUST only contain files that already exist in the repository.
+  Prefer the RELEVANT FILES listed above and copy their paths EXACTLY.
+- Files that do not exist yet belong in implementation.filesToCreate.
 
 Return ONLY a JSON object.
 `;
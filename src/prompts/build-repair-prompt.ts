@@ -0,0 +1,78 @@
+/**
+ * Builds the prompt used to repair a single diff that could not be applied.
+ *
+ * The Executor Agent receives the diff it produced earlier, the real content of the
+ * target file and the error reported by each patch strategy, and must regenerate
+ * the modification for that one file only.
+ *
+ * @param input - The input parameters for prompt construction
+ * @param input.plan - The JSON implementation plan string (may be empty when unavailable)
+ * @param input.filePath - The relative path of the file whose diff failed
+ * @param input.fileContent - The current content of the file on disk
+ * @param input.failedDiff - The diff that was rejected
+ * @param input.strategyErrors - The error reported by each patch strategy
+ * @param input.attempt - The 1-based repair attempt number
+ * @returns The fully constructed prompt string ready to be sent to the LLM
+ */
+export function buildRepairPrompt(input: {
+    plan: string;
+    filePath: string;
+    fileContent: string;
+    failedDiff: string;
+    strategyErrors: string[];
+    attempt: number;
+}) {
+    return `
+You are the EXECUTOR AGENT. A unified diff you generated earlier could NOT be applied to the real file.
+This is repair attempt #${input.attempt}. Regenerate the modification for this ONE file only.
+
+==========================
+PLANNER OUTPUT (FOR REFERENCE)
+==========================
+${input.plan || "(not available)"}
+
+==========================
+FILE (SOURCE OF TRUTH)
+==========================
+----------------------
+FILE: ${input.filePath}
+----------------------
+${input.fileContent}
+
+==========================
+REJECTED DIFF
+==========================
+${input.failedDiff}
+
+==========================
+PATCH ERRORS
+==========================
+${input.strategyErrors.map(e => `- ${e}`).join("\n") || "- (no details)"}
+
+==========================
+REPAIR RULES
+==========================
+
+1. Keep the SAME intended changes as the rejected diff. Do NOT add or drop changes.
+2. Context and removed lines MUST be copied EXACTLY from the FILE above (same tabs/spaces, same characters).
+3. Hunk headers MUST use real line numbers from the FILE above and exact line counts.
+4. Use 3 lines of context before and after each change, and SEPARATE hunks for changes far apart.
+5. Do NOT produce a full-file diff.
+6. File headers MUST be:
+--- ${input.filePath}
++++ ${input.filePath}
+
+==========================
+OUTPUT FORMAT
+==========================
+
+Return ONLY valid JSON:
+
+{
+  "path": "${input.filePath}",
+  "diff": "<unified diff>"
+}
+
+Return ONLY the JSON. No commentary, no explanation.
+`;
+}
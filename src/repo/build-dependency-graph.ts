@@ -0,0 +1,184 @@
+import fs from "node:fs";
+import path from "node:path";
+import ts from "typescript";
+
+import normalizePath from "@/utils/normalize-path";
+import type { DependencyGraph, SymbolTable } from "@/types/repo-index";
+
+const RESOLVE_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".d.ts"];
+
+type AliasConfig = {
+    /** Absolute baseUrl from the target repo's tsconfig/jsconfig, if any. */
+    baseUrl?: string;
+    /** `compilerOptions.paths` patterns, resolved relative to `baseUrl` (or the config folder). */
+    paths: { pattern: string; targets: string[] }[];
+};
+
+/**
+ * Reads `baseUrl` and `paths` from the target repo's tsconfig.json (or jsconfig.json),
+ * following `extends` and ignoring comments the way the TypeScript compiler does.
+ *
+ * @param repoRoot - Absolute path of the frontend repository.
+ * @returns The alias configuration, empty when no config file exists.
+ */
+function readAliasConfig(repoRoot: string): AliasConfig {
+    const configPath = ["tsconfig.json", "jsconfig.json"]
+        .map(f => path.join(repoRoot, f))
+        .find(f => fs.existsSync(f));
+
+    if (!configPath) return { paths: [] };
+
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error) {
+        console.warn(`⚠ Could not read ${configPath}: ${ts.flattenDiagnosticMessageText(error.messageText, "\n")}`);
+        return { paths: [] };
+    }
+
+    const { options } = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath));
+    const pathsBase = options.baseUrl ?? (options.pathsBasePath as string | undefined) ?? path.dirname(configPath);
+
+    return {
+        baseUrl: options.baseUrl,
+        paths: Object.entries(options.paths ?? {}).map(([pattern, targets]) => ({
+            pattern,
+            targets: targets.map(t => path.resolve(pathsBase, t)),
+        })),
+    };
+}
+
+/**
+ * Expands an import specifier into candidate absolute paths (without extensions),
+ * using relative resolution, tsconfig `paths` patterns and `baseUrl`.
+ *
+ * @returns The candidates, or an empty list for external packages.
+ */
+function candidateBases(specifier: string, importerAbs: string, aliases: AliasConfig): string[] {
+    if (specifier.startsWith(".")) {
+        return [path.resolve(path.dirname(importerAbs), specifier)];
+    }
+
+    const candidates: string[] = [];
+
+    for (const { pattern, targets } of aliases.paths) {
+        const star = pattern.indexOf("*");
+
+        if (star < 0) {
+            if (specifier === pattern) candidates.push(...targets);
+            continue;
+        }
+
+        const prefix = pattern.substring(0, star);
+        const suffix = pattern.substring(star + 1);
+        if (!specifier.startsWith(prefix) || !specifier.endsWith(suffix)) continue;
+
+        const matched = specifier.substring(prefix.length, specifier.length - suffix.length);
+        candidates.push(...targets.map(t => t.replace("*", matched)));
+    }
+
+    if (aliases.baseUrl) {
+        candidates.push(path.resolve(aliases.baseUrl, specifier));
+    }
+
+    return candidates;
+}
+
+/**
+ * Checks whether a specifier targets a tsconfig alias (e.g. `@/hooks/x` for `@/*`).
+ * Catch-all patterns such as `*` are ignored so packages like `react` never count as aliases.
+ */
+function isAliasSpecifier(specifier: string, aliases: AliasConfig): boolean {
+    return aliases.paths.some(({ pattern }) => {
+        const prefix = pattern.split("*")[0];
+        return prefix !== "" && (specifier === pattern || specifier.startsWith(prefix));
+    });
+}
+
+/**
+ * Resolves an import specifier to an indexed file, trying extensions and `index` files.
+ *
+ * @returns The relative path of the resolved file, or undefined.
+ */
+function resolveToIndexedFile(
+    base: string,
+    repoRoot: string,
+    indexed: Set<string>
+): string | undefined {
+    const rel = normalizePath(path.relative(repoRoot, base));
+
+    const options = [
+        rel,
+        ...RESOLVE_EXTENSIONS.map(ext => rel + ext),
+        ...RESOLVE_EXTENSIONS.map(ext => `${rel}/index${ext}`),
+    ];
+
+    return options.find(o => indexed.has(o));
+}
+
+/**
+ * Builds the import graph of the repository from the symbol table.
+ *
+ * Every import and re-export (`export ... from`) is resolved to an indexed file:
+ * relative specifiers against the importing file, others through the target repo's
+ * tsconfig `paths` and `baseUrl`. Specifiers that match none of these are treated as
+ * external packages; relative or alias specifiers that match no indexed file are
+ * listed under `unresolved`.
+ *
+ * @param repoRoot - Absolute path of the frontend repository.
+ * @param symbols - The symbol table produced by `extractSymbols` for every indexed file.
+ * @returns The dependency graph in both directions.
+ *
+ * @example
+ * const graph = buildDependencyGraph("/abs/frontend", symbols);
+ * graph.imports["src/components/alerts/alerts.jsx"];    // ["src/hooks/use-alert.ts", ...]
+ * graph.importedBy["src/hooks/use-alert.ts"];           // ["src/components/alerts/alerts.jsx", ...]
+ */
+export function buildDependencyGraph(repoRoot: string, symbols: SymbolTable): DependencyGraph {
+    const aliases = readAliasConfig(repoRoot);
+    const indexed = new Set(Object.keys(symbols.files));
+
+    const imports: Record<string, string[]> = {};
+    const importedBy: Record<string, string[]> = {};
+    const unresolved: Record<string, string[]> = {};
+
+    for (const [relPath, fileSymbols] of Object.entries(symbols.files)) {
+        const importerAbs = path.join(repoRoot, relPath);
+
+        const specifiers = new Set([
+            ...fileSymbols.imports.map(i => i.source),
+            ...fileSymbols.exports.map(e => e.from).filter((f): f is string => !!f),
+        ]);
+
+        const targets = new Set<string>();
+
+        for (const specifier of specifiers) {
+            const bases = candidateBases(specifier, importerAbs, aliases);
+            if (!bases.length) continue;
+
+            const resolved = bases
+                .map(b => resolveToIndexedFile(b, repoRoot, indexed))
+                .find((r): r is string => !!r);
+
+            if (resolved) {
+                if (resolved !== relPath) targets.add(resolved);
+            } else if (specifier.startsWith(".") || isAliasSpecifier(specifier, aliases)) {
+                (unresolved[relPath] ??= []).push(specifier);
+            }
+        }
+
+        imports[relPath] = Array.from(targets).sort();
+
+        for (const target of targets) {
+            (importedBy[target] ??= []).push(relPath);
+        }
+    }
+
+    for (const list of Object.values(importedBy)) list.sort();
+
+    return {
+        generatedAt: symbols.generatedAt,
+        root: repoRoot,
+        imports,
+        importedBy,
+        unresolved,
+    };
+}
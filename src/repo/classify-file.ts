@@ -1,49 +1,209 @@
-import type { RepoFileEntry } from "@/types/repo-index";
+import fs from "node:fs";
+import path from "node:path";
 
+import { env } from "@/config/env";
+import type { ClassificationRule, RepoFileEntry } from "@/types/repo-index";
+
+import { DEFAULT_CLASSIFICATION_RULES } from "./default-classification-rules";
+
+/**
+ * Every valid file type. Typed as a record so adding a type to `RepoFileEntry` without
+ * listing it here fails the type-check.
+ */
+const FILE_TYPES: Record<RepoFileEntry["type"], true> = {
+    "component": true,
+    "page": true,
+    "module-component": true,
+    "module-page": true,
+    "module-hook": true,
+    "module-utility": true,
+    "module-type": true,
+    "module-context": true,
+    "module-constant": true,
+    "hook": true,
+    "context": true,
+    "utility": true,
+    "shared-component": true,
+    "shared-constant": true,
+    "shared-hook": true,
+    "shared-utility": true,
+    "shared-type": true,
+    "shared-context": true,
+    "asset": true,
+    "constant": true,
+    "translation": true,
+    "route": true,
+    "util": true,
+    "workflow": true,
+    "test": true,
+    "type": true,
+    "config": true,
+    "unknown": true,
+};
+
+/**
+ * Shape of the rules file. A plain array of rules is accepted as well.
+ */
+type ClassificationRulesFile = {
+    /** Append the built-in preset after the custom rules (default `true`). */
+    includeDefaults?: boolean;
+    rules: ClassificationRule[];
+};
+
+type CompiledRule = {
+    rule: ClassificationRule;
+    /** Position of the rule in the ordered list (0-based). */
+    index: number;
+    matcher: RegExp;
+};
+
+/**
+ * Result of `explainClassification`.
+ */
+export type ClassificationExplanation = {
+    path: string;
+    type: RepoFileEntry["type"];
+    /** The rule that matched, or undefined when the file fell through to `unknown`. */
+    rule?: ClassificationRule;
+    /** Position of the matching rule in the ordered list (0-based). */
+    ruleIndex?: number;
+    /** Where the rules come from: the rules file path or `default preset`. */
+    source: string;
+};
+
+/**
+ * Converts a glob to an anchored regular expression.
+ * Supports `**` (any number of folders), `*` and `?` (within one segment) and `{a,b}`.
+ *
+ * @example
+ * globToRegExp("src/**\/use-*.ts").test("src/features/auth/use-auth.ts"); // true
+ */
+function globToRegExp(glob: string): RegExp {
+    let source = "";
+    // Commas only separate alternatives inside `{...}`; elsewhere they are literal.
+    let braceDepth = 0;
+
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+
+        if (char === "*" && glob[i + 1] === "*") {
+            const followedBySlash = glob[i + 2] === "/";
+            source += followedBySlash ? "(?:.*/)?" : ".*";
+            i += followedBySlash ? 2 : 1;
+        } else if (char === "*") {
+            source += "[^/]*";
+        } else if (char === "?") {
+            source += "[^/]";
+        } else if (char === "{") {
+            source += "(?:";
+            braceDepth++;
+        } else if (char === "}" && braceDepth > 0) {
+            source += ")";
+            braceDepth--;
+        } else if (char === "," && braceDepth > 0) {
+            source += "|";
+        } else {
+            source += char.replace(/[.+^$()|[\]{}\\]/g, "\\$&");
+        }
+    }
+
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Validates the rules and compiles their patterns.
+ *
+ * @throws {Error} If a rule has an unknown type, no pattern, both patterns, or an invalid regex
+ */
+function compileRules(rules: ClassificationRule[], source: string): CompiledRule[] {
+    return rules.map((rule, index) => {
+        const where = `Classification rule #${index + 1} in ${source}`;
+
+        if (!FILE_TYPES[rule.type]) {
+            throw new Error(`${where} has an unknown type "${rule.type}".`);
+        }
+
+        if (!!rule.glob === !!rule.regex) {
+            throw new Error(`${where} must define exactly one of "glob" or "regex".`);
+        }
+
+        try {
+            const matcher = rule.glob ? globToRegExp(rule.glob) : new RegExp(rule.regex!, rule.flags);
+            return { rule, index, matcher };
+        } catch (error) {
+            throw new Error(`${where} has an invalid pattern: ${(error as Error).message}`);
+        }
+    });
+}
+
+/**
+ * Loads the ordered classification rules from `CLASSIFICATION_RULES_PATH`
+ * (default `config/classification-rules.json`), falling back to the built-in preset.
+ *
+ * @returns The compiled rules and where they come from.
+ * @throws {Error} If the rules file exists but is not valid
+ */
+function loadClassificationRules(): { rules: CompiledRule[]; source: string } {
+    const rulesPath = path.resolve(process.cwd(), env.classificationRulesPath);
+
+    if (!fs.existsSync(rulesPath)) {
+        return { rules: compileRules(DEFAULT_CLASSIFICATION_RULES, "default preset"), source: "default preset" };
+    }
+
+    const parsed = JSON.parse(fs.readFileSync(rulesPath, "utf8")) as ClassificationRulesFile | ClassificationRule[];
+    const file: ClassificationRulesFile = Array.isArray(parsed) ? { rules: parsed } : parsed;
+
+    if (!Array.isArray(file.rules)) {
+        throw new Error(`${rulesPath} must contain a "rules" array.`);
+    }
+
+    const rules = file.includeDefaults === false
+        ? file.rules
+        : [...file.rules, ...DEFAULT_CLASSIFICATION_RULES];
+
+    return { rules: compileRules(rules, rulesPath), source: rulesPath };
+}
+
+let cachedRules: { rules: CompiledRule[]; source: string } | undefined;
+
+function getClassificationRules() {
+    cachedRules ??= loadClassificationRules();
+    return cachedRules;
+}
+
+/**
+ * Classifies a file and reports which rule decided its type.
+ *
+ * @param filePath - The relative path of the file (forward slashes).
+ * @returns The type, the matching rule and its position, or `unknown` with no rule.
+ *
+ * @example
+ * explainClassification("src/hooks/use-alert.ts");
+ * // { path: "src/hooks/use-alert.ts", type: "hook", rule: { type: "hook", regex: "/hooks/", flags: "i" }, ruleIndex: 18, source: "default preset" }
+ */
+export function explainClassification(filePath: string): ClassificationExplanation {
+    const { rules, source } = getClassificationRules();
+    const match = rules.find(r => r.matcher.test(filePath));
+
+    return {
+        path: filePath,
+        type: match?.rule.type ?? "unknown",
+        rule: match?.rule,
+        ruleIndex: match?.index,
+        source,
+    };
+}
+
+/**
+ * Classifies a file by its relative path using the ordered classification rules.
+ * The first matching rule wins; files matching no rule are `unknown`.
+ *
+ * @param filePath - The relative path of the file (forward slashes).
+ * @returns The file type.
+ *
+ * @example
+ * classifyFile("src/modules/shared/hooks/use-auth.ts"); // "shared-hook"
+ */
 export function classifyFile(filePath: string): RepoFileEntry["type"] {
-    const p = filePath.toLowerCase();
-
-    if (p.includes("/modules/shared/components/")) return "shared-component";
-    if (p.includes("/modules/shared/constants/")) return "shared-constant";
-    if (p.includes("/modules/shared/hooks/")) return "shared-hook";
-    if (p.includes("/modules/shared/utils/")) return "shared-utility";
-    if (p.includes("/modules/shared/types/")) return "shared-type";
-    if (p.includes("/modules/shared/contexts/")) return "shared-context";
-
-    if (p.includes("/modules/") && p.includes("/components/")) return "module-component";
-    if (p.includes("/modules/") && p.includes("/pages/")) return "module-page";
-    if (p.includes("/modules/") && p.includes("/hooks/")) return "module-hook";
-    if (p.includes("/modules/") && p.includes("/utils/")) return "module-utility";
-    if (p.includes("/modules/") && (p.includes("-types.ts") || p.includes("/types"))) return "module-type";
-    if (p.includes("/modules/") && p.includes("/contexts/")) return "module-context";
-    if (p.includes("/modules/") && p.includes("/constants")) return "module-constant";
-
-    if (p.includes("/assets/")) return "asset";
-    if (p.includes("/components/")) return "component";
-    if (p.includes("/constants/")) return "constant";
-    if (p.includes("/contexts/")) return "context";
-    if (p.includes("/hooks/")) return "hook";
-    if (p.includes("/i18n/")) return "translation";
-    if (p.includes("/routes/")) return "route";
-    if (p.includes("/utils/")) return "utility";
-    if (p.includes("/type/") || p.includes(".d.ts")) return "type";
-    if (p.includes("/workflows/")) return "workflow";
-    if (p.includes("cypress/") || p.includes("coverage/")) return "test";
-
-    if (p.includes("app.tsx") || p.includes("app-theme.tsx") || p.includes("src/index.ts")) return "component";
-
-    if (p.includes("eslint")
-        || p.includes("gitignore")
-        || p.includes("npmrc")
-        || p.includes("prettier")
-        || p.includes("yarnrc")
-        || p.includes("CLAUDE")
-        || p.includes("CODEOWNERS")
-        || p.includes(".config")
-        || p.includes("tsconfig")
-        || p.includes("setupTests")
-        || p.includes("instrument")
-    ) return "config";
-
-    return "unknown";
+    return explainClassification(filePath).type;
 }
@@ -0,0 +1,44 @@
+import type { ClassificationRule } from "@/types/repo-index";
+
+/**
+ * Built-in classification preset, used when no rules file exists.
+ * It reproduces the original hard-coded `classifyFile` checks, in the same order.
+ * All patterns are case-insensitive, so `CLAUDE`, `CODEOWNERS` and `setupTests` now match too.
+ */
+export const DEFAULT_CLASSIFICATION_RULES: ClassificationRule[] = [
+    { type: "shared-component", regex: "/modules/shared/components/", flags: "i" },
+    { type: "shared-constant", regex: "/modules/shared/constants/", flags: "i" },
+    { type: "shared-hook", regex: "/modules/shared/hooks/", flags: "i" },
+    { type: "shared-utility", regex: "/modules/shared/utils/", flags: "i" },
+    { type: "shared-type", regex: "/modules/shared/types/", flags: "i" },
+    { type: "shared-context", regex: "/modules/shared/contexts/", flags: "i" },
+
+    { type: "module-component", regex: "^(?=.*/modules/)(?=.*/components/)", flags: "i" },
+    { type: "module-page", regex: "^(?=.*/modules/)(?=.*/pages/)", flags: "i" },
+    { type: "module-hook", regex: "^(?=.*/modules/)(?=.*/hooks/)", flags: "i" },
+    { type: "module-utility", regex: "^(?=.*/modules/)(?=.*/utils/)", flags: "i" },
+    { type: "module-type", regex: "^(?=.*/modules/)(?=.*(-types\\.ts|/types))", flags: "i" },
+    { type: "module-context", regex: "^(?=.*/modules/)(?=.*/contexts/)", flags: "i" },
+    { type: "module-constant", regex: "^(?=.*/modules/)(?=.*/constants)", flags: "i" },
+
+    { type: "asset", regex: "/assets/", flags: "i" },
+    { type: "component", regex: "/components/", flags: "i" },
+    { type: "constant", regex: "/constants/", flags: "i" },
+    { type: "context", regex: "/contexts/", flags: "i" },
+    { type: "hook", regex: "/hooks/", flags: "i" },
+    { type: "translation", regex: "/i18n/", flags: "i" },
+    { type: "route", regex: "/routes/", flags: "i" },
+    { type: "utility", regex: "/utils/", flags: "i" },
+    { type: "type", regex: "/type/|\\.d\\.ts", flags: "i" },
+    { type: "workflow", regex: "/workflows/", flags: "i" },
+    { type: "test", regex: "cypress/|coverage/", flags: "i" },
+
+    { type: "component", regex: "app\\.tsx|app-theme\\.tsx|src/index\\.ts", flags: "i", description: "app entry points" },
+
+    {
+        type: "config",
+        regex: "eslint|gitignore|npmrc|prettier|yarnrc|CLAUDE|CODEOWNERS|\\.config|tsconfig|setupTests|instrument",
+        flags: "i",
+        description: "tooling and config files",
+    },
+];
@@ -0,0 +1,95 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import normalizePath from "@/utils/normalize-path";
+import type { DependencyGraph } from "@/types/repo-index";
+
+export const DEPENDENCY_GRAPH_PATH = path.resolve(process.cwd(), "generated/dependency-graph.json");
+
+/**
+ * A file reached while walking the dependency graph.
+ */
+export type GraphNeighbor = {
+    /** The relative path of the file. */
+    path: string;
+    /** Number of import hops from the starting file (1 = direct). */
+    depth: number;
+};
+
+/**
+ * Loads the dependency graph generated by `npm run index:repo`.
+ *
+ * @param graphPath - Path to the graph. Defaults to `generated/dependency-graph.json`.
+ * @returns The graph, or undefined (with a warning) when it has not been generated yet.
+ */
+export function loadDependencyGraph(graphPath: string = DEPENDENCY_GRAPH_PATH): DependencyGraph | undefined {
+    if (!fs.existsSync(graphPath)) {
+        console.warn("⚠ dependency-graph.json not found. Run 'npm run index:repo' to enable dependency lookups.");
+        return undefined;
+    }
+
+    return JSON.parse(fs.readFileSync(graphPath, "utf8")) as DependencyGraph;
+}
+
+/**
+ * Breadth-first walk over one direction of the graph, up to `maxDepth` hops.
+ */
+function walk(edges: Record<string, string[]>, start: string, maxDepth: number): GraphNeighbor[] {
+    const origin = normalizePath(start);
+    const seen = new Set([origin]);
+    const result: GraphNeighbor[] = [];
+    let frontier = [origin];
+
+    for (let depth = 1; depth <= maxDepth && frontier.length; depth++) {
+        const next: string[] = [];
+
+        for (const file of frontier) {
+            for (const neighbor of edges[file] ?? []) {
+                if (seen.has(neighbor)) continue;
+                seen.add(neighbor);
+                result.push({ path: neighbor, depth });
+                next.push(neighbor);
+            }
+        }
+
+        frontier = next;
+    }
+
+    return result;
+}
+
+/**
+ * Answers "who imports X": the files that import `filePath`, directly or transitively.
+ *
+ * @param graph - The dependency graph.
+ * @param filePath - The relative path of the file.
+ * @param options.depth - Maximum number of hops (default 1, direct importers only).
+ * @returns The importing files, nearest first.
+ *
+ * @example
+ * getDependents(graph, "src/hooks/use-alert.ts", { depth: 2 });
+ * // [{ path: "src/components/alerts/alerts.jsx", depth: 1 }, { path: "src/App.tsx", depth: 2 }]
+ */
+export function getDependents(
+    graph: DependencyGraph,
+    filePath: string,
+    options: { depth?: number } = {}
+): GraphNeighbor[] {
+    return walk(graph.importedBy, filePath, options.depth ?? 1);
+}
+
+/**
+ * Answers "what does X import": the repo files `filePath` imports, directly or transitively.
+ *
+ * @param graph - The dependency graph.
+ * @param filePath - The relative path of the file.
+ * @param options.depth - Maximum number of hops (default 1, direct imports only).
+ * @returns The imported files, nearest first.
+ */
+export function getDependencies(
+    graph: DependencyGraph,
+    filePath: string,
+    options: { depth?: number } = {}
+): GraphNeighbor[] {
+    return walk(graph.imports, filePath, options.depth ?? 1);
+}
@@ -0,0 +1,371 @@
+import ts from "typescript";
+
+import type {
+    ComponentInfo,
+    ExportedSymbol,
+    FileSymbols,
+    ImportRecord,
+    SymbolKind,
+} from "@/types/repo-index";
+
+const HOOK_NAME = /^use[A-Z0-9]/;
+const COMPONENT_NAME = /^[A-Z][A-Za-z0-9_]*$/;
+const COMPONENT_WRAPPERS = ["memo", "forwardRef", "observer", "styled"];
+
+/**
+ * Picks the TypeScript script kind from a file extension so JSX is parsed correctly.
+ */
+function scriptKindFor(filePath: string): ts.ScriptKind {
+    if (filePath.endsWith(".tsx")) return ts.ScriptKind.TSX;
+    if (filePath.endsWith(".jsx")) return ts.ScriptKind.JSX;
+    if (filePath.endsWith(".js")) return ts.ScriptKind.JS;
+    return ts.ScriptKind.TS;
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    return ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some(m => m.kind === kind);
+}
+
+/**
+ * Checks whether any descendant of a node is JSX.
+ */
+function containsJsx(node: ts.Node): boolean {
+    let found = false;
+
+    const visit = (n: ts.Node) => {
+        if (found) return;
+        if (ts.isJsxElement(n) || ts.isJsxSelfClosingElement(n) || ts.isJsxFragment(n)) {
+            found = true;
+            return;
+        }
+        ts.forEachChild(n, visit);
+    };
+
+    visit(node);
+    return found;
+}
+
+/**
+ * Returns the name of the called function, without the namespace (`React.memo` → `memo`).
+ */
+function calleeName(call: ts.CallExpression): string | undefined {
+    const callee = call.expression;
+    if (ts.isIdentifier(callee)) return callee.text;
+    if (ts.isPropertyAccessExpression(callee)) return callee.name.text;
+    // styled.div`...` / styled(Button)`...` are tagged templates, handled by the caller.
+    return undefined;
+}
+
+/**
+ * Unwraps `memo(...)`, `React.forwardRef(...)` and similar wrappers around a component.
+ *
+ * @returns The wrapped function (if inline), the wrapper call (for its type arguments) and the wrapped identifier.
+ */
+function unwrapComponent(expr: ts.Expression): {
+    fn?: ts.FunctionLikeDeclaration;
+    wrapper?: ts.CallExpression;
+    identifier?: string;
+} {
+    let current: ts.Expression = expr;
+    let wrapper: ts.CallExpression | undefined;
+
+    while (ts.isParenthesizedExpression(current) || ts.isAsExpression(current)) {
+        current = current.expression;
+    }
+
+    while (ts.isCallExpression(current) && COMPONENT_WRAPPERS.includes(calleeName(current) ?? "")) {
+        wrapper = wrapper ?? current;
+        const arg = current.arguments[0];
+        if (!arg) break;
+        current = arg;
+    }
+
+    if (ts.isArrowFunction(current) || ts.isFunctionExpression(current)) {
+        return { fn: current, wrapper };
+    }
+    if (ts.isIdentifier(current)) {
+        return { wrapper, identifier: current.text };
+    }
+    return { wrapper };
+}
+
+/**
+ * Collects the property names of a type node, resolving same-file interfaces and type aliases.
+ */
+function typeMembers(
+    typeNode: ts.TypeNode | undefined,
+    localTypes: Map<string, ts.InterfaceDeclaration | ts.TypeAliasDeclaration>,
+    depth = 0
+): string[] | undefined {
+    // Depth guard against aliases that reference each other.
+    if (!typeNode || depth > 5) return undefined;
+
+    const membersOf = (members: ts.NodeArray<ts.TypeElement>) =>
+        members
+            .map(m => (m.name && (ts.isIdentifier(m.name) || ts.isStringLiteral(m.name)) ? m.name.text : undefined))
+            .filter((n): n is string => !!n);
+
+    if (ts.isTypeLiteralNode(typeNode)) return membersOf(typeNode.members);
+
+    if (ts.isTypeReferenceNode(typeNode) && ts.isIdentifier(typeNode.typeName)) {
+        const decl = localTypes.get(typeNode.typeName.text);
+        if (decl && ts.isInterfaceDeclaration(decl)) return membersOf(decl.members);
+        if (decl && ts.isTypeAliasDeclaration(decl)) {
+            return typeMembers(decl.type, localTypes, depth + 1);
+        }
+    }
+
+    if (ts.isIntersectionTypeNode(typeNode)) {
+        const all = typeNode.types.flatMap(t => typeMembers(t, localTypes, depth + 1) ?? []);
+        return all.length ? all : undefined;
+    }
+
+    return undefined;
+}
+
+/**
+ * Finds the props type of a component from its first parameter, a `FC<Props>` annotation
+ * or the type arguments of `forwardRef<Ref, Props>` / `memo<Props>`.
+ */
+function propsTypeNode(
+    fn: ts.FunctionLikeDeclaration | undefined,
+    variableType: ts.TypeNode | undefined,
+    wrapper: ts.CallExpression | undefined
+): ts.TypeNode | undefined {
+    const param = fn?.parameters[0];
+    if (param?.type) return param.type;
+
+    if (variableType && ts.isTypeReferenceNode(variableType) && variableType.typeArguments?.length) {
+        return variableType.typeArguments[0];
+    }
+
+    if (wrapper?.typeArguments?.length) {
+        const isForwardRef = calleeName(wrapper) === "forwardRef";
+        return wrapper.typeArguments[isForwardRef ? 1 : 0];
+    }
+
+    return undefined;
+}
+
+/**
+ * Extracts the exported symbols, imports, React components (with their props) and
+ * hooks used by a source file, using the TypeScript compiler API.
+ *
+ * Handles function and arrow components, components wrapped in `memo`/`forwardRef`,
+ * default exports (named, anonymous or `export default Foo`), `export { a, b as c }`,
+ * re-exports, hooks, types, interfaces, enums and multiple exports per file.
+ *
+ * @param filePath - The file path (used to pick TS/TSX/JS/JSX parsing).
+ * @param content - The file content.
+ * @returns The symbols of the file.
+ *
+ * @example
+ * extractSymbols("src/button.tsx", "export const Button = memo(({ label }: Props) => <b>{label}</b>)");
+ * // {
+ * //   exports: [{ name: "Button", kind: "component", isDefault: false, line: 1 }],
+ * //   imports: [],
+ * //   components: [{ name: "Button", propsType: "Props" }],
+ * //   hooksUsed: []
+ * // }
+ */
+export function extractSymbols(filePath: string, content: string): FileSymbols {
+    const source = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, scriptKindFor(filePath));
+
+    const exportsList: ExportedSymbol[] = [];
+    const imports: ImportRecord[] = [];
+    const components: ComponentInfo[] = [];
+    const hooksUsed = new Set<string>();
+
+    const lineOf = (node: ts.Node) => source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1;
+
+    const localTypes = new Map<string, ts.InterfaceDeclaration | ts.TypeAliasDeclaration>();
+    const localKinds = new Map<string, SymbolKind>();
+    const localComponents = new Map<string, ComponentInfo>();
+
+    const describeComponent = (
+        name: string,
+        fn: ts.FunctionLikeDeclaration | undefined,
+        variableType: ts.TypeNode | undefined,
+        wrapper: ts.CallExpression | undefined
+    ): ComponentInfo => {
+        const typeNode = propsTypeNode(fn, variableType, wrapper);
+        const info: ComponentInfo = { name };
+        if (typeNode) {
+            info.propsType = typeNode.getText(source);
+            const members = typeMembers(typeNode, localTypes);
+            if (members) info.propsMembers = members;
+        }
+        return info;
+    };
+
+    const kindOfFunction = (name: string, fn: ts.Node): SymbolKind => {
+        if (HOOK_NAME.test(name)) return "hook";
+        if (COMPONENT_NAME.test(name) && containsJsx(fn)) return "component";
+        return "function";
+    };
+
+    const kindOfVariable = (decl: ts.VariableDeclaration): SymbolKind => {
+        if (!ts.isIdentifier(decl.name) || !decl.initializer) return "variable";
+        const name = decl.name.text;
+        const { fn, wrapper } = unwrapComponent(decl.initializer);
+
+        if (wrapper && COMPONENT_NAME.test(name)) return "component";
+        if (fn) return kindOfFunction(name, fn);
+        if (ts.isTaggedTemplateExpression(decl.initializer) && COMPONENT_NAME.test(name)) return "component";
+        return "variable";
+    };
+
+    // Pass 1: local types first (props types may be declared after the component),
+    // then the other local declarations, so `export { X }` and `export default X` can be resolved.
+    for (const stmt of source.statements) {
+        if (ts.isInterfaceDeclaration(stmt) || ts.isTypeAliasDeclaration(stmt)) {
+            localTypes.set(stmt.name.text, stmt);
+            localKinds.set(stmt.name.text, ts.isInterfaceDeclaration(stmt) ? "interface" : "type");
+        }
+    }
+
+    for (const stmt of source.statements) {
+        if (ts.isEnumDeclaration(stmt)) {
+            localKinds.set(stmt.name.text, "enum");
+        } else if (ts.isClassDeclaration(stmt) && stmt.name) {
+            localKinds.set(stmt.name.text, "class");
+        } else if (ts.isFunctionDeclaration(stmt) && stmt.name) {
+            const kind = kindOfFunction(stmt.name.text, stmt);
+            localKinds.set(stmt.name.text, kind);
+            if (kind === "component") {
+                localComponents.set(stmt.name.text, describeComponent(stmt.name.text, stmt, undefined, undefined));
+            }
+        } else if (ts.isVariableStatement(stmt)) {
+            for (const decl of stmt.declarationList.declarations) {
+                if (!ts.isIdentifier(decl.name)) continue;
+                const kind = kindOfVariable(decl);
+                localKinds.set(decl.name.text, kind);
+                if (kind === "component" && decl.initializer) {
+                    const { fn, wrapper } = unwrapComponent(decl.initializer);
+                    localComponents.set(decl.name.text, describeComponent(decl.name.text, fn, decl.type, wrapper));
+                }
+            }
+        }
+    }
+
+    const addExport = (symbol: ExportedSymbol, componentName?: string) => {
+        exportsList.push(symbol);
+        if (symbol.kind !== "component") return;
+
+        const info = localComponents.get(componentName ?? symbol.name) ?? { name: componentName ?? symbol.name };
+        if (!components.some(c => c.name === info.name)) components.push(info);
+    };
+
+    // Pass 2: imports and exports.
+    for (const stmt of source.statements) {
+        if (ts.isImportDeclaration(stmt) && ts.isStringLiteral(stmt.moduleSpecifier)) {
+            const clause = stmt.importClause;
+            const names: string[] = [];
+
+            if (clause?.name) names.push("default");
+            if (clause?.namedBindings) {
+                if (ts.isNamespaceImport(clause.namedBindings)) {
+                    names.push(`* as ${clause.namedBindings.name.text}`);
+                } else {
+                    for (const el of clause.namedBindings.elements) {
+                        names.push((el.propertyName ?? el.name).text);
+                    }
+                }
+            }
+
+            imports.push({
+                source: stmt.moduleSpecifier.text,
+                names,
+                isTypeOnly: !!clause?.isTypeOnly,
+            });
+            continue;
+        }
+
+        if (ts.isExportDeclaration(stmt)) {
+            const from = stmt.moduleSpecifier && ts.isStringLiteral(stmt.moduleSpecifier)
+                ? stmt.moduleSpecifier.text
+                : undefined;
+
+            if (!stmt.exportClause) {
+                addExport({ name: "*", kind: "re-export", isDefault: false, line: lineOf(stmt), from });
+            } else if (ts.isNamedExports(stmt.exportClause)) {
+                for (const el of stmt.exportClause.elements) {
+                    const localName = (el.propertyName ?? el.name).text;
+                    const exportedName = el.name.text;
+                    const fallback: SymbolKind = stmt.isTypeOnly || el.isTypeOnly ? "type" : "variable";
+                    const kind = from ? "re-export" : (localKinds.get(localName) ?? fallback);
+                    addExport({
+                        name: exportedName,
+                        kind,
+                        isDefault: exportedName === "default",
+                        line: lineOf(el),
+                        ...(from ? { from } : {}),
+                    }, localName);
+                }
+            } else {
+                addExport({ name: stmt.exportClause.name.text, kind: "re-export", isDefault: false, line: lineOf(stmt), from });
+            }
+            continue;
+        }
+
+        if (ts.isExportAssignment(stmt) && !stmt.isExportEquals) {
+            const expr = stmt.expression;
+
+            if (ts.isIdentifier(expr)) {
+                addExport({ name: expr.text, kind: localKinds.get(expr.text) ?? "variable", isDefault: true, line: lineOf(stmt) });
+            } else {
+                const { fn, wrapper, identifier } = unwrapComponent(expr);
+                if (identifier && wrapper) {
+                    addExport({ name: identifier, kind: "component", isDefault: true, line: lineOf(stmt) });
+                } else if (fn && containsJsx(fn)) {
+                    components.push(describeComponent("default", fn, undefined, wrapper));
+                    exportsList.push({ name: "default", kind: "component", isDefault: true, line: lineOf(stmt) });
+                } else {
+                    addExport({ name: "default", kind: fn ? "function" : "variable", isDefault: true, line: lineOf(stmt) });
+                }
+            }
+            continue;
+        }
+
+        if (!hasModifier(stmt, ts.SyntaxKind.ExportKeyword)) continue;
+
+        const isDefault = hasModifier(stmt, ts.SyntaxKind.DefaultKeyword);
+
+        if (ts.isFunctionDeclaration(stmt)) {
+            const name = stmt.name?.text;
+            if (name) {
+                addExport({ name, kind: localKinds.get(name) ?? "function", isDefault, line: lineOf(stmt) });
+            } else {
+                const kind: SymbolKind = containsJsx(stmt) ? "component" : "function";
+                if (kind === "component") components.push(describeComponent("default", stmt, undefined, undefined));
+                exportsList.push({ name: "default", kind, isDefault, line: lineOf(stmt) });
+            }
+        } else if (ts.isClassDeclaration(stmt)) {
+            addExport({ name: stmt.name?.text ?? "default", kind: "class", isDefault, line: lineOf(stmt) });
+        } else if (ts.isInterfaceDeclaration(stmt) || ts.isTypeAliasDeclaration(stmt) || ts.isEnumDeclaration(stmt)) {
+            addExport({ name: stmt.name.text, kind: localKinds.get(stmt.name.text) ?? "type", isDefault, line: lineOf(stmt) });
+        } else if (ts.isVariableStatement(stmt)) {
+            for (const decl of stmt.declarationList.declarations) {
+                if (!ts.isIdentifier(decl.name)) continue;
+                addExport({ name: decl.name.text, kind: localKinds.get(decl.name.text) ?? "variable", isDefault, line: lineOf(decl) });
+            }
+        }
+    }
+
+    // Hooks used anywhere in the file.
+    const visit = (node: ts.Node) => {
+        if (ts.isCallExpression(node)) {
+            const name = calleeName(node);
+            if (name && HOOK_NAME.test(name)) hooksUsed.add(name);
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(source);
+
+    return {
+        exports: exportsList,
+        imports,
+        components,
+        hooksUsed: Array.from(hooksUsed).sort(),
+    };
+}
@@ -6,26 +6,64 @@ import normalizePath from "@/utils/normalize-path";
 import type { RepoIndex } from "@/types/repo-index";
 import type { LoadedFile } from "@/types/loaded-file";
 
+import { printIndexChangeSummary, REPO_INDEX_PATH, updateRepoIndex } from "./update-repo-index";
+
 if (!env.frontendRepoPath)
     throw new Error("FRONTEND_REPO_PATH missing in .env");
 
 const repoRootPath = path.resolve(env.frontendRepoPath);
-const indexJsonPath = path.resolve(process.cwd(), "generated/repo-index.json");
 
 let repoIndex: RepoIndex;
 
 try {
-    if (!fs.existsSync(indexJsonPath)) {
-        throw new Error("repo-index.json not found. Run 'npm run index:repo' first.");
+    if (!fs.existsSync(REPO_INDEX_PATH)) {
+        console.log("📁 repo-index.json not found, indexing the repository...");
+        repoIndex = updateRepoIndex(repoRootPath).index;
+    } else {
+        const raw = fs.readFileSync(REPO_INDEX_PATH, "utf8");
+        repoIndex = JSON.parse(raw) as RepoIndex;
     }
-
-    const raw = fs.readFileSync(indexJsonPath, "utf8");
-    repoIndex = JSON.parse(raw) as RepoIndex;
 } catch (error) {
     console.error("❌ Failed to load repo index:", error);
     process.exit(1);
 }
 
+/**
+ * Checks whether the index entry of a file disagrees with the file on disk:
+ * the file is indexed but missing or modified, or exists but is not indexed.
+ *
+ * @param relPath - The relative path of the file to check
+ * @returns `true` if the index no longer reflects this file.
+ */
+function isStaleInRepoIndex(relPath: string) {
+    const entry = repoIndex.files.find(f => normalizePath(f.path) === normalizePath(relPath));
+    const absPath = path.join(repoRootPath, relPath);
+
+    if (!fs.existsSync(absPath)) return !!entry;
+    if (!entry) return true;
+
+    const stat = fs.statSync(absPath);
+    return entry.size !== stat.size || entry.lastModified !== stat.mtimeMs;
+}
+
+/**
+ * Re-indexes the repository when any of the given paths is out of date in the index,
+ * so files changed since the last `npm run index:repo` are not mistaken for hallucinations.
+ * Only added, changed or deleted files are re-processed.
+ *
+ * @param paths - Array of relative file paths about to be used
+ */
+function refreshRepoIndexIfStale(paths: string[]) {
+    if (!paths.some(isStaleInRepoIndex)) return;
+
+    console.log("🔄 repo-index.json is stale, re-indexing changed files...");
+
+    const { index, summary } = updateRepoIndex(repoRootPath);
+    printIndexChangeSummary(summary);
+
+    repoIndex = index;
+}
+
 /**
  * Verifies that a file exists in the pre-loaded repository index.
  * This acts as a safeguard against "hallucinated" file paths from the AI planner.
@@ -48,9 +86,72 @@ function fileExistsInRepoIndex(relPath: string) {
     }
 }
 
+/**
+ * Checks whether at least one indexed file lives under the given directory.
+ *
+ * @param relDir - The relative directory path (without trailing slash). An empty string means the repo root.
+ * @returns `true` if the directory is known to the repo index.
+ */
+function directoryExistsInRepoIndex(relDir: string) {
+    if (!relDir) return true;
+
+    const prefix = normalizePath(relDir) + "/";
+    return repoIndex.files.some(f => normalizePath(f.path).startsWith(prefix));
+}
+
+/**
+ * Validates the paths of files the planner wants to create.
+ * This mirrors `fileExistsInRepoIndex` for new files: a new file must not exist yet,
+ * must stay inside the repository, and must be placed next to code the index knows about.
+ *
+ * A new file is accepted when its parent directory, or the parent of that directory,
+ * already contains indexed files. This allows `src/hooks/use-foo.ts` as well as
+ * a new component folder such as `src/components/foo/foo.tsx`, but rejects invented trees.
+ *
+ * @param paths - Array of relative file paths to create
+ * @throws {Error} If a path escapes the repo, already exists, or has an unknown parent directory
+ *
+ * @example
+ * validateFilesToCreate(["src/hooks/use-debounce.ts"]); // Passes if src/hooks/ is indexed
+ * validateFilesToCreate(["src/App.tsx"]); // Throws Error (already exists)
+ */
+export function validateFilesToCreate(paths: string[]) {
+    refreshRepoIndexIfStale(paths);
+
+    for (const relPath of paths) {
+        const normalized = normalizePath(path.posix.normalize(normalizePath(relPath)));
+
+        if (path.isAbsolute(relPath) || normalized.startsWith("../")) {
+            throw new Error(`File to create is outside the repository: ${relPath}`);
+        }
+
+        const existsInIndex = repoIndex.files.some(f => normalizePath(f.path) === normalized);
+        if (existsInIndex || fs.existsSync(path.join(repoRootPath, normalized))) {
+            throw new Error(
+                `File to create already exists: ${relPath}\n` +
+                'It should be listed in filesToModify instead.'
+            );
+        }
+
+        const parentDir = path.posix.dirname(normalized);
+        const grandParentDir = path.posix.dirname(parentDir);
+
+        if (
+            !directoryExistsInRepoIndex(parentDir === "." ? "" : parentDir) &&
+            !directoryExistsInRepoIndex(grandParentDir === "." ? "" : grandParentDir)
+        ) {
+            throw new Error(
+                `Parent directory of file to create not found in repo-index.json: ${relPath}\n` +
+                'The planner may have hallucinated this location.'
+            );
+        }
+    }
+}
+
 /**
  * Loads real content of multiple files from the repository.
- * Validates that each file exists in the index and physically on disk.
+ * Validates that each file exists in the index and physically on disk,
+ * refreshing the index first if any of the files changed since it was built.
  * It's:
  *  - Loads file content from disk
  *  - Rejects non-indexed files
@@ -71,6 +172,8 @@ function fileExistsInRepoIndex(relPath: string) {
 export async function loadRepoFiles(paths: string[]): Promise<LoadedFile[]> {
     const results: LoadedFile[] = [];
 
+    refreshRepoIndexIfStale(paths);
+
     for (const relPath of paths) {
         fileExistsInRepoIndex(relPath);
 
@@ -0,0 +1,103 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import type { ComponentInfo, ExportedSymbol, SymbolKind, SymbolTable } from "@/types/repo-index";
+
+export const SYMBOL_INDEX_PATH = path.resolve(process.cwd(), "generated/symbol-index.json");
+
+/**
+ * An exported symbol together with the file that exports it.
+ */
+export type SymbolMatch = {
+    path: string;
+    symbol: ExportedSymbol;
+};
+
+/**
+ * Loads the symbol table generated by `npm run index:repo`.
+ *
+ * @param indexPath - Path to the symbol index. Defaults to `generated/symbol-index.json`.
+ * @returns The parsed symbol table.
+ * @throws {Error} If the symbol index does not exist.
+ */
+export function loadSymbolTable(indexPath: string = SYMBOL_INDEX_PATH): SymbolTable {
+    if (!fs.existsSync(indexPath)) {
+        throw new Error("symbol-index.json not found. Run 'npm run index:repo' first.");
+    }
+
+    return JSON.parse(fs.readFileSync(indexPath, "utf8")) as SymbolTable;
+}
+
+/**
+ * Finds every exported symbol with the given name.
+ *
+ * @example
+ * findSymbol(table, "useAuth");
+ * // [{ path: "src/hooks/use-auth.ts", symbol: { name: "useAuth", kind: "hook", isDefault: false, line: 12 } }]
+ */
+export function findSymbol(table: SymbolTable, name: string): SymbolMatch[] {
+    const matches: SymbolMatch[] = [];
+
+    for (const [filePath, symbols] of Object.entries(table.files)) {
+        for (const symbol of symbols.exports) {
+            if (symbol.name === name) matches.push({ path: filePath, symbol });
+        }
+    }
+
+    return matches;
+}
+
+/**
+ * Lists every exported symbol of the given kind (e.g. all hooks, all components).
+ */
+export function findSymbolsByKind(table: SymbolTable, kind: SymbolKind): SymbolMatch[] {
+    const matches: SymbolMatch[] = [];
+
+    for (const [filePath, symbols] of Object.entries(table.files)) {
+        for (const symbol of symbols.exports) {
+            if (symbol.kind === kind) matches.push({ path: filePath, symbol });
+        }
+    }
+
+    return matches;
+}
+
+/**
+ * Finds a React component by name, with its props information.
+ *
+ * @example
+ * findComponent(table, "Button");
+ * // [{ path: "src/components/button.tsx", component: { name: "Button", propsType: "ButtonProps", propsMembers: ["label"] } }]
+ */
+export function findComponent(table: SymbolTable, name: string): { path: string; component: ComponentInfo }[] {
+    const matches: { path: string; component: ComponentInfo }[] = [];
+
+    for (const [filePath, symbols] of Object.entries(table.files)) {
+        for (const component of symbols.components) {
+            if (component.name === name) matches.push({ path: filePath, component });
+        }
+    }
+
+    return matches;
+}
+
+/**
+ * Lists the files that call the given hook.
+ *
+ * @example
+ * findFilesUsingHook(table, "useAlert"); // ["src/components/alerts/alerts.jsx", ...]
+ */
+export function findFilesUsingHook(table: SymbolTable, hookName: string): string[] {
+    return Object.entries(table.files)
+        .filter(([, symbols]) => symbols.hooksUsed.includes(hookName))
+        .map(([filePath]) => filePath);
+}
+
+/**
+ * Lists the files that import from a module specifier (as written, e.g. `react` or `@/hooks/use-auth`).
+ */
+export function findFilesImporting(table: SymbolTable, source: string): string[] {
+    return Object.entries(table.files)
+        .filter(([, symbols]) => symbols.imports.some(i => i.source === source))
+        .map(([filePath]) => filePath);
+}
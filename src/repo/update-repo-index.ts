@@ -0,0 +1,240 @@
+import fs from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+
+import type { DependencyGraph, RepoIndex, RepoFileEntry, SymbolTable } from "@/types/repo-index";
+
+import { classifyFile } from "./classify-file";
+import { extractSymbols } from "./extract-symbols";
+import { SYMBOL_INDEX_PATH } from "./symbol-table";
+import { DEPENDENCY_GRAPH_PATH } from "./dependency-graph";
+import { buildDependencyGraph } from "./build-dependency-graph";
+
+export const REPO_INDEX_PATH = path.resolve(process.cwd(), "generated/repo-index.json");
+
+const CODE_EXT = [".ts", ".tsx", ".js", ".jsx"];
+
+/**
+ * Files added, changed and deleted since the previous index.
+ */
+export type IndexChangeSummary = {
+    added: string[];
+    changed: string[];
+    deleted: string[];
+    /** Number of files whose content hash did not change. */
+    unchanged: number;
+};
+
+function scanDirectory(dir: string): string[] {
+    let results: string[] = [];
+
+    for (const item of fs.readdirSync(dir)) {
+        const full = path.join(dir, item);
+        const stat = fs.statSync(full);
+
+        if (stat.isDirectory()) {
+            if (
+                ["node_modules", "dist", "build", ".next", ".git", ".claude", ".github", "husk", ".nyc_output", ".vscode", "coverage"].some((skip) =>
+                    full.includes(skip)
+                )
+            ) {
+                continue;
+            }
+
+            results = results.concat(scanDirectory(full));
+        } else {
+            if (CODE_EXT.includes(path.extname(item))) {
+                results.push(full);
+            }
+        }
+    }
+
+    return results;
+}
+
+function hashContent(content: string): string {
+    return crypto.createHash("sha1").update(content).digest("hex");
+}
+
+/**
+ * Reads a generated JSON file, returning undefined when it is missing or unreadable.
+ */
+function readJson<T>(filePath: string): T | undefined {
+    try {
+        return JSON.parse(fs.readFileSync(filePath, "utf8")) as T;
+    } catch {
+        return undefined;
+    }
+}
+
+function writeJson(filePath: string, data: unknown) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
+}
+
+/**
+ * Builds or incrementally refreshes `repo-index.json`, `symbol-index.json` and
+ * `dependency-graph.json` for the frontend repository.
+ *
+ * Every file gets a content hash. On later runs a file is only read again when its size
+ * or mtime changed, and only re-parsed when its hash changed; unchanged files keep their
+ * previous symbols. Files missing from disk are dropped. The type is always recomputed
+ * with `classifyFile` since it only depends on the path.
+ *
+ * When no file was added, changed or deleted and no type changed, only `repo-index.json` is
+ * written, and only if a file's size or mtime changed without its content.
+ *
+ * @param repoRoot - Absolute path of the frontend repository.
+ * @param options.full - Ignore the previous index and re-process every file.
+ * @param options.dryRun - Compute the summary without writing anything.
+ * @returns The up-to-date index and a summary of what changed.
+ *
+ * @example
+ * const { summary } = updateRepoIndex("/abs/frontend");
+ * // { added: ["src/hooks/use-foo.ts"], changed: [], deleted: [], unchanged: 412 }
+ */
+export function updateRepoIndex(
+    repoRoot: string,
+    options: { full?: boolean; dryRun?: boolean } = {}
+): { index: RepoIndex; summary: IndexChangeSummary } {
+    const previousIndex = options.full ? undefined : readJson<RepoIndex>(REPO_INDEX_PATH);
+    const previousSymbols = options.full ? undefined : readJson<SymbolTable>(SYMBOL_INDEX_PATH);
+
+    // Previous results are only reusable for the same repository and when the symbols exist.
+    const canReuse = !!previousIndex && !!previousSymbols && previousIndex.root === repoRoot;
+    const previousEntries = new Map(
+        (canReuse ? previousIndex.files : []).map(f => [f.path, f])
+    );
+
+    const summary: IndexChangeSummary = { added: [], changed: [], deleted: [], unchanged: 0 };
+    // Types depend on the classification rules, which may change without any file changing.
+    let typesChanged = false;
+    // Files touched without a content change (checkout, `touch`): only their size and mtime are updated.
+    let statsChanged = false;
+    const entries: RepoFileEntry[] = [];
+    const symbolFiles: SymbolTable["files"] = {};
+
+    for (const absPath of scanDirectory(repoRoot)) {
+        const relPath = path
+            .relative(repoRoot, absPath)
+            .replace(/\\/g, "/");
+
+        const stat = fs.statSync(absPath);
+        const type = classifyFile(relPath);
+        const previous = previousEntries.get(relPath);
+        const previousFileSymbols = previousSymbols?.files[relPath];
+
+        if (previous && previous.type !== type) typesChanged = true;
+
+        if (
+            previous?.hash && previousFileSymbols &&
+            previous.size === stat.size && previous.lastModified === stat.mtimeMs
+        ) {
+            entries.push({ ...previous, type });
+            symbolFiles[relPath] = previousFileSymbols;
+            summary.unchanged++;
+            continue;
+        }
+
+        const content = fs.readFileSync(absPath, "utf8");
+        const hash = hashContent(content);
+
+        if (previous?.hash === hash && previousFileSymbols) {
+            statsChanged = true;
+            entries.push({ ...previous, type, size: stat.size, lastModified: stat.mtimeMs });
+            symbolFiles[relPath] = previousFileSymbols;
+            summary.unchanged++;
+            continue;
+        }
+
+        const symbols = extractSymbols(relPath, content);
+        const componentName = symbols.components.find(c => c.name !== "default")?.name;
+
+        symbolFiles[relPath] = symbols;
+
+        entries.push({
+            path: relPath,
+            type,
+            size: stat.size,
+            lastModified: stat.mtimeMs,
+            hash,
+            componentName,
+        });
+
+        (previous ? summary.changed : summary.added).push(relPath);
+    }
+
+    for (const relPath of previousEntries.keys()) {
+        if (!symbolFiles[relPath]) summary.deleted.push(relPath);
+    }
+
+    const hasChanges = !canReuse || typesChanged || summary.added.length + summary.changed.length + summary.deleted.length > 0;
+
+    if (!hasChanges && previousIndex) {
+        const index = { ...previousIndex, files: entries };
+
+        // Saved so `isStaleInRepoIndex` compares against the current sizes and mtimes.
+        if (statsChanged && !options.dryRun) writeJson(REPO_INDEX_PATH, index);
+
+        return { index, summary };
+    }
+
+    const generatedAt = new Date().toISOString();
+
+    const index: RepoIndex = {
+        generatedAt,
+        root: repoRoot,
+        files: entries,
+    };
+
+    if (options.dryRun) {
+        return { index, summary };
+    }
+
+    const symbols: SymbolTable = {
+        generatedAt,
+        root: repoRoot,
+        files: symbolFiles,
+    };
+
+    const graph: DependencyGraph = buildDependencyGraph(repoRoot, symbols);
+
+    writeJson(REPO_INDEX_PATH, index);
+    writeJson(SYMBOL_INDEX_PATH, symbols);
+    writeJson(DEPENDENCY_GRAPH_PATH, graph);
+
+    const unresolvedCount = Object.values(graph.unresolved).reduce((n, list) => n + list.length, 0);
+    if (unresolvedCount) {
+        console.warn(`⚠ ${unresolvedCount} relative/alias imports could not be resolved (see "unresolved").`);
+    }
+
+    return { index, summary };
+}
+
+/**
+ * Prints the files added, changed and deleted by `updateRepoIndex`.
+ *
+ * @param summary - The change summary to print.
+ *
+ * @example
+ * printIndexChangeSummary(summary);
+ * // 📊 Index changes: +1 added, ~2 changed, -0 deleted, =412 unchanged
+ * //   + src/hooks/use-foo.ts
+ * //   ~ src/App.tsx
+ */
+export function printIndexChangeSummary(summary: IndexChangeSummary) {
+    console.log(
+        `📊 Index changes: +${summary.added.length} added, ~${summary.changed.length} changed, ` +
+        `-${summary.deleted.length} deleted, =${summary.unchanged} unchanged`
+    );
+
+    const lines = [
+        ...summary.added.map(p => `  + ${p}`),
+        ...summary.changed.map(p => `  ~ ${p}`),
+        ...summary.deleted.map(p => `  - ${p}`),
+    ];
+
+    const MAX_LINES = 50;
+    for (const line of lines.slice(0, MAX_LINES)) console.log(line);
+    if (lines.length > MAX_LINES) console.log(`  ... and ${lines.length - MAX_LINES} more`);
+}
@@ -0,0 +1,186 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import normalizePath from "@/utils/normalize-path";
+import { tokenize } from "@/retrieval/findRelevantFiles";
+import type { RepoFileEntry, RepoIndex } from "@/types/repo-index";
+import type { PlannerImplementation } from "@/types/plannerTypes";
+
+import { REPO_INDEX_PATH } from "./update-repo-index";
+
+/** Maximum number of close matches suggested for an unknown path. */
+const MAX_SUGGESTIONS = 3;
+
+/** Minimum path similarity (0-1) for a file or directory to be suggested. */
+const MIN_SIMILARITY = 0.75;
+
+/**
+ * A path of the plan that does not resolve, with the closest real paths.
+ */
+export type PlanPathIssue = {
+    list: "filesToModify" | "filesToCreate";
+    path: string;
+    problem: string;
+    /** Indexed files (or, for files to create, directories) that look like what was meant. */
+    suggestions: string[];
+};
+
+/**
+ * Formats an issue as one line, for logs and for the planner feedback.
+ *
+ * @example
+ * formatPlanPathIssue(issue);
+ * // "implementation.filesToModify: src/components/UserAvatar.tsx is not in the repository. Did you mean: src/components/user-avatar/user-avatar.tsx?"
+ */
+export function formatPlanPathIssue(issue: PlanPathIssue): string {
+    const hint = issue.suggestions.length ? ` Did you mean: ${issue.suggestions.join(", ")}?` : "";
+    return `implementation.${issue.list}: ${issue.path} ${issue.problem}.${hint}`;
+}
+
+function levenshtein(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+
+        previous = current;
+    }
+
+    return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+    const max = Math.max(a.length, b.length);
+    return max ? 1 - levenshtein(a.toLowerCase(), b.toLowerCase()) / max : 1;
+}
+
+/**
+ * The name a file is known by: its base name without extension, or its folder for
+ * `index` files, as search terms (`UserAvatar.tsx` and `user-avatar/index.ts` → "user avatar").
+ */
+function fileNameKey(relPath: string): string {
+    const parsed = path.posix.parse(relPath);
+    const name = parsed.name === "index" ? path.posix.basename(parsed.dir) : parsed.name;
+    return tokenize(name).join(" ");
+}
+
+/**
+ * Ranks indexed files by likeness to an unknown path: files with the same name or component
+ * name come first, then files whose path is at least `MIN_SIMILARITY` similar.
+ */
+function suggestFiles(relPath: string, files: RepoFileEntry[]): string[] {
+    const key = fileNameKey(relPath);
+
+    return files
+        .map(f => {
+            const candidate = normalizePath(f.path);
+            const sameName = !!key && (fileNameKey(candidate) === key || tokenize(f.componentName ?? "").join(" ") === key);
+            return { path: candidate, score: similarity(relPath, candidate) + (sameName ? 1 : 0) };
+        })
+        .filter(c => c.score >= MIN_SIMILARITY)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_SUGGESTIONS)
+        .map(c => c.path);
+}
+
+function suggestDirectories(relDir: string, directories: Set<string>): string[] {
+    return Array.from(directories)
+        .map(d => ({ path: `${d}/`, score: similarity(relDir, d) }))
+        .filter(c => c.score >= MIN_SIMILARITY)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_SUGGESTIONS)
+        .map(c => c.path);
+}
+
+/**
+ * Checks the files of a plan against `repo-index.json` as soon as the plan is generated,
+ * before anything is saved or executed.
+ *
+ * - A file to modify must be indexed (or exist on disk, for files added since the last index).
+ * - A file to create must stay inside the repository, must not exist yet, and its parent
+ *   directory, or the parent of that directory, must contain indexed files. This mirrors
+ *   `validateFilesToCreate`, which checks the same rules again before execution.
+ *
+ * Unknown paths come with suggestions: indexed files with the same name or component name,
+ * or a similar path, and similar directories for misplaced new files.
+ *
+ * @param implementation - The `implementation` section of the plan.
+ * @param indexPath - Path to the repo index. Defaults to `generated/repo-index.json`.
+ * @returns One issue per path that does not resolve, or `undefined` (with a warning) when the
+ *          repository has not been indexed, so planning can still run without an index.
+ *
+ * @example
+ * validatePlanPaths({ ...implementation, filesToModify: ["src/components/UserAvatar.tsx"] });
+ * // [{ list: "filesToModify", path: "src/components/UserAvatar.tsx", problem: "is not in the repository",
+ * //    suggestions: ["src/components/user-avatar/user-avatar.tsx"] }]
+ */
+export function validatePlanPaths(
+    implementation: Pick<PlannerImplementation, "filesToModify" | "filesToCreate">,
+    indexPath: string = REPO_INDEX_PATH
+): PlanPathIssue[] | undefined {
+    if (!fs.existsSync(indexPath)) {
+        console.warn("⚠ repo-index.json not found. The paths of the plan were not checked.");
+        return undefined;
+    }
+
+    const index = JSON.parse(fs.readFileSync(indexPath, "utf8")) as RepoIndex;
+    const indexed = new Set(index.files.map(f => normalizePath(f.path)));
+    const directories = new Set(Array.from(indexed, p => path.posix.dirname(p)).filter(d => d !== "."));
+    const existsOnDisk = (relPath: string) => fs.existsSync(path.join(index.root, relPath));
+
+    const issues: PlanPathIssue[] = [];
+
+    for (const relPath of implementation.filesToModify) {
+        const normalized = normalizePath(relPath);
+        if (indexed.has(normalized) || existsOnDisk(normalized)) continue;
+
+        issues.push({
+            list: "filesToModify",
+            path: relPath,
+            problem: "is not in the repository",
+            suggestions: suggestFiles(normalized, index.files),
+        });
+    }
+
+    for (const relPath of implementation.filesToCreate) {
+        const normalized = normalizePath(path.posix.normalize(normalizePath(relPath)));
+
+        if (path.isAbsolute(relPath) || normalized.startsWith("../")) {
+            issues.push({ list: "filesToCreate", path: relPath, problem: "is outside the repository", suggestions: [] });
+            continue;
+        }
+
+        if (indexed.has(normalized) || existsOnDisk(normalized)) {
+            issues.push({
+                list: "filesToCreate",
+                path: relPath,
+                problem: "already exists; list it in filesToModify instead",
+                suggestions: [],
+            });
+            continue;
+        }
+
+        const parentDir = path.posix.dirname(normalized);
+        const grandParentDir = path.posix.dirname(parentDir);
+        const known = (dir: string) => dir === "." || directories.has(dir) || Array.from(directories).some(d => d.startsWith(`${dir}/`));
+
+        if (!known(parentDir) && !known(grandParentDir)) {
+            issues.push({
+                list: "filesToCreate",
+                path: relPath,
+                problem: `is in ${parentDir}/, a directory the repository does not have`,
+                suggestions: suggestDirectories(parentDir, directories),
+            });
+        }
+    }
+
+    return issues;
+}
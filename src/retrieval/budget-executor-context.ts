@@ -0,0 +1,406 @@
+import { extractSymbols } from "@/repo/extract-symbols";
+import { estimateTokens } from "@/utils/estimate-tokens";
+import type { PlannerOutput } from "@/types/plannerTypes";
+import type { ContextBudgetAction, ContextBudgetDecision, ContextBudgetReport } from "@/types/context-budget";
+
+import { tokenize } from "./findRelevantFiles";
+
+/** Lines shown before and after each line of a file that matches the plan. */
+const EXCERPT_CONTEXT_LINES = 15;
+
+/** Maximum number of matching lines an excerpt is built around. */
+const MAX_EXCERPT_ANCHORS = 8;
+
+/** Leading import lines always kept in an excerpt, so new imports can be placed correctly. */
+const MAX_IMPORT_LINES = 40;
+
+/** A term found on more than this share of a file's lines does not locate an edit. */
+const COMMON_TERM_RATIO = 0.3;
+
+/** BM25 parameters, as in `findRelevantFiles`. */
+const K1 = 1.2;
+const B = 0.75;
+
+type PromptFile = { path: string; content: string };
+
+type BudgetedPart = {
+    kind: ContextBudgetDecision["kind"];
+    name: string;
+    original: string;
+    text: string;
+    action: ContextBudgetAction;
+    score?: number;
+    reason?: string;
+};
+
+export type BudgetExecutorContextInput = {
+    /** The plan JSON. Its `metadata` (usage accounting) is removed, the rest is never trimmed. */
+    planJson: string;
+    projectDocs: string;
+    files: PromptFile[];
+    contextFiles: PromptFile[];
+    /** Estimated tokens of the prompt without the plan, docs and files. */
+    fixedTokens: number;
+    budgetTokens: number;
+    /** Files to modify above this size are always excerpted. */
+    largeFileTokens: number;
+};
+
+export type BudgetedExecutorContext = {
+    plan: string;
+    projectDocs: string;
+    files: PromptFile[];
+    contextFiles: PromptFile[];
+    report: ContextBudgetReport;
+};
+
+/**
+ * Removes the accounting `metadata` the planner adds, which is noise for the executor.
+ */
+function stripPlanMetadata(planJson: string): string {
+    try {
+        const { metadata: _metadata, ...plan } = JSON.parse(planJson) as PlannerOutput;
+        return JSON.stringify(plan, null, 2);
+    } catch {
+        return planJson;
+    }
+}
+
+/**
+ * Collects the search terms describing what the plan changes.
+ */
+function planTerms(planJson: string): Set<string> {
+    try {
+        const plan = JSON.parse(planJson) as PlannerOutput;
+
+        return new Set(tokenize([
+            plan.summary,
+            ...(plan.implementation?.steps ?? []),
+            ...(plan.implementation?.filesToModify ?? []),
+            plan.implementation?.designSystemNotes ?? "",
+            ...(plan.scope?.components ?? []),
+            ...(plan.scope?.screens ?? []),
+            ...(plan.scope?.modules ?? []),
+            ...(plan.acceptanceCriteria ?? []),
+        ].join(" ")));
+    } catch {
+        return new Set(tokenize(planJson));
+    }
+}
+
+/**
+ * Splits the project docs into sections at Markdown headings (`#` to `###`, outside code
+ * fences). Sections are named after their doc file (`# FILE: docs/x.md`) and heading.
+ */
+function splitDocSections(docs: string): { name: string; text: string }[] {
+    const sections: { name: string; lines: string[] }[] = [];
+    let currentFile = "";
+    let inFence = false;
+
+    for (const line of docs.split("\n")) {
+        if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+
+        const heading = !inFence ? line.match(/^#{1,3}\s+(.*)$/) : null;
+
+        if (heading || !sections.length) {
+            const fileMatch = line.match(/^# FILE:\s*(.*)$/);
+            if (fileMatch) currentFile = fileMatch[1].trim();
+
+            const title = heading?.[1].trim() ?? "";
+            const name = fileMatch ? currentFile : [currentFile, title].filter(Boolean).join(" > ");
+            sections.push({ name: name || "preamble", lines: [line] });
+        } else {
+            sections[sections.length - 1].lines.push(line);
+        }
+    }
+
+    return sections.map(s => ({ name: s.name, text: s.lines.join("\n") }));
+}
+
+/**
+ * Scores each text against the query terms with BM25.
+ */
+function bm25Scores(texts: string[], queryTerms: Set<string>): number[] {
+    const documents = texts.map(text => {
+        const terms = new Map<string, number>();
+        for (const t of tokenize(text)) terms.set(t, (terms.get(t) ?? 0) + 1);
+        let length = 0;
+        for (const count of terms.values()) length += count;
+        return { terms, length };
+    });
+
+    const avgLength = documents.reduce((sum, d) => sum + d.length, 0) / (documents.length || 1) || 1;
+
+    return documents.map(doc => {
+        let score = 0;
+
+        for (const term of queryTerms) {
+            const tf = doc.terms.get(term);
+            if (!tf) continue;
+
+            const df = documents.filter(d => d.terms.has(term)).length;
+            const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+            score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * (doc.length / avgLength)));
+        }
+
+        return Number(score.toFixed(3));
+    });
+}
+
+/**
+ * Reduces a doc section to its heading and first line of text.
+ */
+function summarizeSection(text: string): string {
+    const lines = text.split("\n");
+    const firstLine = lines.slice(1).find(l => l.trim() && !/^#{1,6}\s/.test(l))?.trim() ?? "";
+    const summary = firstLine.length > 160 ? `${firstLine.slice(0, 160)}…` : firstLine;
+
+    return [lines[0], summary, "[section trimmed to fit the prompt budget]"].filter(Boolean).join("\n");
+}
+
+/**
+ * Lists the exported symbols of a file with their lines, e.g. `L12 component Alerts`.
+ */
+function symbolOutline(filePath: string, content: string): string[] {
+    try {
+        return extractSymbols(filePath, content).exports.map(s => `L${s.line} ${s.kind} ${s.name}`);
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Keeps only the regions of a file around the lines that mention the plan's terms, plus
+ * the import block and the outline of its exported symbols. Region labels carry the real
+ * line numbers so diffs can still target the right lines.
+ */
+function excerptFile(file: PromptFile, terms: Set<string>): string {
+    const lines = file.content.split("\n");
+    const lineTerms = lines.map(l => new Set(tokenize(l)));
+
+    const termLineCounts = new Map<string, number>();
+    for (const set of lineTerms) {
+        for (const t of set) termLineCounts.set(t, (termLineCounts.get(t) ?? 0) + 1);
+    }
+
+    const locating = new Set(
+        Array.from(terms).filter(t => (termLineCounts.get(t) ?? 0) <= Math.max(1, lines.length * COMMON_TERM_RATIO))
+    );
+
+    const anchors = lineTerms
+        .map((set, i) => ({ i, score: Array.from(set).filter(t => locating.has(t)).length }))
+        .filter(a => a.score > 0)
+        .sort((a, b) => b.score - a.score || a.i - b.i)
+        .slice(0, MAX_EXCERPT_ANCHORS)
+        .map(a => a.i);
+
+    const keep = new Array<boolean>(lines.length).fill(false);
+
+    let lastImport = -1;
+    for (let i = 0; i < Math.min(lines.length, MAX_IMPORT_LINES); i++) {
+        if (/^\s*import\s/.test(lines[i]) || /^\s*}\s*from\s/.test(lines[i])) lastImport = i;
+    }
+    for (let i = 0; i <= lastImport; i++) keep[i] = true;
+
+    for (const anchor of anchors) {
+        const start = Math.max(0, anchor - EXCERPT_CONTEXT_LINES);
+        const end = Math.min(lines.length - 1, anchor + EXCERPT_CONTEXT_LINES);
+        for (let i = start; i <= end; i++) keep[i] = true;
+    }
+
+    const outline = symbolOutline(file.path, file.content);
+    const out: string[] = [
+        `[EXCERPT: ${lines.length} lines, only the regions around the planned edits are shown]`,
+        ...(outline.length ? [`[OUTLINE: ${outline.join(" · ")}]`] : []),
+    ];
+
+    let i = 0;
+    while (i < lines.length) {
+        const start = i;
+        const kept = keep[i];
+        while (i < lines.length && keep[i] === kept) i++;
+
+        out.push(kept
+            ? `[LINES ${start + 1}-${i}]\n${lines.slice(start, i).join("\n")}`
+            : `[… LINES ${start + 1}-${i} OMITTED …]`);
+    }
+
+    return out.join("\n");
+}
+
+/**
+ * Reduces a read-only file to its imports and exported symbols.
+ */
+function outlineFile(file: PromptFile): string {
+    const lines = file.content.split("\n");
+    const imports = lines.filter(l => /^\s*import\s.*from\s/.test(l) || /^\s*}\s*from\s/.test(l));
+    const outline = symbolOutline(file.path, file.content);
+
+    return [
+        `[OUTLINE ONLY: ${lines.length} lines, imports and exported symbols]`,
+        ...imports,
+        ...outline.map(o => `// ${o}`),
+    ].join("\n");
+}
+
+function tokensOf(parts: BudgetedPart[]): number {
+    return parts.reduce((sum, p) => sum + (p.action === "dropped" ? 0 : estimateTokens(p.text)), 0);
+}
+
+function bySizeDesc(a: BudgetedPart, b: BudgetedPart): number {
+    return estimateTokens(b.text) - estimateTokens(a.text);
+}
+
+/**
+ * Fits the variable parts of the executor prompt into a token budget.
+ *
+ * Files to modify above `largeFileTokens` are always excerpted. Then, while the estimated
+ * prompt exceeds `budgetTokens`, context is trimmed from the least to the most valuable:
+ * 1. read-only context files are reduced to outlines (largest first)
+ * 2. doc sections are summarized, then dropped, from the least relevant to the plan (BM25)
+ * 3. read-only context files are dropped
+ * 4. files to modify are excerpted around the lines matching the plan (largest first)
+ *
+ * Room freed by the last step is then given back in the reverse order: dropped context
+ * files as outlines, trimmed doc sections (most relevant first), then full context files.
+ *
+ * The plan and the prompt instructions are never trimmed. Every decision is returned in
+ * the report, for the execution manifest.
+ *
+ * @param input - The prompt parts, the size of the fixed instructions and the limits.
+ * @returns The parts to put in the prompt, and the report.
+ *
+ * @example
+ * const budgeted = budgetExecutorContext({ planJson, projectDocs, files, contextFiles, fixedTokens: 4000, budgetTokens: 60000, largeFileTokens: 8000 });
+ * budgeted.report.decisions;
+ * // [{ kind: "doc-section", name: "docs/testing.md > Snapshots", action: "dropped", originalTokens: 900, finalTokens: 0, score: 0 }, ...]
+ */
+export function budgetExecutorContext(input: BudgetExecutorContextInput): BudgetedExecutorContext {
+    const plan = stripPlanMetadata(input.planJson);
+    const terms = planTerms(plan);
+    const planTokens = estimateTokens(plan);
+
+    const files: BudgetedPart[] = input.files.map(f => ({
+        kind: "file", name: f.path, original: f.content, text: f.content, action: "kept",
+    }));
+
+    const contextFiles: BudgetedPart[] = input.contextFiles.map(f => ({
+        kind: "context-file", name: f.path, original: f.content, text: f.content, action: "kept",
+    }));
+
+    const sections = splitDocSections(input.projectDocs);
+    const scores = bm25Scores(sections.map(s => s.text), terms);
+    const docs: BudgetedPart[] = sections.map((s, i) => ({
+        kind: "doc-section", name: s.name, original: s.text, text: s.text, action: "kept", score: scores[i],
+    }));
+
+    const total = () => input.fixedTokens + planTokens + tokensOf(files) + tokensOf(contextFiles) + tokensOf(docs);
+    const originalTokens = total();
+    const over = () => total() > input.budgetTokens;
+
+    for (const f of files) {
+        if (estimateTokens(f.text) <= input.largeFileTokens) continue;
+        f.text = excerptFile({ path: f.name, content: f.original }, terms);
+        f.action = "excerpted";
+        f.reason = `larger than ${input.largeFileTokens} tokens`;
+    }
+
+    for (const f of [...contextFiles].sort(bySizeDesc)) {
+        if (!over()) break;
+        f.text = outlineFile({ path: f.name, content: f.original });
+        f.action = "outlined";
+        f.reason = "over budget";
+    }
+
+    const leastRelevant = [...docs].sort((a, b) => (a.score ?? 0) - (b.score ?? 0));
+
+    for (const section of leastRelevant) {
+        if (!over()) break;
+        const summary = summarizeSection(section.original);
+        if (estimateTokens(summary) >= estimateTokens(section.text)) continue;
+        section.text = summary;
+        section.action = "summarized";
+        section.reason = "over budget, low relevance to the plan";
+    }
+
+    for (const section of leastRelevant) {
+        if (!over()) break;
+        section.action = "dropped";
+        section.reason = "over budget, low relevance to the plan";
+    }
+
+    for (const f of [...contextFiles].sort(bySizeDesc)) {
+        if (!over()) break;
+        f.action = "dropped";
+        f.reason = "over budget";
+    }
+
+    for (const f of [...files].sort(bySizeDesc)) {
+        if (!over()) break;
+        if (f.action === "excerpted") continue;
+        f.text = excerptFile({ path: f.name, content: f.original }, terms);
+        f.action = "excerpted";
+        f.reason = "over budget";
+    }
+
+    // Excerpting can free more room than needed: give it back in the reverse order of trimming.
+    const tryRestore = (part: BudgetedPart, text: string, action: ContextBudgetAction) => {
+        const previous = { text: part.text, action: part.action, reason: part.reason };
+
+        Object.assign(part, { text, action, reason: action === "kept" ? undefined : previous.reason });
+        if (!over()) return true;
+
+        Object.assign(part, previous);
+        return false;
+    };
+
+    for (const f of contextFiles.filter(f => f.action === "dropped")) {
+        tryRestore(f, outlineFile({ path: f.name, content: f.original }), "outlined");
+    }
+
+    for (const section of docs.filter(d => d.action !== "kept").sort((a, b) => (b.score ?? 0) - (a.score ?? 0))) {
+        if (tryRestore(section, section.original, "kept") || section.action === "summarized") continue;
+        tryRestore(section, summarizeSection(section.original), "summarized");
+    }
+
+    for (const f of contextFiles.filter(f => f.action === "outlined")) {
+        tryRestore(f, f.original, "kept");
+    }
+
+    const finalTokens = total();
+
+    const decisions: ContextBudgetDecision[] = [
+        { kind: "plan", name: "plan", action: "kept", originalTokens: planTokens, finalTokens: planTokens },
+        ...[...files, ...contextFiles, ...docs].map(p => ({
+            kind: p.kind,
+            name: p.name,
+            action: p.action,
+            originalTokens: estimateTokens(p.original),
+            finalTokens: p.action === "dropped" ? 0 : estimateTokens(p.text),
+            ...(p.score !== undefined && { score: p.score }),
+            ...(p.reason && { reason: p.reason }),
+        })),
+    ];
+
+    const trimmedDocs = docs.filter(d => d.action !== "kept").length;
+    const projectDocs = docs
+        .filter(d => d.action !== "dropped")
+        .map(d => d.text)
+        .join("\n")
+        + (trimmedDocs ? `\n\n[${trimmedDocs} doc section(s) less relevant to this plan were summarized or left out to fit the prompt budget]` : "");
+
+    return {
+        plan,
+        projectDocs,
+        files: files.map(f => ({ path: f.name, content: f.text })),
+        contextFiles: contextFiles.filter(f => f.action !== "dropped").map(f => ({ path: f.name, content: f.text })),
+        report: {
+            budgetTokens: input.budgetTokens,
+            fixedTokens: input.fixedTokens,
+            originalTokens,
+            finalTokens,
+            overBudget: finalTokens > input.budgetTokens,
+            decisions,
+        },
+    };
+}
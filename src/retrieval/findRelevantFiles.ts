@@ -1,4 +1,186 @@
-export function findRelevantFiles() {
-    // TODO: load index & match task keywords
-    return [];
+import fs from "node:fs";
+import path from "node:path";
+
+import normalizePath from "@/utils/normalize-path";
+import type { RepoFileEntry, RepoIndex } from "@/types/repo-index";
+
+/** BM25 term-frequency saturation. */
+const K1 = 1.2;
+
+/** BM25 document-length normalization. */
+const B = 0.75;
+
+/**
+ * Field weights: each token of a field is counted this many times in the document,
+ * so a match in a path or component name outweighs a match deep in the file body.
+ */
+const FIELD_WEIGHTS = {
+    path: 3,
+    componentName: 3,
+    type: 2,
+    content: 1,
+};
+
+/**
+ * Function words only: common terms of the domain or the code ("user", "props", "src") are
+ * down-weighted by the IDF of BM25, and can be the most telling words of a task.
+ */
+const STOP_WORDS = new Set([
+    "a", "an", "and", "are", "as", "at", "be", "by", "do", "for", "from", "has", "have", "if", "in",
+    "into", "is", "it", "its", "no", "not", "of", "on", "or", "should", "so", "that", "the", "then",
+    "this", "to", "we", "when", "will", "with", "all", "can",
+]);
+
+/**
+ * A file from the repo index ranked against a task.
+ */
+export type RelevantFile = {
+    /** The relative path of the file (as in repo-index.json). */
+    path: string;
+    /** The `classifyFile` type of the file. */
+    type: RepoFileEntry["type"];
+    /** The component name detected in the file, if any. */
+    componentName?: string;
+    /** The BM25 score of the file for the task (higher is more relevant). */
+    score: number;
+};
+
+type FindRelevantFilesOptions = {
+    /** Maximum number of files to return. Defaults to 15. */
+    limit?: number;
+    /** Path to the repo index. Defaults to `generated/repo-index.json`. */
+    indexPath?: string;
+};
+
+/**
+ * Splits text into lowercase search terms.
+ * camelCase, PascalCase, kebab-case, snake_case and path segments are split into words,
+ * and stop words, numbers and single characters are dropped.
+ *
+ * @param text - The text to tokenize.
+ * @returns The list of terms, in order, with repetitions.
+ *
+ * @example
+ * tokenize("src/components/UserAvatar/user-avatar.tsx");
+ * // ["components", "avatar", "avatar"]
+ */
+export function tokenize(text: string): string[] {
+    return text
+        .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+        .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(t => t.length > 1 && !/^\d+$/.test(t) && !STOP_WORDS.has(t));
+}
+
+/**
+ * Reads the content of an indexed file, returning an empty string when it can't be read.
+ */
+function readFileContent(root: string, relPath: string): string {
+    try {
+        return fs.readFileSync(path.join(root, relPath), "utf8");
+    } catch {
+        return "";
+    }
+}
+
+/**
+ * Builds the weighted bag of terms for an indexed file.
+ */
+function buildDocumentTerms(entry: RepoFileEntry, content: string): Map<string, number> {
+    const terms = new Map<string, number>();
+
+    const add = (tokens: string[], weight: number) => {
+        for (const t of tokens) terms.set(t, (terms.get(t) ?? 0) + weight);
+    };
+
+    add(tokenize(entry.path), FIELD_WEIGHTS.path);
+    add(tokenize(entry.componentName ?? ""), FIELD_WEIGHTS.componentName);
+    add(tokenize(entry.type), FIELD_WEIGHTS.type);
+    add(tokenize(content), FIELD_WEIGHTS.content);
+
+    return terms;
+}
+
+/**
+ * Ranks the files of the repo index by relevance to a task using BM25.
+ *
+ * Each indexed file is a document made of its path, `componentName`, `classifyFile` type
+ * and tokenized content (fields weighted by `FIELD_WEIGHTS`). The query is the task name
+ * and description. Files with no matching term are never returned.
+ *
+ * Returns an empty list (with a warning) when `generated/repo-index.json` does not exist,
+ * so planning can still run without an index.
+ *
+ * @param task - The task to find files for.
+ * @param task.taskName - The title of the task.
+ * @param task.taskDescription - The description of the task.
+ * @param options - Result limit and index location.
+ * @returns The top files, most relevant first.
+ *
+ * @example
+ * findRelevantFiles({ taskName: "Alert z-index", taskDescription: "Alerts render below the modal" });
+ * // [
+ * //   { path: "src/components/alerts/alerts.jsx", type: "component", componentName: "Alerts", score: 7.42 },
+ * //   ...
+ * // ]
+ */
+export function findRelevantFiles(
+    task: { taskName: string; taskDescription: string },
+    options: FindRelevantFilesOptions = {}
+): RelevantFile[] {
+    const limit = options.limit ?? 15;
+    const indexPath = options.indexPath ?? path.resolve(process.cwd(), "generated/repo-index.json");
+
+    if (!fs.existsSync(indexPath)) {
+        console.warn("⚠ repo-index.json not found. Run 'npm run index:repo' to ground the planner in real files.");
+        return [];
+    }
+
+    const index = JSON.parse(fs.readFileSync(indexPath, "utf8")) as RepoIndex;
+
+    const queryTerms = Array.from(new Set(tokenize(`${task.taskName} ${task.taskDescription}`)));
+    if (!queryTerms.length || !index.files.length) return [];
+
+    const documents = index.files.map(entry => {
+        const terms = buildDocumentTerms(entry, readFileContent(index.root, entry.path));
+        let length = 0;
+        for (const count of terms.values()) length += count;
+        return { entry, terms, length };
+    });
+
+    const avgLength = documents.reduce((sum, d) => sum + d.length, 0) / documents.length || 1;
+
+    const idf = new Map<string, number>();
+    for (const term of queryTerms) {
+        const df = documents.filter(d => d.terms.has(term)).length;
+        idf.set(term, Math.log(1 + (documents.length - df + 0.5) / (df + 0.5)));
+    }
+
+    const ranked: RelevantFile[] = [];
+
+    for (const doc of documents) {
+        let score = 0;
+
+        for (const term of queryTerms) {
+            const tf = doc.terms.get(term);
+            if (!tf) continue;
+
+            const norm = tf + K1 * (1 - B + B * (doc.length / avgLength));
+            score += (idf.get(term) ?? 0) * (tf * (K1 + 1)) / norm;
+        }
+
+        if (score > 0) {
+            ranked.push({
+                path: normalizePath(doc.entry.path),
+                type: doc.entry.type,
+                componentName: doc.entry.componentName,
+                score: Number(score.toFixed(3)),
+            });
+        }
+    }
+
+    return ranked
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
 }
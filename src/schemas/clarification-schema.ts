@@ -0,0 +1,21 @@
+import { z } from "zod/v4";
+
+/**
+ * A question from an agent's `missingInformation`, with the answer given by the team.
+ */
+export const clarificationSchema = z.object({
+    question: z.string(),
+    answer: z.string(),
+    /** The agent whose run the answer was given for. */
+    askedBy: z.enum(["planner", "executor"]),
+    answeredAt: z.string(),
+});
+
+/**
+ * An answers file (`--answers <file>`): an object mapping each question to its answer, or a
+ * list of `{ question, answer }` (e.g. copied from a plan's `clarifications`).
+ */
+export const answersFileSchema = z.union([
+    z.record(z.string(), z.string()),
+    z.array(z.object({ question: z.string(), answer: z.string() })),
+]);
@@ -0,0 +1,54 @@
+import { z } from "zod/v4";
+
+import type { EditFormat } from "@/types/executor-output";
+import { toModelJsonSchema } from "@/utils/validate-schema";
+
+const modificationSchema = z.object({
+    path: z.string(),
+    diff: z.string(),
+});
+
+const fileEditSchema = z.object({
+    path: z.string(),
+    blocks: z.array(z.object({
+        search: z.string(),
+        replace: z.string(),
+    })),
+});
+
+const creationSchema = z.object({
+    path: z.string(),
+    content: z.string(),
+});
+
+/**
+ * Builds the schema of the Executor Agent answer for an edit format.
+ *
+ * Changes to existing files are `modifications` (unified diffs) or `edits` (SEARCH/REPLACE
+ * blocks), never both, so each format gets its own schema.
+ *
+ * @param editFormat - The protocol used for changes to existing files.
+ * @returns The schema used to validate the parsed answer.
+ */
+export function executorOutputSchema(editFormat: EditFormat) {
+    const changes = editFormat === "search-replace"
+        ? { edits: z.array(fileEditSchema) }
+        : { modifications: z.array(modificationSchema) };
+
+    return z.object({
+        summary: z.string(),
+        ...changes,
+        creations: z.array(creationSchema),
+        missingInformation: z.array(z.string()),
+        confidence: z.number().min(0).max(1),
+    });
+}
+
+/**
+ * The JSON schema of the Executor Agent answer, sent to the provider.
+ *
+ * @param editFormat - The protocol used for changes to existing files.
+ */
+export function executorOutputJsonSchema(editFormat: EditFormat): Record<string, unknown> {
+    return toModelJsonSchema(executorOutputSchema(editFormat));
+}
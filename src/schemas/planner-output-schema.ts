@@ -1,108 +1,70 @@
-export const plannerOutputJsonSchema = {
-    type: "object",
-    properties: {
-        task: {
-            type: "object",
-            properties: {
-                id: { type: "string" },
-                title: { type: "string" },
-                description: { type: "string" },
-            },
-            required: ["id", "title", "description"],
-            additionalProperties: false,
-        },
+import { z } from "zod/v4";
 
-        summary: { type: "string" },
-        userStory: { type: "string" },
+import type { PlanMetadata } from "@/types/plannerTypes";
+import { toModelJsonSchema } from "@/utils/validate-schema";
 
-        acceptanceCriteria: {
-            type: "array",
-            items: { type: "string" },
-        },
+import { clarificationSchema } from "./clarification-schema";
 
-        scope: {
-            type: "object",
-            properties: {
-                featureType: { type: "string" },
-                frontendType: { type: "string" },
-                screens: { type: "array", items: { type: "string" } },
-                components: { type: "array", items: { type: "string" } },
-                modules: { type: "array", items: { type: "string" } },
-                apiCalls: { type: "array", items: { type: "string" } },
-            },
-            required: [
-                "featureType",
-                "frontendType",
-                "screens",
-                "components",
-                "modules",
-                "apiCalls",
-            ],
-            additionalProperties: false,
-        },
+const stringList = z.array(z.string());
 
-        implementation: {
-            type: "object",
-            properties: {
-                steps: { type: "array", items: { type: "string" } },
-                filesToCreate: { type: "array", items: { type: "string" } },
-                filesToModify: { type: "array", items: { type: "string" } },
-                designSystemNotes: { type: "string" },
-                technicalConstraints: {
-                    type: "array",
-                    items: { type: "string" },
-                },
-            },
-            required: [
-                "steps",
-                "filesToCreate",
-                "filesToModify",
-                "designSystemNotes",
-                "technicalConstraints",
-            ],
-            additionalProperties: false,
-        },
+/**
+ * The plan as the Planner Agent writes it. The `PlannerOutput` types and the JSON schema
+ * sent to the model are both derived from it.
+ */
+export const plannerOutputSchema = z.object({
+    task: z.object({
+        id: z.string(),
+        title: z.string(),
+        description: z.string(),
+    }),
 
-        tests: {
-            type: "object",
-            properties: {
-                unitTests: { type: "array", items: { type: "string" } },
-                integrationTests: { type: "array", items: { type: "string" } },
-                manualChecks: { type: "array", items: { type: "string" } },
-            },
-            required: ["unitTests", "integrationTests", "manualChecks"],
-            additionalProperties: false,
-        },
+    summary: z.string(),
+    userStory: z.string(),
 
-        risks: { type: "array", items: { type: "string" } },
-        dependencies: { type: "array", items: { type: "string" } },
-        outOfScope: { type: "array", items: { type: "string" } },
+    acceptanceCriteria: stringList,
 
-        estimatedComplexity: {
-            type: "string",
-            enum: ["low", "medium", "high"],
-        },
+    scope: z.object({
+        featureType: z.string(),
+        frontendType: z.string(),
+        screens: stringList,
+        components: stringList,
+        modules: stringList,
+        apiCalls: stringList,
+    }),
 
-        missingInformation: { type: "array", items: { type: "string" } },
+    implementation: z.object({
+        steps: stringList,
+        filesToCreate: stringList,
+        filesToModify: stringList,
+        designSystemNotes: z.string(),
+        technicalConstraints: stringList,
+    }),
 
-        confidence: { type: "number" },
-    },
+    tests: z.object({
+        unitTests: stringList,
+        integrationTests: stringList,
+        manualChecks: stringList,
+    }),
 
-    required: [
-        "task",
-        "summary",
-        "userStory",
-        "acceptanceCriteria",
-        "scope",
-        "implementation",
-        "tests",
-        "risks",
-        "dependencies",
-        "outOfScope",
-        "estimatedComplexity",
-        "missingInformation",
-        "confidence",
-    ],
+    risks: stringList,
+    dependencies: stringList,
+    outOfScope: stringList,
 
-    additionalProperties: false,
-};
+    estimatedComplexity: z.enum(["low", "medium", "high"]),
+
+    missingInformation: stringList,
+
+    confidence: z.number().min(0).max(1),
+});
+
+/**
+ * A saved plan (`plans/task-<id>.json`, `runs/<runId>/plan.json`): the model's plan plus the
+ * `metadata` added after generation, which is not checked, and the answers to the planner's
+ * and executor's questions, which the executor reads with the plan.
+ */
+export const planFileSchema = plannerOutputSchema.extend({
+    clarifications: z.array(clarificationSchema).optional(),
+    metadata: z.custom<PlanMetadata>().optional(),
+});
+
+export const plannerOutputJsonSchema = toModelJsonSchema(plannerOutputSchema);
@@ -0,0 +1,196 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { pathToFileURL } from "node:url";
+
+/**
+ * Local stand-in for the Monday GraphQL API, to try planning and publishing without a board:
+ *
+ *   npm run mock:monday
+ *   MONDAY_API_URL=http://localhost:4000/v2 MONDAY_API_KEY=mock mat plan 123 --publish
+ *
+ * Every item ID exists, and items 101 to 103 are on board 1 (group `topics`). The operations
+ * used by this agent are answered from memory (boards, items, create_update, edit_update,
+ * create_subitem, change_simple_column_value), and each one is logged, so duplicates and missing edits are easy to spot.
+ * `startMockMondayServer` starts one in-process, for scripted checks (`npm run test:monday-publish`).
+ */
+
+const DEFAULT_PORT = Number(process.env.MOCK_MONDAY_PORT ?? 4000);
+
+type MockReply = { id: string; text_body: string; created_at: string; creator: { name: string } };
+
+type MockUpdate = { id: string; body: string; text_body: string; created_at: string; updated_at: string; creator: { name: string }; replies: MockReply[] };
+
+export type MockItem = {
+    id: string;
+    name: string;
+    /** Moved by column changes, as on Monday. */
+    updated_at: string;
+    board: { id: string };
+    group: { id: string; title: string };
+    description: { id: string; blocks: { id: string; doc_id: string; type: string; parent_block_id: null; content: string }[] };
+    column_values: { id: string; type: string; text: string; column: { title: string } }[];
+    updates: MockUpdate[];
+    subitems: { id: string; name: string; column_values: { text: string }[] }[];
+};
+
+/** An operation answered by the mock server. */
+export type MockOperation = {
+    name: "create_update" | "edit_update" | "create_subitem" | "change_column" | "boards" | "items";
+    /** The item, update or board it was about. */
+    target: string;
+};
+
+export type MockMondayServer = {
+    server: http.Server;
+    /** GraphQL endpoint, for `MONDAY_API_URL`. */
+    url: string;
+    /** Every operation answered, in order. */
+    operations: MockOperation[];
+    items: Map<string, MockItem>;
+};
+
+/**
+ * Starts a mock server with its own items, items 101 to 103 of board 1 included.
+ *
+ * @param port - The port to listen on; 0 picks a free one.
+ * @returns The server, its URL and the log of the operations it answered.
+ */
+export function startMockMondayServer(port = DEFAULT_PORT): Promise<MockMondayServer> {
+    const items = new Map<string, MockItem>();
+    const operations: MockOperation[] = [];
+    let nextId = 1000;
+
+    function log(name: MockOperation["name"], target: string, message: string): void {
+        operations.push({ name, target });
+        console.log(`${name.padEnd(14)} ${message}`);
+    }
+
+    function getItem(id: string): MockItem {
+        let item = items.get(id);
+
+        if (!item) {
+            const text = (insert: string) => JSON.stringify({ deltaFormat: [{ insert }] });
+
+            item = {
+                id,
+                name: `Mock item ${id}`,
+                updated_at: new Date().toISOString(),
+                board: { id: "1" },
+                group: { id: "topics", title: "Sprint" },
+                description: {
+                    id: `doc-${id}`,
+                    blocks: [
+                        { id: "b1", doc_id: `doc-${id}`, type: "normal text", parent_block_id: null, content: text("Show the user avatar in the header.") },
+                        { id: "b2", doc_id: `doc-${id}`, type: "check list", parent_block_id: null, content: text("The avatar falls back to initials") },
+                    ],
+                },
+                column_values: [{ id: "status", type: "status", text: "Working on it", column: { title: "Status" } }],
+                updates: [],
+                subitems: [],
+            };
+            items.set(id, item);
+        }
+
+        return item;
+    }
+
+    function handle(query: string, variables: Record<string, any>): unknown {
+        if (query.includes("create_update")) {
+            const item = getItem(String(variables.itemId));
+            const update: MockUpdate = {
+                id: String(nextId++),
+                body: variables.body,
+                text_body: String(variables.body).replace(/<[^>]+>/g, " "),
+                created_at: new Date().toISOString(),
+                updated_at: new Date().toISOString(),
+                creator: { name: "mat-ai-agent" },
+                replies: [],
+            };
+            item.updates.unshift(update);
+            log("create_update", item.id, `item ${item.id} → update ${update.id}`);
+            return { create_update: { id: update.id } };
+        }
+
+        if (query.includes("edit_update")) {
+            const update = [...items.values()].flatMap(i => i.updates).find(u => u.id === String(variables.id));
+            if (!update) throw new Error(`Update not found: ${variables.id}`);
+
+            update.body = variables.body;
+            update.text_body = String(variables.body).replace(/<[^>]+>/g, " ");
+            update.updated_at = new Date().toISOString();
+            log("edit_update", update.id, `update ${update.id}`);
+            return { edit_update: { id: update.id } };
+        }
+
+        if (query.includes("create_subitem")) {
+            const item = getItem(String(variables.parentId));
+            const subitem = { id: String(nextId++), name: variables.name, column_values: [] };
+            item.subitems.push(subitem);
+            log("create_subitem", item.id, `item ${item.id} → "${subitem.name}"`);
+            return { create_subitem: { id: subitem.id } };
+        }
+
+        if (query.includes("change_simple_column_value")) {
+            const item = getItem(String(variables.itemId));
+            const column = item.column_values.find(c => c.id === variables.columnId);
+            if (column) column.text = variables.value;
+            else item.column_values.push({ id: variables.columnId, type: "status", text: variables.value, column: { title: variables.columnId } });
+            item.updated_at = new Date().toISOString();
+            log("change_column", item.id, `item ${item.id} ${variables.columnId} = "${variables.value}"`);
+            return { change_simple_column_value: { id: item.id } };
+        }
+
+        if (/\bboards\s*\(/.test(query)) {
+            const page = {
+                cursor: null,
+                items: [...items.values()].filter(i => !variables.groupId || i.group.id === variables.groupId),
+            };
+            log("boards", String(variables.boardId), `${variables.boardId}: ${page.items.length} item(s)`);
+            return { boards: [{ items_page: page, groups: [{ items_page: page }] }] };
+        }
+
+        if (/\bitems\s*\(/.test(query)) {
+            const ids: string[] = (variables.ids ?? []).map(String);
+            log("items", ids.join(","), ids.join(", "));
+            return { items: ids.map(getItem) };
+        }
+
+        throw new Error(`Operation not supported by the mock server: ${query.trim().slice(0, 80)}`);
+    }
+
+    // Items of the mock board (`mat plan-batch --board 1`); other IDs are created when asked for.
+    ["101", "102", "103"].forEach(getItem);
+
+    const server = http.createServer((req, res) => {
+        let raw = "";
+        req.on("data", chunk => (raw += chunk));
+        req.on("end", () => {
+            let status = 200;
+            let payload: unknown;
+
+            try {
+                const { query, variables } = JSON.parse(raw || "{}");
+                payload = { data: handle(String(query ?? ""), variables ?? {}) };
+            } catch (err: any) {
+                status = 400;
+                payload = { errors: [{ message: err.message }] };
+            }
+
+            res.writeHead(status, { "content-type": "application/json" });
+            res.end(JSON.stringify(payload));
+        });
+    });
+
+    return new Promise((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(port, () => {
+            const url = `http://localhost:${(server.address() as AddressInfo).port}/v2`;
+            resolve({ server, url, operations, items });
+        });
+    });
+}
+
+// Started by `npm run mock:monday`, not when imported.
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+    startMockMondayServer().then(({ url }) => console.log(`Mock Monday API listening on ${url}`));
+}
@@ -0,0 +1,131 @@
+import type { ExecutionResult } from "@/types/execution";
+import type { PlannerOutput } from "@/types/plannerTypes";
+
+import { startMockMondayServer } from "./mock-monday-server";
+
+/**
+ * Checks that publishing to Monday is idempotent, against the mock server
+ * (`npm run test:monday-publish`): the plan, execution and apply steps are published twice,
+ * and must leave one update per step (created once, then edited) and one subitem per
+ * implementation step. Then checks that the planner does not read them back as task input,
+ * but does read the replies to them.
+ *
+ * Monday settings are set here; the rest (FRONTEND_REPO_PATH, LLM settings) comes from `.env`.
+ * Exits with code 1 when a check fails.
+ */
+
+const TASK_ID = "101";
+const STEPS = ["Add the Avatar component", "Show the avatar in the header", "Fall back to initials"];
+const ANSWER = "The avatar is 32px wide.";
+
+const plan: PlannerOutput = {
+    task: { id: TASK_ID, title: "Show the user avatar", description: "Show the user avatar in the header." },
+    summary: "Show the user avatar in the header, with initials as a fallback.",
+    userStory: "As a user, I want to see my avatar in the header.",
+    acceptanceCriteria: ["The avatar falls back to initials"],
+    scope: { featureType: "ui", frontendType: "react", screens: [], components: ["Avatar"], modules: [], apiCalls: [] },
+    implementation: {
+        steps: STEPS,
+        filesToCreate: ["src/components/avatar.jsx"],
+        filesToModify: ["src/components/header.jsx"],
+        designSystemNotes: "",
+        technicalConstraints: [],
+    },
+    tests: { unitTests: [], integrationTests: [], manualChecks: [] },
+    risks: [],
+    dependencies: [],
+    outOfScope: [],
+    estimatedComplexity: "low",
+    missingInformation: [],
+    confidence: 0.9,
+};
+
+const execution: ExecutionResult = {
+    id: "mock-execution",
+    output: {
+        summary: "Added the Avatar component and used it in the header.",
+        modifications: [{ path: "src/components/header.jsx", diff: "" }],
+        creations: [{ path: "src/components/avatar.jsx", content: "" }],
+        missingInformation: [],
+        confidence: 0.9,
+    },
+    savedDiffsPath: "",
+};
+
+const failures: string[] = [];
+
+function check(label: string, ok: boolean, detail = ""): void {
+    console.log(`${ok ? "✔" : "❌"} ${label}${ok || !detail ? "" : `: ${detail}`}`);
+    if (!ok) failures.push(label);
+}
+
+async function main() {
+    const mock = await startMockMondayServer(0);
+
+    Object.assign(process.env, {
+        MONDAY_API_URL: mock.url,
+        MONDAY_API_KEY: "mock",
+        MONDAY_PUBLISH: "on",
+        MONDAY_PUBLISH_SUBITEMS: "on",
+        MONDAY_STATUS_COLUMN: "status",
+        TASK_PROVIDER: "monday",
+        // Recorded or replayed requests would never reach the mock server.
+        CASSETTE_MODE: "off",
+    });
+
+    try {
+        // Loaded after the settings above, which env.ts reads on import.
+        const { publishApplyResults, publishExecution, publishPlan } = await import("@/tools/monday-publisher");
+        const { getMondayTaskById } = await import("@/tools/monday");
+
+        // A subtask added by hand, which the planner must still see.
+        mock.items.get(TASK_ID)!.subitems.push({ id: "1", name: "Ask design for the avatar size", column_values: [] });
+
+        for (let run = 1; run <= 2; run++) {
+            console.log(`\n— Publishing, run ${run}`);
+            await publishPlan(plan);
+            await publishExecution(plan, execution);
+            await publishApplyResults(plan, execution.id, [
+                { file: "src/components/header.jsx", success: true },
+                { file: "src/components/avatar.jsx", success: true, created: true },
+            ]);
+        }
+
+        console.log("");
+        const count = (name: string) => mock.operations.filter(o => o.name === name).length;
+        const subitemNames = mock.items.get(TASK_ID)!.subitems.map(s => s.name);
+
+        check("one update created per step", count("create_update") === 3, `${count("create_update")} created`);
+        check("one update edited per step on the second run", count("edit_update") === 3, `${count("edit_update")} edited`);
+        check("one subitem per implementation step", count("create_subitem") === STEPS.length, `${count("create_subitem")} created`);
+        check("no duplicate subitems", new Set(subitemNames).size === subitemNames.length, subitemNames.join(", "));
+
+        // A teammate answers the plan's questions by replying to its update.
+        const planUpdate = mock.items.get(TASK_ID)!.updates.find(u => u.text_body.includes("mat-ai-agent:plan"))!;
+        planUpdate.replies.push({ id: "2", text_body: ANSWER, created_at: new Date().toISOString(), creator: { name: "Ana Silva" } });
+
+        const task = await getMondayTaskById(TASK_ID);
+        const bodies = task.updates.flatMap(u => [u.body, ...(u.replies ?? []).map(r => r.body)]);
+
+        check("published updates left out of the task", !bodies.some(b => b.includes("mat-ai-agent:")), bodies.join(" | "));
+        check("replies to the plan update kept in the task", task.updates.some(u =>
+            u.body === "Replies to the agent's plan" && u.replies?.some(r => r.body === ANSWER)), bodies.join(" | "));
+        check("agent subitems left out of the task", task.subitems.length === 1 && task.subitems[0].name === "Ask design for the avatar size",
+            task.subitems.map(s => s.name).join(", "));
+        check("status column left out of the task", !("Status" in task.fields), JSON.stringify(task.fields));
+    } finally {
+        mock.server.close();
+    }
+
+    if (failures.length) {
+        console.error(`\n❌ ${failures.length} check(s) failed`);
+        process.exit(1);
+    }
+
+    console.log("\n✔ Publishing is idempotent");
+}
+
+main().catch(err => {
+    console.error(err);
+    process.exit(1);
+});
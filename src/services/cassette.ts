@@ -0,0 +1,91 @@
+import fs from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+
+import { env } from "@/config/env";
+import { stableStringify } from "@/utils/stable-stringify";
+
+/** External services whose exchanges are recorded. */
+export type CassetteKind = "llm" | "monday" | "github" | "jira";
+
+/**
+ * One recorded exchange, saved as `<CASSETTE_DIR>/<kind>/<key>.json`.
+ */
+export type Cassette<TRequest = unknown, TResponse = unknown> = {
+    kind: CassetteKind;
+    key: string;
+    recordedAt: string;
+    request: TRequest;
+    response: TResponse;
+};
+
+/**
+ * Computes the cassette key of a request: a SHA-256 of its stable serialization.
+ *
+ * @example
+ * cassetteKey("monday", { query, variables: { ids: ["123"] } }); // "3f9a0c..."
+ */
+export function cassetteKey(kind: CassetteKind, request: unknown): string {
+    return crypto
+        .createHash("sha256")
+        .update(`${kind}\n${stableStringify(request)}`)
+        .digest("hex")
+        .slice(0, 32);
+}
+
+function cassettePath(kind: CassetteKind, key: string): string {
+    return path.resolve(process.cwd(), env.cassetteDir, kind, `${key}.json`);
+}
+
+/**
+ * Runs an external call through the cassette recorder, depending on `CASSETTE_MODE`:
+ *
+ * - `off` (default): the call is made as usual.
+ * - `record`: the call is made and the request/response pair is saved, keyed by request hash.
+ * - `replay`: the saved response is returned and the call is never made, so runs are
+ *   deterministic and need no API keys. A request without a cassette fails.
+ *
+ * The request must contain everything that influences the response (model, messages,
+ * query, variables, ...), since only its hash identifies the cassette.
+ *
+ * @param kind - The service being called.
+ * @param request - The serializable request, used as the cassette key.
+ * @param call - Performs the real call.
+ * @returns The live or replayed response.
+ * @throws {Error} In `replay` mode, when no cassette matches the request
+ *
+ * @example
+ * const response = await withCassette("monday", { query, variables }, () => mondayClient.request(query, variables));
+ */
+export async function withCassette<TResponse>(
+    kind: CassetteKind,
+    request: unknown,
+    call: () => Promise<TResponse>
+): Promise<TResponse> {
+    if (env.cassetteMode === "off") return call();
+
+    const key = cassetteKey(kind, request);
+    const file = cassettePath(kind, key);
+
+    if (env.cassetteMode === "replay") {
+        if (!fs.existsSync(file)) {
+            throw new Error(
+                `No ${kind} cassette for this request (key ${key}) in ${path.dirname(file)}.\n` +
+                "Record it first with CASSETTE_MODE=record (or --cassette record)."
+            );
+        }
+
+        const cassette = JSON.parse(fs.readFileSync(file, "utf8")) as Cassette<unknown, TResponse>;
+        console.log(`[cassette] Replaying ${kind} ${key}`);
+        return cassette.response;
+    }
+
+    const response = await call();
+
+    const cassette: Cassette = { kind, key, recordedAt: new Date().toISOString(), request, response };
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(cassette, null, 2), "utf8");
+    console.log(`[cassette] Recorded ${kind} ${key}`);
+
+    return response;
+}
@@ -0,0 +1,92 @@
+import type { LlmProvider } from "@/types/llm";
+
+const DEFAULT_BASE_URL = "https://api.anthropic.com";
+const ANTHROPIC_VERSION = "2023-06-01";
+
+/** Anthropic requires `max_tokens`; used when the agent config has none. */
+const DEFAULT_MAX_TOKENS = 8192;
+
+type AnthropicContentBlock =
+    | { type: "text"; text: string }
+    | { type: "tool_use"; name: string; input: unknown };
+
+type AnthropicResponse = {
+    model: string;
+    content: AnthropicContentBlock[];
+    usage?: { input_tokens: number; output_tokens: number };
+};
+
+/**
+ * Creates a provider for the Anthropic Messages API, called over `fetch`.
+ *
+ * System messages are moved to the top-level `system` field. Structured output has no
+ * `response_format` equivalent: in `native` mode the schema becomes the input schema of a
+ * single tool the model is forced to call, and the tool input is returned as the JSON content.
+ *
+ * @param apiKey - The Anthropic API key.
+ * @returns The provider.
+ */
+export function createAnthropicProvider(apiKey: string): LlmProvider {
+    return {
+        name: "anthropic",
+        supports: ["native"],
+
+        async complete(request, config) {
+            const system = request.messages
+                .filter(m => m.role === "system")
+                .map(m => m.content)
+                .join("\n\n");
+
+            const schema = request.jsonSchema;
+
+            const body = {
+                model: config.model,
+                max_tokens: config.maxTokens ?? DEFAULT_MAX_TOKENS,
+                messages: request.messages
+                    .filter(m => m.role !== "system")
+                    .map(m => ({ role: m.role, content: m.content })),
+                ...(system && { system }),
+                ...(config.temperature !== undefined && { temperature: config.temperature }),
+                ...(schema && {
+                    tools: [{
+                        name: schema.name,
+                        description: `Return the ${schema.name} JSON document.`,
+                        input_schema: schema.schema,
+                    }],
+                    tool_choice: { type: "tool", name: schema.name },
+                }),
+            };
+
+            const response = await fetch(`${config.baseUrl ?? DEFAULT_BASE_URL}/v1/messages`, {
+                method: "POST",
+                headers: {
+                    "content-type": "application/json",
+                    "x-api-key": apiKey,
+                    "anthropic-version": ANTHROPIC_VERSION,
+                },
+                body: JSON.stringify(body),
+                signal: AbortSignal.timeout(config.timeoutMs),
+            });
+
+            if (!response.ok) {
+                throw new Error(`Anthropic API error ${response.status}: ${await response.text()}`);
+            }
+
+            const data = await response.json() as AnthropicResponse;
+
+            const toolUse = data.content.find(b => b.type === "tool_use");
+            const content = toolUse?.type === "tool_use"
+                ? JSON.stringify(toolUse.input)
+                : data.content.map(b => (b.type === "text" ? b.text : "")).join("");
+
+            return {
+                content,
+                model: data.model,
+                usage: data.usage && {
+                    promptTokens: data.usage.input_tokens,
+                    completionTokens: data.usage.output_tokens,
+                },
+            };
+        },
+    };
+}
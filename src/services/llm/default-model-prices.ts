@@ -0,0 +1,21 @@
+import type { ModelPrice } from "@/types/llm";
+
+/**
+ * Built-in price table (USD per million tokens), merged under `MODEL_PRICES_PATH`.
+ * Keys match model names by prefix, so `gpt-4.1-mini` also prices `gpt-4.1-mini-2025-04-14`;
+ * the longest matching key wins.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+    "gpt-4.1": { inputPerMTok: 2, outputPerMTok: 8, contextWindow: 1_047_576 },
+    "gpt-4.1-mini": { inputPerMTok: 0.4, outputPerMTok: 1.6, contextWindow: 1_047_576 },
+    "gpt-4.1-nano": { inputPerMTok: 0.1, outputPerMTok: 0.4, contextWindow: 1_047_576 },
+    "gpt-4o": { inputPerMTok: 2.5, outputPerMTok: 10, contextWindow: 128_000 },
+    "gpt-4o-mini": { inputPerMTok: 0.15, outputPerMTok: 0.6, contextWindow: 128_000 },
+    "o3": { inputPerMTok: 2, outputPerMTok: 8, contextWindow: 200_000 },
+    "o4-mini": { inputPerMTok: 1.1, outputPerMTok: 4.4, contextWindow: 200_000 },
+
+    "claude-opus-4": { inputPerMTok: 15, outputPerMTok: 75, contextWindow: 200_000 },
+    "claude-sonnet-4": { inputPerMTok: 3, outputPerMTok: 15, contextWindow: 200_000 },
+    "claude-3-7-sonnet": { inputPerMTok: 3, outputPerMTok: 15, contextWindow: 200_000 },
+    "claude-3-5-haiku": { inputPerMTok: 0.8, outputPerMTok: 4, contextWindow: 200_000 },
+};
@@ -0,0 +1,195 @@
+import { env } from "@/config/env";
+import { withCassette } from "@/services/cassette";
+import { estimateTokens } from "@/utils/estimate-tokens";
+import type {
+    AgentLlmConfig,
+    LlmAgentName,
+    LlmCallContext,
+    LlmCallStats,
+    LlmProvider,
+    LlmProviderName,
+    LlmRequest,
+    LlmResponse,
+    StructuredOutputMode,
+} from "@/types/llm";
+
+import { createOpenAiProvider } from "./openai-provider";
+import { createAnthropicProvider } from "./anthropic-provider";
+import { appendToUsageLedger } from "./usage-ledger";
+import { estimateCostUsd, findModelPrice } from "./usage";
+import { getCachedResponse, responseCacheKey, saveCachedResponse } from "./response-cache";
+
+const providers = new Map<LlmProviderName, LlmProvider>();
+
+function getProvider(name: LlmProviderName): LlmProvider {
+    let provider = providers.get(name);
+
+    if (!provider) {
+        provider = name === "anthropic"
+            ? createAnthropicProvider(env.anthropicApiKey)
+            : createOpenAiProvider(name, name === "openai" ? env.openaiApiKey : env.openaiCompatibleApiKey);
+        providers.set(name, provider);
+    }
+
+    return provider;
+}
+
+/**
+ * Rewrites a request for the structured output mode the provider can honor.
+ *
+ * `native` is kept when the provider supports it. Otherwise the schema is described in a
+ * system message, and `json_object` mode is requested when the mode and provider allow it.
+ */
+function adaptStructuredOutput(
+    request: LlmRequest,
+    mode: StructuredOutputMode,
+    provider: LlmProvider
+): { request: LlmRequest; mode: StructuredOutputMode } {
+    if (!request.jsonSchema) return { request, mode };
+
+    if (mode === "native" && provider.supports.includes("native")) {
+        return { request, mode };
+    }
+
+    const effectiveMode: StructuredOutputMode = mode !== "prompt" && provider.supports.includes("json-mode")
+        ? "json-mode"
+        : "prompt";
+
+    const instructions =
+        `Respond with a single JSON document matching this JSON schema (${request.jsonSchema.name}). ` +
+        `Output the JSON only, without Markdown code fences or comments.\n\n` +
+        JSON.stringify(request.jsonSchema.schema, null, 2);
+
+    return {
+        mode: effectiveMode,
+        request: {
+            messages: [{ role: "system", content: instructions }, ...request.messages],
+            jsonMode: effectiveMode === "json-mode",
+        },
+    };
+}
+
+/**
+ * Warns when a prompt, plus the requested output tokens, probably does not fit in the
+ * model's context window (from the price table). The estimate is rough, so the call is
+ * still made.
+ */
+function warnIfOverContextWindow(agent: LlmAgentName, request: LlmRequest, config: AgentLlmConfig): void {
+    const contextWindow = findModelPrice(config.model)?.contextWindow;
+    if (!contextWindow) return;
+
+    const text = request.messages.map(m => m.content).join("\n")
+        + (request.jsonSchema ? JSON.stringify(request.jsonSchema.schema) : "");
+    const estimated = estimateTokens(text) + (config.maxTokens ?? 0);
+
+    if (estimated > contextWindow) {
+        console.warn(
+            `⚠️ The ${agent} prompt is about ${estimated} tokens (with output), over the ` +
+            `${contextWindow}-token context window of ${config.model}. The call may fail or be truncated.`
+        );
+    }
+}
+
+/**
+ * Sends a request to the model configured for an agent.
+ *
+ * Resolves the agent's provider, model, temperature, timeout and base URL from the
+ * environment (`PLANNER_LLM_*`, `EXECUTOR_LLM_*`, `REPAIR_LLM_*`, falling back to `LLM_*`).
+ * When the request carries a JSON schema the provider cannot enforce, the schema is moved
+ * into the prompt, so callers should parse the content with `parseJsonSafe`.
+ * Calls go through the cassette recorder (`CASSETTE_MODE`). Outside cassette mode, identical
+ * requests are answered from the on-disk response cache (`LLM_CACHE*`, `--no-cache`), and the
+ * response says so with `cached: true`. Every response carries `stats`: tokens, latency and
+ * cost estimated from the price table (`MODEL_PRICES_PATH`), which is also appended to the
+ * usage ledger (`generated/llm-usage.jsonl`, read by `mat report`), except in replay mode.
+ *
+ * @param agent - The calling agent.
+ * @param request - The messages and optional JSON schema.
+ * @param overrides - Settings that take precedence over the environment for this call.
+ * @param context - The task the call is made for, recorded with it.
+ * @returns The answer content, the model that produced it, whether it came from the cache
+ *          and the call's accounting record.
+ *
+ * @example
+ * const { content } = await completeWithLlm("planner", {
+ *   messages: [{ role: "user", content: prompt }],
+ *   jsonSchema: { name: "PlannerOutput", schema: plannerOutputJsonSchema, strict: true },
+ * });
+ * const plan = parseJsonSafe<PlannerOutput>(content);
+ */
+export async function completeWithLlm(
+    agent: LlmAgentName,
+    request: LlmRequest,
+    overrides: Partial<AgentLlmConfig> = {},
+    context: LlmCallContext = {}
+): Promise<LlmResponse> {
+    const config: AgentLlmConfig = { ...env.llm[agent], ...overrides };
+    const provider = getProvider(config.provider);
+    const adapted = adaptStructuredOutput(request, config.structuredOutput, provider);
+
+    const where = config.baseUrl ? ` at ${config.baseUrl}` : "";
+    const structured = request.jsonSchema ? `, ${adapted.mode} structured output` : "";
+    console.log(`Calling ${provider.name} (${config.model}${where}${structured}) for the ${agent} agent...`);
+
+    // The cassette key covers everything that shapes the answer, but not the timeout or base URL.
+    const cassetteRequest = {
+        provider: provider.name,
+        model: config.model,
+        temperature: config.temperature,
+        maxTokens: config.maxTokens,
+        request: adapted.request,
+    };
+
+    warnIfOverContextWindow(agent, adapted.request, config);
+
+    // Cassettes already make calls reproducible; caching there would also hide calls from the recorder.
+    const useCache = env.llmCache.enabled && env.cassetteMode === "off";
+    const cacheRequest = { ...cassetteRequest, baseUrl: config.baseUrl };
+    const cacheKey = responseCacheKey(cacheRequest);
+
+    const startedAt = new Date();
+
+    const stats = (response: LlmResponse, cached: boolean): LlmCallStats => {
+        const promptTokens = cached ? 0 : response.usage?.promptTokens ?? 0;
+        const completionTokens = cached ? 0 : response.usage?.completionTokens ?? 0;
+
+        return {
+            agent,
+            provider: provider.name,
+            model: response.model || config.model,
+            promptTokens,
+            completionTokens,
+            latencyMs: Date.now() - startedAt.getTime(),
+            costUsd: estimateCostUsd(response.model || config.model, promptTokens, completionTokens),
+            cached,
+            startedAt: startedAt.toISOString(),
+            ...(context.taskId !== undefined && { taskId: context.taskId }),
+        };
+    };
+
+    // Replayed calls were paid for when they were recorded.
+    const record = (callStats: LlmCallStats): LlmCallStats => {
+        if (env.cassetteMode !== "replay") appendToUsageLedger(callStats);
+        return callStats;
+    };
+
+    if (useCache) {
+        const cached = getCachedResponse(cacheKey);
+
+        if (cached) {
+            console.log(`✓ Reused cached ${provider.name} response (${cacheKey.slice(0, 12)})`);
+            return { ...cached, cached: true, stats: record(stats(cached, true)) };
+        }
+    }
+
+    const response = await withCassette("llm", cassetteRequest, () => provider.complete(adapted.request, config));
+    const callStats = record(stats(response, false));
+    console.log(
+        `✓ Received response from ${provider.name} (${callStats.promptTokens} + ${callStats.completionTokens} tokens, ` +
+        `${callStats.latencyMs} ms, ~$${callStats.costUsd.toFixed(4)})`
+    );
+
+    if (useCache) saveCachedResponse(cacheKey, cacheRequest, response);
+
+    return { ...response, cached: false, stats: callStats };
+}
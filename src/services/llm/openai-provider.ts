@@ -0,0 +1,76 @@
+import OpenAI from "openai";
+
+import type { LlmProvider, LlmProviderName } from "@/types/llm";
+
+/**
+ * Creates a provider for the OpenAI Chat Completions API.
+ *
+ * The same implementation serves OpenAI and any OpenAI-compatible server (Ollama,
+ * llama.cpp, vLLM, LM Studio, ...) reached through `baseUrl`. Both may send a `json_schema`
+ * or `json_object` `response_format` (`supports`); which one is sent, if any, is the agent's
+ * `structuredOutput` (`*_STRUCTURED_OUTPUT`). Compatible servers differ in the formats they
+ * accept, so that setting defaults to `prompt` for `openai-compatible` (no `response_format`),
+ * and `json-mode` or `native` must be set explicitly for servers that support them.
+ *
+ * @param name - `openai` or `openai-compatible`.
+ * @param apiKey - The API key. Local servers usually accept any value.
+ * @returns The provider.
+ *
+ * @example
+ * const ollama = createOpenAiProvider("openai-compatible", "local");
+ * await ollama.complete({ messages }, { provider: "openai-compatible", model: "qwen2.5-coder", baseUrl: "http://localhost:11434/v1", ... });
+ */
+export function createOpenAiProvider(name: Extract<LlmProviderName, "openai" | "openai-compatible">, apiKey: string): LlmProvider {
+    const clients = new Map<string, OpenAI>();
+
+    function getClient(baseUrl?: string): OpenAI {
+        const key = baseUrl ?? "";
+        let client = clients.get(key);
+
+        if (!client) {
+            client = new OpenAI({ apiKey, baseURL: baseUrl });
+            clients.set(key, client);
+        }
+
+        return client;
+    }
+
+    return {
+        name,
+        supports: ["native", "json-mode"],
+
+        async complete(request, config) {
+            const responseFormat = request.jsonSchema
+                ? {
+                    type: "json_schema" as const,
+                    json_schema: {
+                        name: request.jsonSchema.name,
+                        schema: request.jsonSchema.schema,
+                        strict: request.jsonSchema.strict,
+                    },
+                }
+                : request.jsonMode
+                    ? { type: "json_object" as const }
+                    : undefined;
+
+            const response = await getClient(config.baseUrl).chat.completions.create({
+                model: config.model,
+                messages: request.messages,
+                ...(config.temperature !== undefined && { temperature: config.temperature }),
+                ...(config.maxTokens !== undefined && { max_tokens: config.maxTokens }),
+                ...(responseFormat && { response_format: responseFormat }),
+            }, {
+                timeout: config.timeoutMs,
+            });
+
+            return {
+                content: response.choices[0]?.message?.content ?? "",
+                model: response.model,
+                usage: response.usage && {
+                    promptTokens: response.usage.prompt_tokens,
+                    completionTokens: response.usage.completion_tokens,
+                },
+            };
+        },
+    };
+}
@@ -0,0 +1,103 @@
+import fs from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+
+import { env } from "@/config/env";
+import type { LlmResponse } from "@/types/llm";
+import { stableStringify } from "@/utils/stable-stringify";
+
+/**
+ * One cached answer, saved as `<LLM_CACHE_DIR>/<key>.json`.
+ */
+type ResponseCacheEntry = {
+    key: string;
+    createdAt: string;
+    request: unknown;
+    response: LlmResponse;
+};
+
+function cacheDir(): string {
+    return path.resolve(process.cwd(), env.llmCache.dir);
+}
+
+function isExpired(createdAt: string): boolean {
+    return Date.now() - new Date(createdAt).getTime() > env.llmCache.ttlHours * 3600_000;
+}
+
+/**
+ * Computes the cache key of a model request: a SHA-256 of everything that shapes the
+ * answer (provider, model, temperature, messages, schema, ...).
+ *
+ * @param request - The serializable request.
+ * @returns The hex key.
+ */
+export function responseCacheKey(request: unknown): string {
+    return crypto.createHash("sha256").update(stableStringify(request)).digest("hex");
+}
+
+/**
+ * Returns the cached answer for a key, or `undefined` when there is none or it is older
+ * than `LLM_CACHE_TTL_HOURS` (expired entries are deleted).
+ *
+ * @param key - A key from `responseCacheKey`.
+ */
+export function getCachedResponse(key: string): LlmResponse | undefined {
+    const file = path.join(cacheDir(), `${key}.json`);
+    if (!fs.existsSync(file)) return undefined;
+
+    try {
+        const entry = JSON.parse(fs.readFileSync(file, "utf8")) as ResponseCacheEntry;
+
+        if (isExpired(entry.createdAt)) {
+            fs.rmSync(file, { force: true });
+            return undefined;
+        }
+
+        return entry.response;
+    } catch {
+        // A truncated or hand-edited entry is a miss; it is overwritten by the next answer.
+        return undefined;
+    }
+}
+
+/**
+ * Stores an answer, then prunes the cache: expired entries are deleted, followed by the
+ * least recently written ones while the cache exceeds `LLM_CACHE_MAX_MB`.
+ *
+ * @param key - A key from `responseCacheKey`.
+ * @param request - The request the key was computed from, stored for inspection.
+ * @param response - The answer to cache.
+ */
+export function saveCachedResponse(key: string, request: unknown, response: LlmResponse): void {
+    const dir = cacheDir();
+    fs.mkdirSync(dir, { recursive: true });
+
+    const entry: ResponseCacheEntry = { key, createdAt: new Date().toISOString(), request, response };
+    fs.writeFileSync(path.join(dir, `${key}.json`), JSON.stringify(entry, null, 2), "utf8");
+
+    pruneResponseCache();
+}
+
+function pruneResponseCache(): void {
+    const dir = cacheDir();
+    const maxBytes = env.llmCache.maxMb * 1024 * 1024;
+    const maxAgeMs = env.llmCache.ttlHours * 3600_000;
+
+    const entries = fs.readdirSync(dir)
+        .filter(name => name.endsWith(".json"))
+        .map(name => {
+            const file = path.join(dir, name);
+            const stat = fs.statSync(file);
+            return { file, size: stat.size, mtimeMs: stat.mtimeMs };
+        })
+        .sort((a, b) => a.mtimeMs - b.mtimeMs);
+
+    let total = entries.reduce((sum, e) => sum + e.size, 0);
+
+    for (const entry of entries) {
+        if (Date.now() - entry.mtimeMs <= maxAgeMs && total <= maxBytes) continue;
+
+        fs.rmSync(entry.file, { force: true });
+        total -= entry.size;
+    }
+}
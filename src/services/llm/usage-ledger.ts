@@ -0,0 +1,44 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import type { LlmCallStats } from "@/types/llm";
+
+/** One line per model call, appended by `completeWithLlm`. */
+export const USAGE_LEDGER_PATH = path.join(process.cwd(), "generated", "llm-usage.jsonl");
+
+/**
+ * Appends a call to the usage ledger. Plans and manifests only keep the calls of what they
+ * produced; the ledger keeps every call, including dry runs, re-plans and failed runs.
+ * A ledger that cannot be written only costs a warning, never the call.
+ *
+ * @param stats - The accounting record of the call.
+ */
+export function appendToUsageLedger(stats: LlmCallStats): void {
+    try {
+        fs.mkdirSync(path.dirname(USAGE_LEDGER_PATH), { recursive: true });
+        fs.appendFileSync(USAGE_LEDGER_PATH, `${JSON.stringify(stats)}\n`, "utf8");
+    } catch (err: any) {
+        console.warn(`⚠️ Model call not recorded in ${USAGE_LEDGER_PATH}: ${err.message}`);
+    }
+}
+
+/**
+ * Reads every call of the usage ledger, oldest first. Unreadable lines (e.g. cut by a crash)
+ * are skipped.
+ *
+ * @returns The recorded calls, or an empty list when nothing was recorded yet.
+ */
+export function readUsageLedger(): LlmCallStats[] {
+    if (!fs.existsSync(USAGE_LEDGER_PATH)) return [];
+
+    return fs.readFileSync(USAGE_LEDGER_PATH, "utf8")
+        .split("\n")
+        .filter(line => line.trim())
+        .flatMap(line => {
+            try {
+                return [JSON.parse(line) as LlmCallStats];
+            } catch {
+                return [];
+            }
+        });
+}
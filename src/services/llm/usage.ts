@@ -0,0 +1,69 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import { env } from "@/config/env";
+import type { ModelPrice } from "@/types/llm";
+
+import { DEFAULT_MODEL_PRICES } from "./default-model-prices";
+
+let cachedPrices: Record<string, ModelPrice> | undefined;
+
+/**
+ * Loads the price table: the built-in prices, overridden and extended by the JSON file at
+ * `MODEL_PRICES_PATH` (default `config/model-prices.json`) when it exists.
+ *
+ * @returns The prices by model name prefix.
+ * @throws {Error} If the file is not valid JSON or an entry has no numeric prices
+ */
+export function loadModelPrices(): Record<string, ModelPrice> {
+    if (cachedPrices) return cachedPrices;
+
+    const pricesPath = path.resolve(process.cwd(), env.modelPricesPath);
+    let custom: Record<string, ModelPrice> = {};
+
+    if (fs.existsSync(pricesPath)) {
+        try {
+            custom = JSON.parse(fs.readFileSync(pricesPath, "utf8"));
+        } catch (err: any) {
+            throw new Error(`Invalid model prices file ${pricesPath}: ${err.message}`);
+        }
+
+        for (const [model, price] of Object.entries(custom)) {
+            if (typeof price?.inputPerMTok !== "number" || typeof price?.outputPerMTok !== "number") {
+                throw new Error(`Model price "${model}" in ${pricesPath} needs numeric "inputPerMTok" and "outputPerMTok"`);
+            }
+        }
+    }
+
+    cachedPrices = { ...DEFAULT_MODEL_PRICES, ...custom };
+    return cachedPrices;
+}
+
+/**
+ * Finds the price of a model: the entry whose key is the longest prefix of the model name.
+ *
+ * @param model - The model name (e.g. `gpt-4.1-mini-2025-04-14`).
+ * @returns The price, or `undefined` for unknown models.
+ *
+ * @example
+ * findModelPrice("claude-sonnet-4-20250514") // { inputPerMTok: 3, outputPerMTok: 15, contextWindow: 200000 }
+ */
+export function findModelPrice(model: string): ModelPrice | undefined {
+    const prices = loadModelPrices();
+
+    const key = Object.keys(prices)
+        .filter(k => model === k || model.startsWith(k))
+        .sort((a, b) => b.length - a.length)[0];
+
+    return key ? prices[key] : undefined;
+}
+
+/**
+ * Estimates the cost of a call in USD. Models without a price cost 0.
+ */
+export function estimateCostUsd(model: string, promptTokens: number, completionTokens: number): number {
+    const price = findModelPrice(model);
+    if (!price) return 0;
+
+    return (promptTokens * price.inputPerMTok + completionTokens * price.outputPerMTok) / 1_000_000;
+}
@@ -1,6 +1,44 @@
 import { ApiClient } from '@mondaydotcomorg/api'
 import { env } from '@/config/env'
+import { withCassette } from '@/services/cassette'
+
+// Checked here rather than in env.ts: only Monday calls need the key (replayed ones do not).
+if (env.cassetteMode !== 'replay' && !env.mondayApiKey) throw new Error('Missing MONDAY_API_KEY')
 
 const mondayClient = new ApiClient({ token: env.mondayApiKey })
 
+/**
+ * Sends a GraphQL request to another endpoint (`MONDAY_API_URL`), e.g. a local mock server.
+ */
+async function requestEndpoint<T>(url: string, query: string, variables?: Record<string, unknown>): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', authorization: env.mondayApiKey },
+    body: JSON.stringify({ query, variables }),
+  })
+
+  const body = await response.json().catch(() => ({})) as { data?: T; errors?: { message: string }[] }
+
+  if (!response.ok || body.errors?.length) {
+    throw new Error(`Monday API error ${response.status}: ${body.errors?.map(e => e.message).join('; ') ?? response.statusText}`)
+  }
+
+  return body.data as T
+}
+
+/**
+ * Sends a GraphQL request to Monday through the cassette recorder (`CASSETTE_MODE`),
+ * so Monday exchanges are recorded and replayed like model calls. With `MONDAY_API_URL`,
+ * the request goes to that endpoint instead of the Monday API.
+ *
+ * @param query - The GraphQL query or mutation.
+ * @param variables - The query variables.
+ * @returns The response data.
+ */
+export function mondayRequest<T>(query: string, variables?: Record<string, unknown>): Promise<T> {
+  return withCassette('monday', { query, variables }, () => env.mondayApiUrl
+    ? requestEndpoint<T>(env.mondayApiUrl, query, variables)
+    : mondayClient.request<T>(query, variables))
+}
+
 export default mondayClient
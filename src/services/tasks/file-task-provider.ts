@@ -0,0 +1,123 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import type { Task, TaskProvider } from "@/types/task";
+import { parseSimpleYaml, SimpleYamlValue } from "@/utils/parse-simple-yaml";
+
+const MARKDOWN_EXTENSIONS = [".md", ".markdown"];
+const YAML_EXTENSIONS = [".yaml", ".yml"];
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Finds the file of a task in the tasks directory: `<dir>/<taskId><extension>`, for the first
+ * extension that exists.
+ *
+ * @returns The absolute path, or `undefined` when the task has no file.
+ * @throws {Error} If the task ID contains a path separator
+ *
+ * @example
+ * findTaskFile("tasks", "PROJ-12", [".json"]); // "/path/to/project/tasks/PROJ-12.json"
+ */
+export function findTaskFile(dir: string, taskId: string, extensions: string[]): string | undefined {
+    if (path.basename(taskId) !== taskId) throw new Error(`Invalid task ID: ${taskId}`);
+
+    return extensions
+        .map(ext => path.resolve(process.cwd(), dir, `${taskId}${ext}`))
+        .find(file => fs.existsSync(file));
+}
+
+/**
+ * Reads a JSON payload exported from a tracker.
+ *
+ * @throws {Error} If the file is not valid JSON
+ */
+export function readTaskPayload<T>(file: string): T {
+    try {
+        return JSON.parse(fs.readFileSync(file, "utf8")) as T;
+    } catch (err: any) {
+        throw new Error(`Task file is not valid JSON: ${file} (${err.message})`);
+    }
+}
+
+function text(value: SimpleYamlValue | undefined): string | undefined {
+    return Array.isArray(value) ? value.map(v => `- ${v}`).join("\n") : value || undefined;
+}
+
+function acceptanceCriteria(meta: Record<string, SimpleYamlValue>): string | undefined {
+    const criteria = text(meta.acceptanceCriteria);
+    return criteria && `Acceptance criteria:\n${criteria}`;
+}
+
+/**
+ * Reads a Markdown task: optional YAML front matter (`title`, `description`,
+ * `acceptanceCriteria`), then the body.
+ * Without a `title`, the first `# ` heading is the task name.
+ */
+function parseMarkdownTask(content: string, taskId: string): Pick<Task, "name" | "description"> {
+    const frontMatter = FRONT_MATTER.exec(content);
+    const meta = frontMatter ? parseSimpleYaml(frontMatter[1]) : {};
+    let body = frontMatter ? content.slice(frontMatter[0].length) : content;
+
+    let name = text(meta.title) ?? text(meta.name);
+
+    if (!name) {
+        const heading = /^#[ \t]+(.+)$/m.exec(body);
+
+        if (heading) {
+            name = heading[1].trim();
+            body = body.replace(heading[0], "");
+        }
+    }
+
+    return {
+        name: name ?? taskId,
+        description: [text(meta.description), body.trim(), acceptanceCriteria(meta)].filter(Boolean).join("\n\n"),
+    };
+}
+
+/**
+ * Reads a YAML task: `title` (or `name`), `description` and `acceptanceCriteria`. Lists are
+ * written as Markdown lists.
+ */
+function parseYamlTask(content: string, taskId: string): Pick<Task, "name" | "description"> {
+    const meta = parseSimpleYaml(content);
+
+    return {
+        name: text(meta.title) ?? text(meta.name) ?? taskId,
+        description: [text(meta.description), acceptanceCriteria(meta)].filter(Boolean).join("\n\n"),
+    };
+}
+
+/**
+ * Creates a provider for local task files, so tasks can be planned offline:
+ * `<dir>/<taskId>.md` (or `.markdown`, `.yaml`, `.yml`).
+ *
+ * @param dir - The tasks directory (`TASKS_DIR`), relative to the working directory.
+ * @returns The provider.
+ *
+ * @example
+ * // tasks/avatar.md: "# Show the user avatar\n\nThe header shows initials only..."
+ * await createFileTaskProvider("tasks").getTask("avatar");
+ * // { id: "avatar", name: "Show the user avatar", description: "The header shows initials only...", source: "file" }
+ */
+export function createFileTaskProvider(dir: string): TaskProvider {
+    return {
+        name: "file",
+
+        async getTask(taskId) {
+            const file = findTaskFile(dir, taskId, [...MARKDOWN_EXTENSIONS, ...YAML_EXTENSIONS]);
+
+            if (!file) {
+                throw new Error(`Task file not found: ${path.resolve(process.cwd(), dir, taskId)}.md (or .markdown, .yaml, .yml)`);
+            }
+
+            const content = fs.readFileSync(file, "utf8");
+            const task = YAML_EXTENSIONS.includes(path.extname(file))
+                ? parseYamlTask(content, taskId)
+                : parseMarkdownTask(content, taskId);
+
+            return { id: taskId, ...task, source: "file" };
+        },
+    };
+}
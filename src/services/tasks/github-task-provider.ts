@@ -0,0 +1,77 @@
+import { withCassette } from "@/services/cassette";
+import type { TaskProvider } from "@/types/task";
+
+import { findTaskFile, readTaskPayload } from "./file-task-provider";
+
+const GITHUB_API_URL = "https://api.github.com";
+
+/** The fields read from a GitHub issue (REST API or `gh issue view --json` export). */
+type GitHubIssue = {
+    number?: number;
+    title?: string;
+    body?: string | null;
+    html_url?: string;
+    url?: string;
+};
+
+async function fetchIssue(repository: string, token: string, issueNumber: string): Promise<GitHubIssue> {
+    const url = `${GITHUB_API_URL}/repos/${repository}/issues/${encodeURIComponent(issueNumber)}`;
+
+    return withCassette("github", { url }, async () => {
+        const response = await fetch(url, {
+            headers: {
+                accept: "application/vnd.github+json",
+                ...(token && { authorization: `Bearer ${token}` }),
+            },
+        });
+
+        if (!response.ok) {
+            throw new Error(`GitHub API error ${response.status} for ${repository}#${issueNumber}: ${await response.text()}`);
+        }
+
+        return await response.json() as GitHubIssue;
+    });
+}
+
+/**
+ * Creates a provider for GitHub issues. The task ID is the issue number (`42` or `#42`).
+ *
+ * An exported payload in `<tasksDir>/<number>.json` (e.g. `gh issue view 42 --json number,title,body,url`)
+ * is used when it exists, so issues can be planned offline; otherwise the issue is read from
+ * the REST API.
+ *
+ * @param options.repository - `owner/name` of the repository (`GITHUB_REPOSITORY`).
+ * @param options.token - Token for private repositories (`GITHUB_TOKEN`), optional.
+ * @param options.tasksDir - Directory of exported payloads (`TASKS_DIR`).
+ * @returns The provider.
+ */
+export function createGitHubTaskProvider(options: { repository: string; token: string; tasksDir: string }): TaskProvider {
+    return {
+        name: "github",
+
+        async getTask(taskId) {
+            const issueNumber = taskId.replace(/^#/, "");
+            const file = findTaskFile(options.tasksDir, issueNumber, [".json"]);
+
+            if (!file && !options.repository) {
+                throw new Error(`No exported issue at ${options.tasksDir}/${issueNumber}.json, and GITHUB_REPOSITORY is not set to fetch it.`);
+            }
+
+            const issue = file
+                ? readTaskPayload<GitHubIssue>(file)
+                : await fetchIssue(options.repository, options.token, issueNumber);
+
+            if (typeof issue.title !== "string") {
+                throw new Error(`Not a GitHub issue (no title): ${file ?? `${options.repository}#${issueNumber}`}`);
+            }
+
+            return {
+                id: issueNumber,
+                name: issue.title,
+                description: issue.body ?? "",
+                source: "github",
+                url: issue.html_url ?? issue.url,
+            };
+        },
+    };
+}
@@ -0,0 +1,120 @@
+import { withCassette } from "@/services/cassette";
+import type { TaskProvider } from "@/types/task";
+
+import { findTaskFile, readTaskPayload } from "./file-task-provider";
+
+/** Atlassian Document Format node (Jira Cloud REST API v3 rich text). */
+type AdfNode = {
+    type: string;
+    text?: string;
+    attrs?: { level?: number };
+    content?: AdfNode[];
+};
+
+/** The fields read from a Jira issue (REST API or exported JSON). */
+type JiraIssue = {
+    key?: string;
+    fields?: {
+        summary?: string;
+        /** Plain text (API v2, Data Center) or ADF (API v3). */
+        description?: string | AdfNode | null;
+    };
+};
+
+/**
+ * Converts an ADF document to plain text, with Markdown headings and list items.
+ */
+function adfToText(node: AdfNode): string {
+    const children = (node.content ?? []).map(adfToText).join("");
+
+    switch (node.type) {
+        case "text": return node.text ?? "";
+        case "hardBreak": return "\n";
+        case "heading": return `${"#".repeat(node.attrs?.level ?? 1)} ${children}\n\n`;
+        case "paragraph":
+        case "codeBlock":
+        case "blockquote": return `${children}\n\n`;
+        case "listItem": return `- ${children.trim()}\n`;
+        case "bulletList":
+        case "orderedList": return `${children}\n`;
+        default: return children;
+    }
+}
+
+function descriptionText(description: NonNullable<JiraIssue["fields"]>["description"]): string {
+    if (!description) return "";
+    if (typeof description === "string") return description.trim();
+
+    return adfToText(description).replace(/\n{3,}/g, "\n\n").trim();
+}
+
+type JiraTaskProviderOptions = {
+    /** `https://<site>.atlassian.net` (`JIRA_BASE_URL`). */
+    baseUrl: string;
+    /** Account email (`JIRA_EMAIL`); omit to authenticate with a personal access token. */
+    email: string;
+    /** API token or personal access token (`JIRA_API_TOKEN`). */
+    apiToken: string;
+    /** Directory of exported payloads (`TASKS_DIR`). */
+    tasksDir: string;
+};
+
+async function fetchIssue(options: JiraTaskProviderOptions, key: string): Promise<JiraIssue> {
+    const url = `${options.baseUrl.replace(/\/$/, "")}/rest/api/3/issue/${encodeURIComponent(key)}?fields=summary,description`;
+
+    return withCassette("jira", { url }, async () => {
+        const response = await fetch(url, {
+            headers: {
+                accept: "application/json",
+                // Jira Cloud uses an email and API token; Data Center uses a personal access token alone.
+                authorization: options.email
+                    ? `Basic ${Buffer.from(`${options.email}:${options.apiToken}`).toString("base64")}`
+                    : `Bearer ${options.apiToken}`,
+            },
+        });
+
+        if (!response.ok) {
+            throw new Error(`Jira API error ${response.status} for ${key}: ${await response.text()}`);
+        }
+
+        return await response.json() as JiraIssue;
+    });
+}
+
+/**
+ * Creates a provider for Jira issues. The task ID is the issue key (`PROJ-12`).
+ *
+ * An exported payload in `<tasksDir>/<key>.json` (the JSON of `GET /rest/api/3/issue/<key>`) is
+ * used when it exists, so issues can be planned offline; otherwise the issue is read from the
+ * REST API. Rich text descriptions (ADF) are converted to plain text.
+ *
+ * @param options - Site, credentials and payload directory (`JiraTaskProviderOptions`).
+ * @returns The provider.
+ */
+export function createJiraTaskProvider(options: JiraTaskProviderOptions): TaskProvider {
+    return {
+        name: "jira",
+
+        async getTask(taskId) {
+            const file = findTaskFile(options.tasksDir, taskId, [".json"]);
+
+            if (!file && !(options.baseUrl && options.apiToken)) {
+                throw new Error(`No exported issue at ${options.tasksDir}/${taskId}.json, and JIRA_BASE_URL and JIRA_API_TOKEN are not set to fetch it.`);
+            }
+
+            const issue = file ? readTaskPayload<JiraIssue>(file) : await fetchIssue(options, taskId);
+
+            if (typeof issue.fields?.summary !== "string") {
+                throw new Error(`Not a Jira issue (no fields.summary): ${file ?? taskId}`);
+            }
+
+            return {
+                id: issue.key ?? taskId,
+                name: issue.fields.summary,
+                description: descriptionText(issue.fields.description),
+                source: "jira",
+                ...(options.baseUrl && { url: `${options.baseUrl.replace(/\/$/, "")}/browse/${issue.key ?? taskId}` }),
+            };
+        },
+    };
+}
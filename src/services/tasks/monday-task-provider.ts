@@ -0,0 +1,30 @@
+import type { TaskProvider } from "@/types/task";
+
+/**
+ * Creates a provider for Monday.com items. The task ID is the item ID. Besides the description,
+ * the item's updates (with replies), subitems and selected column values are read.
+ *
+ * The Monday client is loaded on first use, so the other providers run without `MONDAY_API_KEY`.
+ *
+ * @returns The provider.
+ */
+export function createMondayTaskProvider(): TaskProvider {
+    return {
+        name: "monday",
+
+        async getTask(taskId) {
+            const { getMondayTaskById } = await import("@/tools/monday");
+            const item = await getMondayTaskById(taskId);
+
+            return {
+                id: item.id,
+                name: item.name,
+                description: item.description,
+                source: "monday",
+                fields: item.fields,
+                comments: item.updates,
+                subtasks: item.subitems,
+            };
+        },
+    };
+}
@@ -0,0 +1,47 @@
+import { env } from "@/config/env";
+import type { TaskProvider, TaskProviderName } from "@/types/task";
+
+import { createJiraTaskProvider } from "./jira-task-provider";
+import { createFileTaskProvider } from "./file-task-provider";
+import { createGitHubTaskProvider } from "./github-task-provider";
+import { createMondayTaskProvider } from "./monday-task-provider";
+
+const providers = new Map<TaskProviderName, TaskProvider>();
+
+function createTaskProvider(name: TaskProviderName): TaskProvider {
+    switch (name) {
+        case "monday": return createMondayTaskProvider();
+        case "file": return createFileTaskProvider(env.tasksDir);
+        case "github": return createGitHubTaskProvider({
+            repository: env.githubRepository,
+            token: env.githubToken,
+            tasksDir: env.tasksDir,
+        });
+        case "jira": return createJiraTaskProvider({
+            baseUrl: env.jiraBaseUrl,
+            email: env.jiraEmail,
+            apiToken: env.jiraApiToken,
+            tasksDir: env.tasksDir,
+        });
+    }
+}
+
+/**
+ * Returns the provider tasks are read from.
+ *
+ * @param name - The tracker (`--source`); defaults to `TASK_PROVIDER` (or `monday`).
+ * @returns The provider, created on first use.
+ *
+ * @example
+ * const task = await getTaskProvider("file").getTask("avatar"); // reads tasks/avatar.md
+ */
+export function getTaskProvider(name: TaskProviderName = env.taskProvider): TaskProvider {
+    let provider = providers.get(name);
+
+    if (!provider) {
+        provider = createTaskProvider(name);
+        providers.set(name, provider);
+    }
+
+    return provider;
+}
@@ -15,6 +15,7 @@ export function formatPlanToMarkdown(plan: PlannerOutput): string {
         estimatedComplexity,
         missingInformation,
         confidence,
+        clarifications,
     } = plan;
 
     return `# Implementation Plan — Task ${task.id}: ${task.title}
@@ -79,7 +80,10 @@ ${outOfScope.map(i => `- ${i}`).join("\n")}
 
 ## ❓ Missing Information
 ${missingInformation.map(i => `- ${i}`).join("\n")}
-
+${clarifications?.length ? `
+## 💬 Clarifications
+${clarifications.map(c => `- **${c.question}** (${c.askedBy})\n  ${c.answer}`).join("\n")}
+` : ""}
 ## 📊 Estimated Complexity
 ${estimatedComplexity}
 
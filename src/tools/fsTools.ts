@@ -2,6 +2,7 @@ import path from "node:path";
 import fs from "node:fs/promises";
 
 import type { PlannerOutput } from "@/types/plannerTypes";
+import { parsePlannerOutput } from "@/utils/parse-planner-output";
 
 const dir = path.join(process.cwd(), "plans");
 
@@ -18,3 +19,21 @@ export async function savePlannerOutput(
     await fs.writeFile(full, JSON.stringify(output, null, 2), "utf8");
     return { jsonPath: full };
 }
+
+/**
+ * Reads the saved plan of a task (`plans/task-<id>.json`).
+ *
+ * @returns The plan, or `undefined` when the task has no saved plan.
+ * @throws {Error} If the saved plan does not match the plan schema
+ */
+export async function loadPlannerOutput(taskId: string): Promise<PlannerOutput | undefined> {
+    const full = path.join(dir, `task-${taskId}.json`);
+
+    try {
+        await fs.access(full);
+    } catch {
+        return undefined;
+    }
+
+    return parsePlannerOutput(await fs.readFile(full, "utf8"), full);
+}
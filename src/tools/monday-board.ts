@@ -0,0 +1,153 @@
+import { mondayRequest } from "@/services/mondayClient";
+import { PUBLISHED_UPDATE_MARKER } from "@/tools/monday-publisher";
+import type { ColumnValue, ItemsPage, ItemUpdate } from "@/types/monday-types";
+
+/** Items fetched per request. Kept low because every item brings its latest updates. */
+const PAGE_SIZE = 50;
+
+/** Latest updates read per item to find its last activity. */
+const MAX_UPDATES = 10;
+
+const ITEM_FIELDS = `
+    id
+    name
+    updated_at
+    group { id title }
+    column_values { id text column { title } }
+    updates (limit: ${MAX_UPDATES}) {
+        id
+        text_body
+        created_at
+        updated_at
+        replies { id text_body created_at }
+    }
+`;
+
+type BoardItemResponse = {
+    id: string;
+    name: string;
+    updated_at?: string | null;
+    group: { id: string; title: string } | null;
+    column_values: ColumnValue[];
+    updates: ItemUpdate[];
+};
+
+/**
+ * Items to list: a board, optionally one of its groups, and a column filter.
+ */
+export type BoardItemSelection = {
+    boardId: string;
+    groupId?: string;
+    /** Keeps the items whose column (ID or title) has this text, case-insensitively. */
+    filter?: { column: string; value: string };
+};
+
+export type BoardItem = {
+    id: string;
+    name: string;
+    groupId?: string;
+    /**
+     * Last change of the item: an update or reply posted or edited, or an edit of its description
+     * or columns. The updates published by this agent and its own changes are left out, not the
+     * replies to its updates.
+     */
+    lastUpdateAt?: string;
+};
+
+function matchesFilter(item: BoardItemResponse, filter: BoardItemSelection["filter"]): boolean {
+    if (!filter) return true;
+
+    const column = filter.column.toLowerCase();
+    const value = item.column_values.find(v => v.id.toLowerCase() === column || v.column?.title.toLowerCase() === column);
+
+    return (value?.text ?? "").trim().toLowerCase() === filter.value.toLowerCase();
+}
+
+function latest(dates: (string | null | undefined)[]): string | undefined {
+    return dates.filter((d): d is string => !!d).sort((a, b) => Date.parse(a) - Date.parse(b)).at(-1);
+}
+
+function lastUpdateAt(item: BoardItemResponse): string | undefined {
+    const updates = item.updates ?? [];
+    const isPublished = (u: ItemUpdate) => !!u.text_body?.includes(PUBLISHED_UPDATE_MARKER);
+
+    // Updates published by this agent count by their replies only, e.g. answers to its questions.
+    const dates = updates.flatMap(u => [
+        ...(isPublished(u) ? [] : [u.updated_at ?? u.created_at]),
+        ...(u.replies ?? []).map(r => r.created_at),
+    ]);
+
+    // Edits of the description or columns only show in the item's date, which this agent also
+    // moves when it sets the status column, just before posting its update: the item's date
+    // counts when it is later than that update.
+    const publishedAt = latest(updates.filter(isPublished).map(u => u.updated_at ?? u.created_at));
+    if (item.updated_at && (!publishedAt || Date.parse(item.updated_at) > Date.parse(publishedAt))) {
+        dates.push(item.updated_at);
+    }
+
+    return latest(dates);
+}
+
+async function fetchFirstPage(selection: BoardItemSelection): Promise<ItemsPage<BoardItemResponse>> {
+    const itemsPage = `items_page (limit: ${PAGE_SIZE}) { cursor items { ${ITEM_FIELDS} } }`;
+
+    if (selection.groupId) {
+        const response = await mondayRequest<{ boards: { groups: { items_page: ItemsPage<BoardItemResponse> }[] }[] }>(
+            `query ($boardId: ID!, $groupId: String!) { boards (ids: [$boardId]) { groups (ids: [$groupId]) { ${itemsPage} } } }`,
+            { boardId: selection.boardId, groupId: selection.groupId }
+        );
+
+        const board = response.boards?.[0];
+        if (!board) throw new Error(`Monday board not found: ${selection.boardId}`);
+        if (!board.groups?.[0]) throw new Error(`Group ${selection.groupId} not found on board ${selection.boardId}`);
+
+        return board.groups[0].items_page;
+    }
+
+    const response = await mondayRequest<{ boards: { items_page: ItemsPage<BoardItemResponse> }[] }>(
+        `query ($boardId: ID!) { boards (ids: [$boardId]) { ${itemsPage} } }`,
+        { boardId: selection.boardId }
+    );
+
+    const board = response.boards?.[0];
+    if (!board) throw new Error(`Monday board not found: ${selection.boardId}`);
+
+    return board.items_page;
+}
+
+/**
+ * Lists the items of a Monday board or group, page by page, with the date of their last
+ * update (`lastUpdateAt`), so callers can tell which items changed since they were planned.
+ *
+ * @param selection - The board, group and column filter.
+ * @returns The matching items, in board order.
+ * @throws {Error} If the board or group does not exist, or a request fails.
+ *
+ * @example
+ * const items = await listBoardItems({ boardId: "123", groupId: "topics", filter: { column: "Status", value: "Ready" } });
+ * // [{ id: "456", name: "Show the user avatar", groupId: "topics", lastUpdateAt: "2025-01-10T09:30:00Z" }]
+ */
+export async function listBoardItems(selection: BoardItemSelection): Promise<BoardItem[]> {
+    const items: BoardItemResponse[] = [];
+    let page = await fetchFirstPage(selection);
+
+    while (true) {
+        items.push(...page.items);
+        if (!page.cursor) break;
+
+        const response = await mondayRequest<{ next_items_page: ItemsPage<BoardItemResponse> }>(
+            `query ($cursor: String!) { next_items_page (cursor: $cursor, limit: ${PAGE_SIZE}) { cursor items { ${ITEM_FIELDS} } } }`,
+            { cursor: page.cursor }
+        );
+        page = response.next_items_page;
+    }
+
+    return items
+        .filter(item => matchesFilter(item, selection.filter))
+        .map(item => ({
+            id: item.id,
+            name: item.name,
+            groupId: item.group?.id,
+            lastUpdateAt: lastUpdateAt(item),
+        }));
+}
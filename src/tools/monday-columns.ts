@@ -0,0 +1,74 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import { env } from "@/config/env";
+import { ColumnValue } from "@/types/monday-types";
+
+/** Column types given to the planner when no column mapping file exists. */
+const DEFAULT_COLUMN_TYPES = ["status", "people", "tags", "board_relation", "dependency", "date", "timeline", "dropdown"];
+
+let cachedMapping: Record<string, string> | null | undefined;
+
+/**
+ * Loads the column mapping from `MONDAY_COLUMNS_PATH` (default `config/monday-columns.json`):
+ * the label shown to the planner for each column ID, e.g. `{ "Priority": "priority_1" }`.
+ *
+ * @returns The column IDs by label, or `null` when the file does not exist.
+ * @throws {Error} If the file is not valid JSON or a column ID is not a string
+ */
+function loadColumnMapping(): Record<string, string> | null {
+    if (cachedMapping !== undefined) return cachedMapping;
+
+    const mappingPath = path.resolve(process.cwd(), env.mondayColumnsPath);
+    let mapping: Record<string, string> | null = null;
+
+    if (fs.existsSync(mappingPath)) {
+        try {
+            mapping = JSON.parse(fs.readFileSync(mappingPath, "utf8")) as Record<string, string>;
+        } catch (err: any) {
+            throw new Error(`Invalid Monday column mapping ${mappingPath}: ${err.message}`);
+        }
+
+        for (const [label, columnId] of Object.entries(mapping)) {
+            if (typeof columnId !== "string") {
+                throw new Error(`Column "${label}" in ${mappingPath} must map to a column ID string`);
+            }
+        }
+    }
+
+    cachedMapping = mapping;
+    return mapping;
+}
+
+function columnText(value: ColumnValue): string {
+    return (value.text || value.display_value || "").trim();
+}
+
+/**
+ * Picks the column values given to the planner. With a column mapping, the mapped columns
+ * under their labels, in mapping order; without one, the columns of `DEFAULT_COLUMN_TYPES`
+ * under their titles. Empty values are left out, and so is `MONDAY_STATUS_COLUMN`, which
+ * holds this agent's own progress ("Planned", "Code generated"...).
+ *
+ * @param values - All column values of the item.
+ * @returns The values by label.
+ *
+ * @example
+ * // config/monday-columns.json: { "Priority": "priority_1", "Assignee": "person" }
+ * selectColumnValues(item.column_values); // { Priority: "High", Assignee: "Ana Silva" }
+ */
+export function selectColumnValues(values: ColumnValue[]): Record<string, string> {
+    const mapping = loadColumnMapping();
+    const isOwnColumn = (columnId: string) => columnId === env.mondayPublish.statusColumn;
+
+    const entries: [string, string][] = mapping
+        ? Object.entries(mapping).filter(([, columnId]) => !isOwnColumn(columnId)).map(([label, columnId]) => {
+            const value = values.find(v => v.id === columnId);
+            return [label, value ? columnText(value) : ""];
+        })
+        : values
+            .filter(v => DEFAULT_COLUMN_TYPES.includes(v.type) && !isOwnColumn(v.id))
+            .map(v => [v.column?.title ?? v.id, columnText(v)]);
+
+    return Object.fromEntries(entries.filter(([, text]) => text));
+}
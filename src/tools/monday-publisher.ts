@@ -0,0 +1,234 @@
+import { env } from "@/config/env";
+import type { PatchResult } from "@/utils/apply-patches";
+import type { PlannerOutput } from "@/types/plannerTypes";
+import type { ExecutionResult } from "@/types/execution";
+import { markdownToHtml } from "@/utils/markdown-to-html";
+import { formatPlanToMarkdown } from "@/tools/format-plan-to-markdown";
+
+/**
+ * Footer of every published update. It finds the update again on the next publish, and
+ * keeps published updates out of the planner's input.
+ */
+export const PUBLISHED_UPDATE_MARKER = "mat-ai-agent:";
+
+/**
+ * Footer of the plan update listing the subitems created by this agent, so they are not read
+ * back as the task's subtasks.
+ */
+const PUBLISHED_SUBITEMS_MARKER = `${PUBLISHED_UPDATE_MARKER}subitems=`;
+
+/** Monday rejects longer item names. */
+const MAX_SUBITEM_NAME_LENGTH = 255;
+
+type PublishStep = "plan" | "execution" | "apply";
+
+type PublishedItem = {
+    id: string;
+    board: { id: string };
+    updates: { id: string; text_body: string | null }[];
+    subitems: { id: string; name: string }[] | null;
+};
+
+type MondayRequest = <T>(query: string, variables?: Record<string, unknown>) => Promise<T>;
+
+/**
+ * Whether results of this plan are published: `MONDAY_PUBLISH=on` (or `--publish`) and a
+ * task read from Monday.
+ */
+function shouldPublish(plan: PlannerOutput): boolean {
+    return env.mondayPublish.enabled && (plan.metadata?.taskSource ?? env.taskProvider) === "monday";
+}
+
+function subitemName(step: string): string {
+    const name = step.trim().replace(/\s+/g, " ");
+    return name.length > MAX_SUBITEM_NAME_LENGTH ? `${name.slice(0, MAX_SUBITEM_NAME_LENGTH - 1)}…` : name;
+}
+
+/**
+ * Reads the IDs of the subitems created by this agent from the footer of its plan update.
+ *
+ * @param updates - The updates of the item.
+ * @returns The subitem IDs.
+ */
+export function findPublishedSubitemIds(updates: { text_body?: string | null }[]): Set<string> {
+    const ids = updates
+        .map(u => u.text_body?.match(new RegExp(`${PUBLISHED_SUBITEMS_MARKER}([\\d,]+)`))?.[1])
+        .flatMap(list => list?.split(",").filter(Boolean) ?? []);
+
+    return new Set(ids);
+}
+
+/**
+ * Creates the update of a step, or edits the one published by an earlier run (found by its
+ * marker), so re-runs do not add duplicates. `subitemIds` are listed in the footer.
+ */
+async function upsertUpdate(
+    request: MondayRequest,
+    item: PublishedItem,
+    step: PublishStep,
+    markdown: string,
+    subitemIds: string[] = []
+): Promise<void> {
+    const marker = `${PUBLISHED_UPDATE_MARKER}${step}`;
+    const subitems = subitemIds.length ? `<p><sub>${PUBLISHED_SUBITEMS_MARKER}${subitemIds.join(",")}</sub></p>` : "";
+    const body = `${markdownToHtml(markdown)}\n<p><sub>${marker}</sub></p>${subitems}`;
+    const existing = item.updates.find(u => u.text_body?.includes(marker));
+
+    if (existing) {
+        await request(
+            `mutation ($id: ID!, $body: String!) { edit_update (id: $id, body: $body) { id } }`,
+            { id: existing.id, body }
+        );
+        console.log(`[monday] Update ${existing.id} edited (${step})`);
+        return;
+    }
+
+    const created = await request<{ create_update: { id: string } }>(
+        `mutation ($itemId: ID!, $body: String!) { create_update (item_id: $itemId, body: $body) { id } }`,
+        { itemId: item.id, body }
+    );
+    console.log(`[monday] Update ${created.create_update.id} posted (${step})`);
+}
+
+/**
+ * Creates a subitem for every implementation step that has none with the same name yet.
+ *
+ * @returns The IDs of the created subitems.
+ */
+async function createMissingSubitems(request: MondayRequest, item: PublishedItem, steps: string[]): Promise<string[]> {
+    const existing = new Set((item.subitems ?? []).map(s => s.name));
+    const missing = [...new Set(steps.map(subitemName))].filter(name => name && !existing.has(name));
+    const created: string[] = [];
+
+    for (const name of missing) {
+        const response = await request<{ create_subitem: { id: string } }>(
+            `mutation ($parentId: ID!, $name: String!) { create_subitem (parent_item_id: $parentId, item_name: $name) { id } }`,
+            { parentId: item.id, name }
+        );
+        created.push(response.create_subitem.id);
+    }
+
+    console.log(`[monday] ${missing.length} subitem(s) created, ${steps.length - missing.length} already there`);
+    return created;
+}
+
+async function setStatus(request: MondayRequest, item: PublishedItem, step: PublishStep): Promise<void> {
+    const label = env.mondayPublish.statusLabels[step];
+    if (!env.mondayPublish.statusColumn || !label) return;
+
+    await request(
+        `mutation ($boardId: ID!, $itemId: ID!, $columnId: String!, $value: String!) {
+            change_simple_column_value (board_id: $boardId, item_id: $itemId, column_id: $columnId, value: $value, create_labels_if_missing: true) { id }
+        }`,
+        { boardId: item.board.id, itemId: item.id, columnId: env.mondayPublish.statusColumn, value: label }
+    );
+    console.log(`[monday] Status set to "${label}"`);
+}
+
+/**
+ * Publishes one step to the task's Monday item: its update, the subitems of the plan
+ * (`MONDAY_PUBLISH_SUBITEMS=on`) and the status column (`MONDAY_STATUS_COLUMN`).
+ *
+ * Publishing never fails the step it reports on: errors are logged as warnings.
+ */
+async function publish(plan: PlannerOutput, step: PublishStep, markdown: string, options: { setStatus: boolean }): Promise<void> {
+    if (!shouldPublish(plan)) return;
+
+    try {
+        // Loaded lazily: the Monday client needs MONDAY_API_KEY, which unpublished runs do not.
+        const { mondayRequest } = await import("@/services/mondayClient");
+
+        const { items } = await mondayRequest<{ items: PublishedItem[] }>(
+            `query ($ids: [ID!]) {
+                items (ids: $ids) {
+                    id
+                    board { id }
+                    updates (limit: 100) { id text_body }
+                    subitems { id name }
+                }
+            }`,
+            { ids: [plan.task.id] }
+        );
+
+        const item = items?.[0];
+        if (!item) throw new Error(`Monday item not found: ${plan.task.id}`);
+
+        // The plan update keeps the list of the subitems created for every plan so far.
+        let subitemIds: string[] = [];
+
+        if (step === "plan") {
+            const remaining = new Set((item.subitems ?? []).map(s => s.id));
+            const published = [...findPublishedSubitemIds(item.updates)].filter(id => remaining.has(id));
+            const created = env.mondayPublish.subitems
+                ? await createMissingSubitems(mondayRequest, item, plan.implementation.steps)
+                : [];
+
+            subitemIds = [...published, ...created];
+        }
+
+        // Set before the update, so the item's own date, which the status moves, is never later
+        // than this agent's last update (see `listBoardItems`).
+        if (options.setStatus) await setStatus(mondayRequest, item, step);
+        await upsertUpdate(mondayRequest, item, step, markdown, subitemIds);
+    } catch (err: any) {
+        console.warn(`⚠️ [monday] The ${step} was not published to item ${plan.task.id}: ${err.message}`);
+    }
+}
+
+/**
+ * Posts the plan (`formatPlanToMarkdown`) as an update on the task's Monday item, or edits
+ * the one posted for an earlier plan. Does nothing unless publishing is enabled.
+ *
+ * @param plan - The saved plan.
+ */
+export async function publishPlan(plan: PlannerOutput): Promise<void> {
+    await publish(plan, "plan", formatPlanToMarkdown(plan), { setStatus: true });
+}
+
+/**
+ * Posts the outcome of an execution (summary, files, open questions) on the task's Monday
+ * item, replacing the one of an earlier execution. Does nothing unless publishing is enabled.
+ *
+ * @param plan - The plan that was executed.
+ * @param result - The execution result.
+ */
+export async function publishExecution(plan: PlannerOutput, result: ExecutionResult): Promise<void> {
+    const { output } = result;
+    const failed = (result.fileResults ?? []).filter(r => !r.success);
+    const list = (items: string[]) => items.map(i => `- ${i}`).join("\n");
+
+    const markdown = [
+        `## 🤖 Code generated — execution ${result.id}`,
+        output.summary,
+        `**Confidence:** ${output.confidence}`,
+        output.modifications.length ? `### Files to modify\n${list(output.modifications.map(m => m.path))}` : "",
+        output.creations?.length ? `### Files to create\n${list(output.creations.map(c => c.path))}` : "",
+        failed.length ? `### Files without changes\n${list(failed.map(r => `${r.path}: ${r.error ?? "no change returned"}`))}` : "",
+        output.missingInformation.length ? `### ❓ Missing Information\n${list(output.missingInformation)}` : "",
+    ].filter(Boolean).join("\n\n");
+
+    await publish(plan, "execution", markdown, { setStatus: !failed.length });
+}
+
+/**
+ * Posts the results of applying an execution on the task's Monday item, replacing the ones
+ * of an earlier apply. The status is only set when every file applied. Does nothing unless
+ * publishing is enabled.
+ *
+ * @param plan - The plan of the applied execution.
+ * @param executionId - The applied execution.
+ * @param results - The apply results.
+ */
+export async function publishApplyResults(plan: PlannerOutput, executionId: string, results: PatchResult[]): Promise<void> {
+    const failed = results.filter(r => !r.success);
+
+    const markdown = [
+        `## 🛠 Applied — execution ${executionId}`,
+        `**${results.length - failed.length}/${results.length} file(s) applied**`,
+        results.map(r => r.success
+            ? `- ✔ ${r.file}${r.created ? " (created)" : ""}`
+            : `- ❌ ${r.file}: ${r.error ?? "failed"}`).join("\n"),
+    ].join("\n\n");
+
+    await publish(plan, "apply", markdown, { setStatus: !failed.length });
+}
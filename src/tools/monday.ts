@@ -1,6 +1,24 @@
-import mondayClient from "@/services/mondayClient";
-import { DocumentBlock } from "@/types/monday-types";
-import { extractBlockContents } from "@/utils/content-parser";
+import { mondayRequest } from "@/services/mondayClient";
+import { selectColumnValues } from "@/tools/monday-columns";
+import { findPublishedSubitemIds, PUBLISHED_UPDATE_MARKER } from "@/tools/monday-publisher";
+import type { TaskComment, TaskSubtask } from "@/types/task";
+import { blocksToMarkdown } from "@/utils/content-parser";
+import { ColumnValue, DocumentBlock, ItemUpdate, Subitem } from "@/types/monday-types";
+
+/** Latest updates given to the planner. */
+const MAX_UPDATES = 20;
+
+/**
+ * Updates read per item. More than `MAX_UPDATES`, as the plan update of this agent, which
+ * lists the subitems it created, may be older than the latest comments.
+ */
+const UPDATES_SCANNED = 100;
+
+/** Updates longer than this are cut, so one long thread does not crowd the planner prompt. */
+const MAX_UPDATE_CHARS = 2000;
+
+/** The step of an update published by this agent, from its marker. */
+const PUBLISHED_STEP_PATTERN = new RegExp(`${PUBLISHED_UPDATE_MARKER}(plan|execution|apply)\\b`);
 
 export type MondayTask = {
   id: string;
@@ -9,14 +27,49 @@ export type MondayTask = {
     id: string
     blocks: DocumentBlock[]
   };
+  column_values?: ColumnValue[];
+  updates?: ItemUpdate[];
+  subitems?: Subitem[] | null;
 };
 
 type MondayTaskResponse = {
   id: string;
   name: string;
-  description: string
+  description: string;
+  /** Selected column values by label (`selectColumnValues`). */
+  fields: Record<string, string>;
+  /** Updates with their replies, oldest first. */
+  updates: TaskComment[];
+  subitems: TaskSubtask[];
 };
 
+function toComment(update: ItemUpdate): TaskComment {
+  const body = (update.text_body ?? "").trim();
+
+  return {
+    author: update.creator?.name,
+    createdAt: update.created_at,
+    body: body.length > MAX_UPDATE_CHARS ? `${body.slice(0, MAX_UPDATE_CHARS)}…` : body,
+    ...(update.replies?.length && { replies: update.replies.map(toComment) }),
+  };
+}
+
+/**
+ * An update published by this agent is left out, but not the replies to it: they answer its
+ * questions ("Missing Information"), so they are kept under a heading.
+ */
+function publishedToComment(update: ItemUpdate): TaskComment | undefined {
+  if (!update.replies?.length) return undefined;
+
+  const step = update.text_body?.match(PUBLISHED_STEP_PATTERN)?.[1] ?? "update";
+
+  return {
+    createdAt: update.created_at,
+    body: `Replies to the agent's ${step}`,
+    replies: update.replies.map(toComment),
+  };
+}
+
 export async function getMondayTaskById(taskId: string): Promise<MondayTaskResponse> {
   const query = `
     query ($ids: [ID!]) {
@@ -28,26 +81,68 @@ export async function getMondayTaskById(taskId: string): Promise<MondayTaskRespo
           blocks {
             id
             doc_id
+            type
+            parent_block_id
             content
           }
         }
+        column_values {
+          id
+          type
+          text
+          column { title }
+          ... on BoardRelationValue { display_value }
+          ... on DependencyValue { display_value }
+          ... on MirrorValue { display_value }
+        }
+        updates (limit: ${UPDATES_SCANNED}) {
+          id
+          text_body
+          created_at
+          creator { name }
+          replies {
+            id
+            text_body
+            created_at
+            creator { name }
+          }
+        }
+        subitems {
+          id
+          name
+          column_values (types: [status]) { text }
+        }
       }
     }
     `;
 
   const variables = { ids: [taskId] };
 
-  const response = await mondayClient.request<{ items: MondayTask[] }>(query, variables);
+  const response = await mondayRequest<{ items: MondayTask[] }>(query, variables);
 
   const item = response.items?.[0];
 
   if (!item) throw new Error(`Monday item not found: ${taskId}`);
 
-  const description = extractBlockContents(item.description?.blocks);
+  const description = blocksToMarkdown(item.description?.blocks ?? []);
+  const publishedSubitemIds = findPublishedSubitemIds(item.updates ?? []);
 
   return {
     id: item.id,
     name: item.name,
     description,
+    fields: selectColumnValues(item.column_values ?? []),
+    // Monday lists the newest update first. Plans and results posted by this agent are left out,
+    // the replies to them are not.
+    updates: (item.updates ?? [])
+      .map(u => u.text_body?.includes(PUBLISHED_UPDATE_MARKER) ? publishedToComment(u) : toComment(u))
+      .filter((u): u is TaskComment => !!u && !!(u.body || u.replies))
+      .slice(0, MAX_UPDATES)
+      .reverse(),
+    // Subitems created from the steps of an earlier plan are not subtasks of the task.
+    subitems: (item.subitems ?? []).filter(s => !publishedSubitemIds.has(s.id)).map(s => ({
+      name: s.name,
+      status: s.column_values?.map(v => v.text).find(Boolean) ?? undefined,
+    })),
   };
 }
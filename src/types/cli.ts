@@ -0,0 +1,35 @@
+export type CliOption = {
+    type: "string" | "boolean";
+    short?: string;
+    /** Placeholder shown in the help text (e.g. `<id>`). */
+    valueName?: string;
+    description: string;
+};
+
+/**
+ * Arguments given to a command, as parsed by `node:util` `parseArgs`.
+ */
+export type CommandArgs = {
+    values: Record<string, string | boolean | undefined>;
+    positionals: string[];
+    /** Whether `--json` was passed. Human-readable logs then go to stderr. */
+    json: boolean;
+};
+
+export type CommandResult = {
+    /** One of `EXIT_CODES`. */
+    exitCode: number;
+    /** Printed to stdout as JSON when `--json` is passed. */
+    data?: unknown;
+};
+
+export type CliCommand = {
+    name: string;
+    /** One-line description shown in `mat --help`. */
+    summary: string;
+    /** Usage line shown in `mat <command> --help`. */
+    usage: string;
+    /** Command-specific options (`--json` and `--help` are always available). */
+    options: Record<string, CliOption>;
+    run(args: CommandArgs): Promise<CommandResult>;
+};
@@ -0,0 +1,37 @@
+/**
+ * What the budget did with one part of the executor prompt:
+ * - `kept`: sent verbatim
+ * - `summarized`: a doc section reduced to its heading and first line
+ * - `excerpted`: a file reduced to the regions around the planned edits, plus its outline
+ * - `outlined`: a read-only file reduced to its exported symbols
+ * - `dropped`: left out
+ */
+export type ContextBudgetAction = "kept" | "summarized" | "excerpted" | "outlined" | "dropped";
+
+export type ContextBudgetDecision = {
+    kind: "plan" | "doc-section" | "file" | "context-file";
+    /** File path, or `<doc file> > <heading>` for doc sections. */
+    name: string;
+    action: ContextBudgetAction;
+    originalTokens: number;
+    finalTokens: number;
+    /** Relevance to the plan (doc sections only; higher is more relevant). */
+    score?: number;
+    reason?: string;
+};
+
+/**
+ * How the executor prompt was fitted into its token budget. Token counts are estimates
+ * (about 4 characters per token). Recorded in the execution manifest.
+ */
+export type ContextBudgetReport = {
+    budgetTokens: number;
+    /** Instructions, rules and examples of the prompt, which are never trimmed. */
+    fixedTokens: number;
+    /** Estimated size of the full prompt before and after trimming. */
+    originalTokens: number;
+    finalTokens: number;
+    /** True when the prompt is still over budget after every trimming step. */
+    overBudget: boolean;
+    decisions: ContextBudgetDecision[];
+};
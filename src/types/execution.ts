@@ -1,4 +1,5 @@
-import { ExecutorOutput } from "@/types/executor-output";
+import type { ContextBudgetReport } from "@/types/context-budget";
+import { EditFormat, ExecutorMode, ExecutorOutput } from "@/types/executor-output";
 
 export type ExecutionParams = {
     /**
@@ -12,10 +13,51 @@ export type ExecutionParams = {
      * You can concatenate them into one big string before calling runExecution.
      */
     projectDocsContext: string;
+
+    /**
+     * Protocol the executor uses for changes to existing files.
+     * Defaults to EXECUTOR_EDIT_FORMAT (or "unified-diff").
+     */
+    editFormat?: EditFormat;
+
+    /**
+     * `single` (one executor call) or `per-file` (one call per file, in parallel).
+     * Defaults to EXECUTOR_MODE (or "single").
+     */
+    mode?: ExecutorMode;
+
+    /**
+     * Maximum number of concurrent executor calls in `per-file` mode.
+     * Defaults to EXECUTOR_CONCURRENCY (or 3).
+     */
+    concurrency?: number;
+
+    /**
+     * Path of the plan file the JSON comes from, and the pipeline run it belongs to.
+     * Recorded in the execution manifest to link executions back to their plan.
+     */
+    planPath?: string;
+    runId?: string;
+};
+
+/**
+ * Outcome of the executor call for one file in `per-file` mode.
+ */
+export type ExecutorFileResult = {
+    path: string;
+    operation: "modify" | "create";
+    /** Whether the call returned a change for this file (in search-replace mode, one whose blocks all matched). */
+    success: boolean;
+    summary?: string;
+    confidence?: number;
+    error?: string;
+    contextBudget?: ContextBudgetReport;
 };
 
 export type ExecutionResult = {
     id: string;
     output: ExecutorOutput;
     savedDiffsPath: string;
+    /** Per-file outcomes, in `per-file` mode only. */
+    fileResults?: ExecutorFileResult[];
 };
@@ -5,11 +5,52 @@ export type FileModification = {
     diff: string;
 };
 
+export type FileCreation = {
+    /** The relative path of the new file (must be listed in implementation.filesToCreate). */
+    path: string;
+    /** The full content of the new file. Takes precedence over `diff` when both are present. */
+    content?: string;
+    /** A creation diff (`--- /dev/null` / `+++ path`) containing only added lines. */
+    diff?: string;
+};
+
+export type SearchReplaceBlock = {
+    /** Text copied from the current file that anchors the edit. Must identify a single location. */
+    search: string;
+    /** Text that replaces the anchored region. */
+    replace: string;
+};
+
+export type FileEdit = {
+    /** The relative path of the file to modify (must match a path in repo-index.json). */
+    path: string;
+    /** The SEARCH/REPLACE blocks for this file, applied in order. */
+    blocks: SearchReplaceBlock[];
+};
+
+/**
+ * The protocol the Executor Agent uses to describe changes to existing files.
+ * - `unified-diff`: the model writes unified diffs directly into `modifications`.
+ * - `search-replace`: the model writes `edits`, which are applied locally and converted into `modifications`.
+ */
+export type EditFormat = "unified-diff" | "search-replace";
+
+/**
+ * How the executor is called for a plan.
+ * - `single`: one call covering every file.
+ * - `per-file`: one call per file to modify or create, run in parallel, merged into one output.
+ */
+export type ExecutorMode = "single" | "per-file";
+
 export type ExecutorOutput = {
     /** A high-level description of what changes were actually generated. */
     summary: string;
     /** List of all file modifications (diffs) produced by the agent. */
     modifications: FileModification[];
+    /** SEARCH/REPLACE edits produced by the agent in `search-replace` mode. */
+    edits?: FileEdit[];
+    /** List of new files produced by the agent. Absent in outputs generated before file creation was supported. */
+    creations?: FileCreation[];
     /** Any information the agent felt was missing to complete the task perfectly. */
     missingInformation: string[];
     /** Confidence score (0-1) indicating how certain the agent is about the correctness of the changes. */
@@ -0,0 +1,119 @@
+export type LlmProviderName = "openai" | "openai-compatible" | "anthropic";
+
+/** Agents that call a model. Each one has its own `AgentLlmConfig`. */
+export type LlmAgentName = "planner" | "executor" | "repair";
+
+/**
+ * How a JSON schema is enforced:
+ * - `native`: the provider's structured output (OpenAI `json_schema`, Anthropic forced tool call)
+ * - `json-mode`: OpenAI-style `json_object` mode, with the schema described in the system message
+ * - `prompt`: the schema is only described in the system message (works with any model)
+ */
+export type StructuredOutputMode = "native" | "json-mode" | "prompt";
+
+/**
+ * Model settings of one agent, read from the environment (see `.env.example`).
+ */
+export type AgentLlmConfig = {
+    provider: LlmProviderName;
+    model: string;
+    /** Omitted from the request when undefined (provider default). */
+    temperature?: number;
+    timeoutMs: number;
+    /** Base URL of the API. Required for `openai-compatible` (e.g. `http://localhost:11434/v1`). */
+    baseUrl?: string;
+    /** Maximum output tokens. Required by Anthropic, optional elsewhere. */
+    maxTokens?: number;
+    structuredOutput: StructuredOutputMode;
+};
+
+export type LlmMessage = {
+    role: "system" | "user" | "assistant";
+    content: string;
+};
+
+export type LlmJsonSchema = {
+    name: string;
+    schema: Record<string, unknown>;
+    /** OpenAI strict mode. */
+    strict?: boolean;
+};
+
+export type LlmRequest = {
+    messages: LlmMessage[];
+    /** When set, the response content must be a JSON document matching this schema. */
+    jsonSchema?: LlmJsonSchema;
+    /** Ask for a JSON object without a schema (set by `completeWithLlm` in `json-mode`). */
+    jsonMode?: boolean;
+};
+
+/** Token counts reported by the provider for one call. */
+export type LlmUsage = {
+    promptTokens: number;
+    completionTokens: number;
+};
+
+/**
+ * Accounting record of one `completeWithLlm` call. Cached answers cost nothing, so their
+ * tokens and cost are 0.
+ */
+export type LlmCallStats = {
+    agent: LlmAgentName;
+    provider: LlmProviderName;
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    latencyMs: number;
+    /** Estimated from the price table; 0 for models without a price (e.g. local models). */
+    costUsd: number;
+    cached: boolean;
+    startedAt: string;
+    /** Task the call was made for, when the caller knows it. */
+    taskId?: string;
+};
+
+/** What a call is made for, recorded with it in the usage ledger. */
+export type LlmCallContext = {
+    taskId?: string;
+};
+
+/** Totals of several calls, as stored in plans and execution manifests. */
+export type LlmUsageSummary = {
+    calls: number;
+    cachedCalls: number;
+    promptTokens: number;
+    completionTokens: number;
+    latencyMs: number;
+    costUsd: number;
+    models: string[];
+};
+
+/**
+ * Price and limits of a model, in USD per million tokens.
+ */
+export type ModelPrice = {
+    inputPerMTok: number;
+    outputPerMTok: number;
+    /** Maximum prompt + output tokens. Larger prompts trigger a warning before the call. */
+    contextWindow?: number;
+};
+
+export type LlmResponse = {
+    /** The text of the answer (the JSON document for structured output). */
+    content: string;
+    /** The model that answered, as reported by the provider. */
+    model: string;
+    /** Token counts, when the provider reports them. */
+    usage?: LlmUsage;
+    /** Set by `completeWithLlm`: true when the answer came from the response cache. */
+    cached?: boolean;
+    /** Set by `completeWithLlm`: tokens, latency and estimated cost of the call. */
+    stats?: LlmCallStats;
+};
+
+export type LlmProvider = {
+    name: LlmProviderName;
+    /** Structured output modes the provider supports natively, besides `prompt`. */
+    supports: StructuredOutputMode[];
+    complete(request: LlmRequest, config: AgentLlmConfig): Promise<LlmResponse>;
+};
@@ -14,10 +14,25 @@ export interface ImageBlockContent {
 }
 
 /**
- * Single delta insert operation in Quill-like format
+ * Inline formatting of a delta insert
+ */
+export interface DeltaAttributes {
+    bold?: boolean
+    italic?: boolean
+    underline?: boolean
+    strike?: boolean
+    code?: boolean
+    link?: string
+    [key: string]: any
+}
+
+/**
+ * Single delta insert operation in Quill-like format.
+ * Embeds (mentions, ...) insert an object instead of a string.
  */
 export interface DeltaInsert {
-    insert: string
+    insert: string | Record<string, any>
+    attributes?: DeltaAttributes
     [key: string]: any
 }
 
@@ -26,6 +41,20 @@ export interface DeltaInsert {
  */
 export interface TextBlockContent {
     deltaFormat?: DeltaInsert[]
+    /** Check list blocks only */
+    checked?: boolean
+    /** Nesting level of list blocks */
+    indentation?: number
+    /** Code blocks only */
+    language?: string
+    [key: string]: any
+}
+
+/**
+ * Table block content: rows of cells, each cell pointing to the block that holds its text
+ */
+export interface TableBlockContent {
+    cells?: { blockId: string }[][]
     [key: string]: any
 }
 
@@ -35,5 +64,50 @@ export interface TextBlockContent {
 export interface DocumentBlock {
     id: string
     doc_id: string
+    /** Block type, e.g. "normal text", "bulleted list", "check list", "table" */
+    type?: string
+    /** Set for blocks nested in another block (table cells, layouts, notice boxes) */
+    parent_block_id?: string | null
     content: string
 }
+
+/**
+ * Column value of an item. Relation columns have their text in `display_value`
+ */
+export interface ColumnValue {
+    id: string
+    type: string
+    text: string | null
+    display_value?: string | null
+    column?: { title: string }
+}
+
+/**
+ * Update (comment) on an item, or a reply to one
+ */
+export interface ItemUpdate {
+    id: string
+    text_body: string | null
+    created_at: string
+    /** Set when the update was edited */
+    updated_at?: string | null
+    creator?: { name: string } | null
+    replies?: ItemUpdate[]
+}
+
+/**
+ * Subitem of an item, with its status columns
+ */
+export interface Subitem {
+    id: string
+    name: string
+    column_values?: { text: string | null }[]
+}
+
+/**
+ * Page of board items (`items_page`, `next_items_page`). `cursor` is null on the last page
+ */
+export interface ItemsPage<T> {
+    cursor: string | null
+    items: T[]
+}
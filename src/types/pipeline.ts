@@ -0,0 +1,44 @@
+import type { TaskProviderName } from "@/types/task";
+import type { EditFormat, ExecutorMode } from "@/types/executor-output";
+
+/**
+ * Phases of the end-to-end pipeline, in execution order.
+ */
+export type PipelinePhase = "context" | "index" | "plan" | "execute" | "apply" | "verify";
+
+export type PhaseStatus = "pending" | "running" | "completed" | "failed";
+
+/**
+ * Checkpoint of one phase. `output` holds what later phases (or a resumed run) need.
+ */
+export type PhaseCheckpoint = {
+    status: PhaseStatus;
+    startedAt?: string;
+    completedAt?: string;
+    /** Error message of the last failed attempt. */
+    error?: string;
+    output?: Record<string, unknown>;
+};
+
+/**
+ * State of a pipeline run, saved as `runs/<id>/run-state.json` after every phase.
+ */
+export type RunState = {
+    id: string;
+    taskId: string;
+    createdAt: string;
+    updatedAt: string;
+    status: "running" | "completed" | "failed";
+    /** Options the run was started with, reused when it is resumed. */
+    options: {
+        taskSource?: TaskProviderName;
+        editFormat?: EditFormat;
+        executorMode?: ExecutorMode;
+        maxRepairAttempts?: number;
+    };
+    phases: Record<PipelinePhase, PhaseCheckpoint>;
+    /** Path of the plan (inside the run folder) that produced `executionId`. */
+    planPath?: string;
+    /** Execution generated from `planPath`. */
+    executionId?: string;
+};
@@ -1,44 +1,27 @@
-export type PlannerTaskInfo = {
-    id: string;
-    title: string;
-    description: string;
-};
+import type { z } from "zod/v4";
 
-export type PlannerScope = {
-    featureType: string;
-    frontendType: string;
-    screens: string[];
-    components: string[];
-    modules: string[];
-    apiCalls: string[];
-};
+import type { TaskProviderName } from "@/types/task";
+import type { LlmCallStats, LlmUsageSummary } from "@/types/llm";
+import type { planFileSchema } from "@/schemas/planner-output-schema";
 
-export type PlannerImplementation = {
-    steps: string[];
-    filesToCreate: string[];
-    filesToModify: string[];
-    designSystemNotes: string;
-    technicalConstraints: string[];
-};
+/** Inferred from `planFileSchema`; edit the schema, not these types. */
+export type PlannerOutput = z.infer<typeof planFileSchema>;
 
-export type PlannerTests = {
-    unitTests: string[];
-    integrationTests: string[];
-    manualChecks: string[];
-};
+export type PlannerTaskInfo = PlannerOutput["task"];
+
+export type PlannerScope = PlannerOutput["scope"];
+
+export type PlannerImplementation = PlannerOutput["implementation"];
+
+export type PlannerTests = PlannerOutput["tests"];
+
+export type Clarification = NonNullable<PlannerOutput["clarifications"]>[number];
 
-export type PlannerOutput = {
-    task: PlannerTaskInfo;
-    summary: string;
-    userStory: string;
-    acceptanceCriteria: string[];
-    scope: PlannerScope;
-    implementation: PlannerImplementation;
-    tests: PlannerTests;
-    risks: string[];
-    dependencies: string[];
-    outOfScope: string[];
-    estimatedComplexity: "low" | "medium" | "high";
-    missingInformation: string[];
-    confidence: number;
+export type PlanMetadata = {
+    generatedAt: string;
+    /** Tracker the task was read from. Plans without it came from `TASK_PROVIDER`. */
+    taskSource?: TaskProviderName;
+    /** Totals of the model calls that produced the plan. */
+    llmUsage: LlmUsageSummary;
+    llmCalls: LlmCallStats[];
 };
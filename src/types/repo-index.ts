@@ -32,6 +32,24 @@ export type RepoFileEntry = {
     size: number;
     componentName?: string;
     lastModified?: number;
+    /** SHA-1 of the file content, used for incremental re-indexing. */
+    hash?: string;
+};
+
+/**
+ * One entry of the ordered classification rules. The first rule whose pattern
+ * matches the file's relative path decides its type.
+ */
+export type ClassificationRule = {
+    type: RepoFileEntry["type"];
+    /** Glob matched against the whole relative path (`*`, `**`, `?`, `{a,b}`). */
+    glob?: string;
+    /** Regular expression searched in the relative path. */
+    regex?: string;
+    /** Flags for `regex` (e.g. `i`). */
+    flags?: string;
+    /** Shown by `--explain`. */
+    description?: string;
 };
 
 export type RepoIndex = {
@@ -39,3 +57,70 @@ export type RepoIndex = {
     root: string;
     files: RepoFileEntry[];
 };
+
+export type SymbolKind =
+    | "component"
+    | "hook"
+    | "function"
+    | "class"
+    | "variable"
+    | "type"
+    | "interface"
+    | "enum"
+    | "re-export";
+
+export type ExportedSymbol = {
+    /** The exported name (`default` for anonymous default exports). */
+    name: string;
+    kind: SymbolKind;
+    /** Whether this is the module's default export. */
+    isDefault: boolean;
+    /** 1-based line of the declaration. */
+    line: number;
+    /** Module the symbol is re-exported from (`export { x } from "./x"`). */
+    from?: string;
+};
+
+export type ImportRecord = {
+    /** The module specifier as written (e.g. `react`, `@/hooks/use-auth`, `./types`). */
+    source: string;
+    /** Imported names: `default`, `* as X` or the original named import. */
+    names: string[];
+    /** Whether the whole declaration is `import type`. */
+    isTypeOnly: boolean;
+};
+
+export type ComponentInfo = {
+    /** The component name. */
+    name: string;
+    /** The props type name or inline type text, if annotated. */
+    propsType?: string;
+    /** Property names of the props type, when declared in the same file or inline. */
+    propsMembers?: string[];
+};
+
+export type FileSymbols = {
+    exports: ExportedSymbol[];
+    imports: ImportRecord[];
+    components: ComponentInfo[];
+    /** Hooks called anywhere in the file (e.g. `useState`, `useAuth`). */
+    hooksUsed: string[];
+};
+
+export type SymbolTable = {
+    generatedAt: string;
+    root: string;
+    /** Symbols per file, keyed by the relative path used in RepoIndex. */
+    files: Record<string, FileSymbols>;
+};
+
+export type DependencyGraph = {
+    generatedAt: string;
+    root: string;
+    /** For each file, the repo files it imports (relative paths as in RepoIndex). */
+    imports: Record<string, string[]>;
+    /** For each file, the repo files that import it. */
+    importedBy: Record<string, string[]>;
+    /** Relative or alias imports that could not be resolved to an indexed file. */
+    unresolved: Record<string, string[]>;
+};
@@ -0,0 +1,46 @@
+/** Trackers a task can be read from (`TASK_PROVIDER`, `--source`). */
+export type TaskProviderName = "monday" | "file" | "github" | "jira";
+
+/**
+ * A comment on a task (a Monday update), with its replies.
+ */
+export type TaskComment = {
+    author?: string;
+    createdAt?: string;
+    body: string;
+    replies?: TaskComment[];
+};
+
+export type TaskSubtask = {
+    name: string;
+    status?: string;
+};
+
+/**
+ * A task to plan, whatever tracker it comes from.
+ */
+export type Task = {
+    id: string;
+    name: string;
+    /** Plain text (or Markdown) description given to the planner. */
+    description: string;
+    source: TaskProviderName;
+    /** Link to the task in its tracker, when it has one. */
+    url?: string;
+    /** Metadata such as status, priority, tags or assignee, by label. */
+    fields?: Record<string, string>;
+    /** Comments, oldest first. */
+    comments?: TaskComment[];
+    subtasks?: TaskSubtask[];
+};
+
+/**
+ * Reads tasks from one tracker. Created by `getTaskProvider`.
+ */
+export type TaskProvider = {
+    name: TaskProviderName;
+    /**
+     * @throws {Error} If the task does not exist or cannot be read
+     */
+    getTask(taskId: string): Promise<Task>;
+};
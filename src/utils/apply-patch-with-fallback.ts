@@ -5,6 +5,20 @@ import { execSync } from "node:child_process";
 
 import { normalizeDiff } from "./normalize-diff";
 
+/**
+ * Result of applying a single diff with `applyPatchWithFallback`.
+ */
+export type PatchApplicationResult = {
+    /** Whether any strategy managed to apply the diff. */
+    success: boolean;
+    /** The patched file content, when successful. */
+    content?: string;
+    /** Error message if every strategy failed. */
+    error?: string;
+    /** The error reported by each strategy that was tried, in order. Only set on failure. */
+    strategyErrors?: string[];
+};
+
 /**
  * Applies a patch to a file using a robust 3-strategy fallback system.
  * 
@@ -21,7 +35,7 @@ import { normalizeDiff } from "./normalize-diff";
  * @param originalContent - The current content of the file to modify.
  * @param diff - The unified diff string provided by the AI.
  * @param filePath - Optional file path. Required for Strategy 3 (native patch command) to handle temporary files correctly.
- * @returns An object indicating success or failure.
+ * @returns An object indicating success or failure, with the error of each strategy on failure.
  * 
  * @example
  * const result = applyPatchWithFallback(
@@ -38,9 +52,11 @@ export default function applyPatchWithFallback(
     originalContent: string,
     diff: string,
     filePath?: string
-): { success: boolean; content?: string; error?: string } {
+): PatchApplicationResult {
     console.log("\n=== Patch Application ===");
 
+    const strategyErrors: string[] = [];
+
     try {
         console.log("Strategy 1: diff library with original...");
         const result = applyPatch(originalContent, diff);
@@ -48,8 +64,11 @@ export default function applyPatchWithFallback(
             console.log("✓ Success");
             return { success: true, content: result };
         }
+        console.log("✗ Failed: hunks do not match the file content");
+        strategyErrors.push("Strategy 1 (diff library, original diff): hunks do not match the file content");
     } catch (err: any) {
         console.log(`✗ Failed: ${err.message}`);
+        strategyErrors.push(`Strategy 1 (diff library, original diff): ${err.message}`);
     }
 
     try {
@@ -61,8 +80,11 @@ export default function applyPatchWithFallback(
             console.log("✓ Success");
             return { success: true, content: result };
         }
+        console.log("✗ Failed: hunks do not match the file content");
+        strategyErrors.push("Strategy 2 (diff library, normalized diff): hunks do not match the file content");
     } catch (err: any) {
         console.log(`✗ Failed: ${err.message}`);
+        strategyErrors.push(`Strategy 2 (diff library, normalized diff): ${err.message}`);
     }
 
     if (filePath) {
@@ -97,11 +119,13 @@ export default function applyPatchWithFallback(
             }
         } catch (err: any) {
             console.log(`✗ Failed: ${err.message}`);
+            strategyErrors.push(`Strategy 3 (patch --ignore-whitespace): ${err.message}`);
         }
     }
 
     return {
         success: false,
-        error: "Patch rejected - unable to apply with any strategy"
+        error: "Patch rejected - unable to apply with any strategy",
+        strategyErrors,
     };
 }
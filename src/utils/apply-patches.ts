@@ -1,10 +1,12 @@
 import fs from "node:fs";
 import path from "node:path";
+import { applyPatch, parsePatch, reversePatch } from "diff";
 
 import { env } from "@/config/env";
 import normalizePath from "@/utils/normalize-path";
-import type { ExecutorOutput } from "@/types/executor-output";
 import applyPatchWithFallback from "@/utils/apply-patch-with-fallback";
+import type { ExecutorOutput, FileCreation, FileModification } from "@/types/executor-output";
+import { isCreationDiff, resolveCreationContent } from "@/utils/resolve-creation-content";
 
 /**
  * Result of a single file patch operation.
@@ -16,68 +18,188 @@ export type PatchResult = {
     success: boolean;
     /** Error message if the patch failed. */
     error?: string;
+    /** Whether the file was newly created instead of patched. */
+    created?: boolean;
+    /** The error reported by each patch strategy, when all of them failed. */
+    strategyErrors?: string[];
+    /** Number of self-repair attempts made for this file (set by `runApply`). */
+    repairAttempts?: number;
+    /** Whether this was only checked (`dryRun`) and nothing was written. */
+    dryRun?: boolean;
+    /** Whether a re-apply found the change already in the repository, e.g. fixed by hand. */
+    alreadyApplied?: boolean;
 };
 
 /**
- * Applies all patches from the Executor Agent's output to the actual repository.
+ * Writes a new file requested by the Executor Agent to the repository.
+ *
+ * Refuses to overwrite anything already on disk and never writes outside the repository root.
+ * Missing parent directories are created.
+ *
+ * @param repoRoot - Absolute path of the frontend repository.
+ * @param creation - The creation entry (full content or `/dev/null` creation diff).
+ * @param dryRun - Only check that the file can be created.
+ * @returns The result of the creation.
+ */
+function createFile(repoRoot: string, creation: FileCreation, dryRun = false): PatchResult {
+    const rel = normalizePath(creation.path);
+    const abs = path.resolve(repoRoot, rel);
+
+    if (!abs.startsWith(repoRoot + path.sep)) {
+        return { file: rel, success: false, created: true, error: "File is outside the repository." };
+    }
+
+    if (fs.existsSync(abs)) {
+        return {
+            file: rel,
+            success: false,
+            created: true,
+            error: "File already exists on disk. Refusing to overwrite."
+        };
+    }
+
+    let content: string;
+
+    try {
+        content = resolveCreationContent(creation);
+    } catch (err: any) {
+        return { file: rel, success: false, created: true, error: err.message };
+    }
+
+    if (dryRun) {
+        return { file: rel, success: true, created: true, dryRun };
+    }
+
+    fs.mkdirSync(path.dirname(abs), { recursive: true });
+    fs.writeFileSync(abs, content, "utf8");
+
+    return { file: rel, success: true, created: true };
+}
+
+/**
+ * Applies a single modification from the Executor Agent's output to the actual repository.
  * 
- * Iterates through each modification and:
- * 1. Verifies the target file exists.
+ * 1. Verifies the target file exists (a missing file with a `/dev/null` diff is created instead).
  * 2. Creates a backup of the original file (.backup).
  * 3. Attempts to apply the patch using `applyPatchWithFallback`.
  * 4. If successful: Overwrites the file and deletes the backup.
- * 5. If failed: Preserves the backup and logs the error.
+ * 5. If failed: Preserves the backup and returns the error of each strategy.
  * 
- * @param output - The JSON output from the Executor Agent containing modifications.
- * @returns Array of results indicating success/failure for each file.
+ * With `dryRun`, the patch is applied in memory only: no backup and no write.
+ * 
+ * @param mod - The modification (path and unified diff) to apply.
+ * @param options.dryRun - Only check that the patch applies.
+ * @returns The result of the patch operation for that file.
  */
-export async function applyPatches(output: ExecutorOutput): Promise<PatchResult[]> {
+export function applyModification(mod: FileModification, options: { dryRun?: boolean } = {}): PatchResult {
     const repoRoot = path.resolve(env.frontendRepoPath);
 
-    const results: PatchResult[] = [];
-
-    for (const mod of output.modifications) {
-        const rel = normalizePath(mod.path);
-        const abs = path.join(repoRoot, rel);
+    const rel = normalizePath(mod.path);
+    const abs = path.join(repoRoot, rel);
 
-        if (!fs.existsSync(abs)) {
-            results.push({
-                file: rel,
-                success: false,
-                error: "File does not exist on disk."
-            });
-            continue;
+    if (!fs.existsSync(abs)) {
+        if (isCreationDiff(mod.diff)) {
+            return createFile(repoRoot, { path: rel, diff: mod.diff }, options.dryRun);
         }
 
-        const original = fs.readFileSync(abs, "utf8");
+        return {
+            file: rel,
+            success: false,
+            error: "File does not exist on disk."
+        };
+    }
 
-        const backupPath = abs + ".backup";
-        fs.writeFileSync(backupPath, original, "utf8");
+    const original = fs.readFileSync(abs, "utf8");
 
-        const patchResult = applyPatchWithFallback(original, mod.diff, abs);
+    if (options.dryRun) {
+        const check = applyPatchWithFallback(original, mod.diff, abs);
 
-        if (!patchResult.success || !patchResult.content) {
-            console.warn(`⚠️  Backup preserved at: ${backupPath}`);
-            results.push({
+        return check.success
+            ? { file: rel, success: true, dryRun: true }
+            : {
                 file: rel,
                 success: false,
-                error: patchResult.error || "Patch application failed"
-            });
-            continue;
-        }
+                error: check.error || "Patch application failed",
+                strategyErrors: check.strategyErrors,
+                dryRun: true,
+            };
+    }
 
-        fs.writeFileSync(abs, patchResult.content, "utf8");
+    const backupPath = abs + ".backup";
+    fs.writeFileSync(backupPath, original, "utf8");
 
-        try {
-            fs.unlinkSync(backupPath);
-        } catch (err) {
-            console.warn(`⚠️  Could not remove backup file: ${backupPath}`);
-        }
+    const patchResult = applyPatchWithFallback(original, mod.diff, abs);
 
-        results.push({
+    if (!patchResult.success || !patchResult.content) {
+        console.warn(`⚠️  Backup preserved at: ${backupPath}`);
+        return {
             file: rel,
-            success: true
-        });
+            success: false,
+            error: patchResult.error || "Patch application failed",
+            strategyErrors: patchResult.strategyErrors,
+        };
+    }
+
+    fs.writeFileSync(abs, patchResult.content, "utf8");
+
+    try {
+        fs.unlinkSync(backupPath);
+    } catch (err) {
+        console.warn(`⚠️  Could not remove backup file: ${backupPath}`);
+    }
+
+    return {
+        file: rel,
+        success: true
+    };
+}
+
+/**
+ * Checks whether a modification is already in the repository: its diff applies in reverse
+ * to the file on disk. Used before re-applying a file that failed, since a diff applied twice
+ * fails (and would start a repair).
+ *
+ * @param mod - The modification to check.
+ * @returns Whether the file on disk already has the change.
+ */
+export function isModificationApplied(mod: FileModification): boolean {
+    const abs = path.join(path.resolve(env.frontendRepoPath), normalizePath(mod.path));
+    if (!fs.existsSync(abs)) return false;
+
+    try {
+        const patches = parsePatch(mod.diff);
+        if (patches.length !== 1 || !patches[0].hunks.length) return false;
+
+        return applyPatch(fs.readFileSync(abs, "utf8"), reversePatch(patches[0])) !== false;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Applies all patches from the Executor Agent's output to the actual repository.
+ * 
+ * Applies each modification with `applyModification`, then writes every new file
+ * from `output.creations`, refusing to overwrite existing files.
+ * 
+ * @param output - The JSON output from the Executor Agent containing modifications.
+ * @param options.dryRun - Only check every change, without writing to the repository.
+ * @returns Array of results indicating success/failure for each file.
+ */
+export async function applyPatches(
+    output: ExecutorOutput,
+    options: { dryRun?: boolean } = {}
+): Promise<PatchResult[]> {
+    const repoRoot = path.resolve(env.frontendRepoPath);
+
+    const results: PatchResult[] = [];
+
+    for (const mod of output.modifications) {
+        results.push(applyModification(mod, options));
+    }
+
+    for (const creation of output.creations ?? []) {
+        results.push(createFile(repoRoot, creation, options.dryRun));
     }
 
     return results;
@@ -0,0 +1,79 @@
+import { createTwoFilesPatch } from "diff";
+
+import normalizePath from "@/utils/normalize-path";
+import type { LoadedFile } from "@/types/loaded-file";
+import { applySearchReplaceBlocks, BlockMatchReport } from "@/utils/search-replace";
+import type { FileEdit, FileModification } from "@/types/executor-output";
+
+/**
+ * Outcome of converting the SEARCH/REPLACE edits of one file into a unified diff.
+ */
+export type FileEditReport = {
+    /** The relative path of the edited file. */
+    path: string;
+    /** Whether every block was applied and a diff was produced. */
+    success: boolean;
+    /** One report per SEARCH/REPLACE block. */
+    blocks: BlockMatchReport[];
+    /** Error message when the file could not be edited at all. */
+    error?: string;
+};
+
+/**
+ * Converts the SEARCH/REPLACE edits returned by the Executor Agent into real unified diffs.
+ *
+ * The blocks are applied locally to the loaded file content with `applySearchReplaceBlocks`,
+ * then `createTwoFilesPatch` generates an exact diff against the original content, so the
+ * rest of the pipeline (`.patch` files, `applyPatches`) is unchanged.
+ *
+ * A file is only converted when every one of its blocks applied; otherwise no modification
+ * is produced for it and the report explains which anchors were missing or ambiguous.
+ *
+ * @param edits - The edits from the Executor Agent output.
+ * @param files - The files that were loaded and given to the Executor Agent.
+ * @returns The generated modifications and one report per edited file.
+ *
+ * @example
+ * const { modifications, reports } = buildModificationsFromEdits(output.edits ?? [], loadedFiles);
+ * // modifications[0].diff → "--- src/App.tsx\n+++ src/App.tsx\n@@ -3,7 +3,7 @@..."
+ */
+export function buildModificationsFromEdits(
+    edits: FileEdit[],
+    files: LoadedFile[]
+): { modifications: FileModification[]; reports: FileEditReport[] } {
+    const modifications: FileModification[] = [];
+    const reports: FileEditReport[] = [];
+
+    for (const edit of edits) {
+        const rel = normalizePath(edit.path);
+        const file = files.find(f => f.path === rel);
+
+        if (!file) {
+            reports.push({
+                path: rel,
+                success: false,
+                blocks: [],
+                error: "File was not provided to the executor."
+            });
+            continue;
+        }
+
+        const result = applySearchReplaceBlocks(file.content, edit.blocks ?? []);
+
+        reports.push({ path: rel, success: result.success, blocks: result.reports });
+
+        if (!result.success) {
+            for (const r of result.reports.filter(r => r.status !== "applied")) {
+                console.warn(`⚠️  ${rel} block #${r.index}: ${r.error}`);
+            }
+            continue;
+        }
+
+        if (result.content === file.content) continue;
+
+        const diff = createTwoFilesPatch(rel, rel, file.content, result.content, "", "", { context: 3 });
+        modifications.push({ path: rel, diff });
+    }
+
+    return { modifications, reports };
+}
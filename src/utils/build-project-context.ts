@@ -45,6 +45,4 @@ export function buildProjectContext(): string {
     console.log(`✓ Project context generated at: ${OUTPUT_FILE}`);
 
     return output;
-}
-
-buildProjectContext();
\ No newline at end of file
+}
\ No newline at end of file
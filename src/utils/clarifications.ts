@@ -0,0 +1,100 @@
+import fs from "node:fs";
+import readline from "node:readline/promises";
+
+import type { Clarification } from "@/types/plannerTypes";
+import { validateWithSchema } from "@/utils/validate-schema";
+import { answersFileSchema } from "@/schemas/clarification-schema";
+
+/** Maximum number of question-and-answer rounds of `--clarify` per command. */
+export const MAX_CLARIFICATION_ROUNDS = 3;
+
+function questionKey(question: string): string {
+    return question.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Adds answers to a Q&A history. A new answer to a question already in the history
+ * (ignoring case and spacing) replaces the old one.
+ *
+ * @param history - The answers given so far, e.g. a plan's `clarifications`.
+ * @param added - The new answers.
+ * @returns The merged history, oldest first.
+ */
+export function mergeClarifications(history: Clarification[], added: Clarification[]): Clarification[] {
+    const addedKeys = new Set(added.map(c => questionKey(c.question)));
+    return [...history.filter(c => !addedKeys.has(questionKey(c.question))), ...added];
+}
+
+/**
+ * Returns the questions the history has no answer for yet.
+ */
+export function unansweredQuestions(questions: string[], history: Clarification[]): string[] {
+    const answered = new Set(history.map(c => questionKey(c.question)));
+    return questions.filter(q => !answered.has(questionKey(q)));
+}
+
+/**
+ * Reads an answers file (`--answers <file>`): a JSON object mapping questions to answers, or a
+ * list of `{ question, answer }`. Empty answers are ignored.
+ *
+ * @param filePath - The answers file.
+ * @param askedBy - The agent the answers are given for.
+ * @returns The answers as clarifications.
+ * @throws {Error} If the file is missing, is not JSON, or has another shape (with the field paths)
+ *
+ * @example
+ * // answers.json: { "Which API endpoint returns the avatar?": "GET /users/:id/avatar" }
+ * loadAnswersFile("answers.json", "planner");
+ * // [{ question: "Which API endpoint returns the avatar?", answer: "GET /users/:id/avatar", askedBy: "planner", answeredAt: "..." }]
+ */
+export function loadAnswersFile(filePath: string, askedBy: Clarification["askedBy"]): Clarification[] {
+    if (!fs.existsSync(filePath)) throw new Error(`Answers file not found: ${filePath}`);
+
+    let parsed: unknown;
+
+    try {
+        parsed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    } catch (err: any) {
+        throw new Error(`Answers file is not valid JSON: ${filePath} (${err.message})`);
+    }
+
+    const { data, errors } = validateWithSchema(answersFileSchema, parsed);
+
+    if (!data) {
+        throw new Error(`Invalid answers file (${filePath}):\n${errors.map(e => `- ${e}`).join("\n")}`);
+    }
+
+    const answeredAt = new Date().toISOString();
+    const entries = Array.isArray(data) ? data : Object.entries(data).map(([question, answer]) => ({ question, answer }));
+
+    return entries
+        .filter(e => e.answer.trim())
+        .map(e => ({ question: e.question.trim(), answer: e.answer.trim(), askedBy, answeredAt }));
+}
+
+/**
+ * Asks questions in the terminal, one at a time. An empty answer skips the question.
+ *
+ * The prompts are written to stderr, so `--json` output on stdout stays clean.
+ *
+ * @param questions - The questions to ask (an agent's `missingInformation`).
+ * @param askedBy - The agent that asked them.
+ * @returns The answered questions.
+ */
+export async function askQuestions(questions: string[], askedBy: Clarification["askedBy"]): Promise<Clarification[]> {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+    const answers: Clarification[] = [];
+
+    console.error(`\n❓ The ${askedBy} needs more information (${questions.length} question(s)). Press Enter to skip a question.`);
+
+    try {
+        for (const [i, question] of questions.entries()) {
+            const answer = (await rl.question(`\n[${i + 1}/${questions.length}] ${question}\n> `)).trim();
+            if (answer) answers.push({ question, answer, askedBy, answeredAt: new Date().toISOString() });
+        }
+    } finally {
+        rl.close();
+    }
+
+    return answers;
+}
@@ -1,11 +1,16 @@
 /**
  * Content Parser Utilities
- * 
- * Utilities for parsing and extracting text content from Monday.com task descriptions.
- * Handles Quill-like deltaFormat structure and filters out non-text content (images, assets).
+ *
+ * Utilities for converting Monday.com task descriptions (document blocks) to Markdown.
+ * Handles the Quill-like deltaFormat structure with its inline attributes, block types
+ * (titles, lists, check lists, quotes, code, tables), and notes where non-text content
+ * (images, videos, files) was dropped.
  */
 
-import { DocumentBlock, ImageBlockContent, TextBlockContent } from '@/types/monday-types'
+import { DeltaInsert, DocumentBlock, ImageBlockContent, TableBlockContent, TextBlockContent } from '@/types/monday-types'
+
+/** Block types whose content is not text; they are replaced by a note */
+const MEDIA_BLOCK_TYPES = ['image', 'video', 'file', 'gif', 'giphy']
 
 /**
  * Type guard to check if content is an image/asset block
@@ -23,7 +28,7 @@ export function hasDeltaFormat(content: any): content is TextBlockContent {
 
 /**
  * Parses block content from JSON string safely
- * 
+ *
  * @param content - JSON string from Monday.com block content field
  * @returns Parsed content object or null if malformed
  */
@@ -37,46 +42,191 @@ export function parseBlockContent(content: string): any {
 }
 
 /**
- * Extracts text from deltaFormat structure
- * 
+ * Normalizes a block type, so "bulleted list" and "bulleted_list" match
+ */
+function normalizeBlockType(type: string | undefined): string {
+    return (type ?? '').trim().toLowerCase().replace(/[\s-]+/g, '_')
+}
+
+/**
+ * Wraps text in Markdown markers, keeping surrounding whitespace outside ("**bold** ", not "**bold **")
+ */
+function wrap(text: string, open: string, close = open): string {
+    const [, before, core, after] = /^(\s*)([\s\S]*?)(\s*)$/.exec(text)!
+    return core ? `${before}${open}${core}${close}${after}` : text
+}
+
+/**
+ * Converts one delta insert to Markdown, honoring its inline attributes.
+ * Embeds (mentions, ...) are dropped.
+ */
+function formatInsert(delta: DeltaInsert): string {
+    if (typeof delta.insert !== 'string') return ''
+
+    const attributes = delta.attributes ?? {}
+
+    // Markers cannot span lines, so each line is wrapped on its own
+    return delta.insert.split('\n').map(line => {
+        let text = line
+        if (attributes.code) text = wrap(text, '`')
+        if (attributes.bold) text = wrap(text, '**')
+        if (attributes.italic) text = wrap(text, '_')
+        if (attributes.strike) text = wrap(text, '~~')
+        if (attributes.link) text = wrap(text, '[', `](${attributes.link})`)
+        return text
+    }).join('\n')
+}
+
+/**
+ * Converts deltaFormat to inline Markdown (bold, italic, strike, code, links)
+ *
  * @param content - Text block content with deltaFormat array
- * @returns Extracted text or newline for empty blocks
+ * @param raw - Keep the text without formatting (code blocks)
+ * @returns The Markdown text, without trailing line breaks
+ */
+export function deltaToMarkdown(content: TextBlockContent, raw = false): string {
+    return (content.deltaFormat ?? [])
+        .map(delta => raw ? (typeof delta.insert === 'string' ? delta.insert : '') : formatInsert(delta))
+        .join('')
+        .replace(/\n+$/, '')
+}
+
+/**
+ * Collects the text of a table cell: the cell block and the blocks nested in it
+ */
+function cellToMarkdown(cellId: string, blocks: DocumentBlock[]): string {
+    return blocks
+        .filter(block => block.id === cellId || block.parent_block_id === cellId)
+        .map(block => parseBlockContent(block.content))
+        .filter(hasDeltaFormat)
+        .map(content => deltaToMarkdown(content).trim())
+        .filter(Boolean)
+        .join(' ')
+}
+
+/**
+ * Converts a table block to a Markdown table; the first row is the header
+ */
+function tableToMarkdown(content: TableBlockContent, blocks: DocumentBlock[]): string {
+    const rows = (content.cells ?? []).map(row => row.map(cell => cellToMarkdown(cell.blockId, blocks)))
+    if (!rows.length) return '[table omitted]'
+
+    const width = Math.max(...rows.map(row => row.length))
+    const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) =>
+        (cells[i] ?? '').replace(/\|/g, '\\|').replace(/\n+/g, '<br>')).join(' | ')} |`
+
+    return [line(rows[0]), `|${' --- |'.repeat(width)}`, ...rows.slice(1).map(line)].join('\n')
+}
+
+/**
+ * Finds the blocks rendered as part of a table (its cells and their content), so they are
+ * not rendered again on their own
  */
-export function extractTextFromDelta(content: TextBlockContent): string {
-    if (!content.deltaFormat || content.deltaFormat.length === 0) {
-        return '\n'
+function findTableBlockIds(blocks: DocumentBlock[]): Set<string> {
+    const ids = new Set<string>()
+
+    for (const block of blocks) {
+        if (normalizeBlockType(block.type) !== 'table') continue
+
+        const content = parseBlockContent(block.content) as TableBlockContent | null
+        for (const cell of content?.cells?.flat() ?? []) ids.add(cell.blockId)
+        ids.add(block.id)
     }
 
-    const blockText = content.deltaFormat
-        .map(delta => delta.insert || '')
-        .join('')
+    for (const block of blocks) {
+        if (block.parent_block_id && ids.has(block.parent_block_id)) ids.add(block.id)
+    }
 
-    return blockText.trim() ? blockText : ''
+    return ids
 }
 
+type MarkdownPart = { text: string; listItem: boolean }
+
 /**
- * Extracts clean text content from Monday.com task description blocks.
- * Filters out images/assets and parses deltaFormat structure into readable text.
- * 
- * @param blocks - Array of document blocks from Monday.com task description
- * @returns Clean formatted text with paragraph breaks preserved
+ * Converts Monday.com task description blocks to Markdown.
+ *
+ * Titles become headings, bulleted, numbered and check lists become Markdown lists (nested by
+ * their indentation), quotes and notice boxes become block quotes, code blocks are fenced and
+ * tables become Markdown tables. Images, videos and files are replaced by a note such as
+ * `[image omitted]`. Blocks without a type are read as paragraphs.
+ *
+ * @param blocks - Array of document blocks from Monday.com task description, in document order
+ * @returns The Markdown description
+ *
+ * @example
+ * blocksToMarkdown(blocks)
+ * // "## Acceptance criteria\n\n- [x] Shows the avatar\n- [ ] Falls back to **initials**"
  */
-export function extractBlockContents(blocks: DocumentBlock[]): string {
-    const textParts: string[] = []
+export function blocksToMarkdown(blocks: DocumentBlock[]): string {
+    const tableBlockIds = findTableBlockIds(blocks)
+    const parts: MarkdownPart[] = []
+    // Next number of numbered lists, by indentation
+    const numbers: number[] = []
 
     for (const block of blocks) {
+        const type = normalizeBlockType(block.type)
+        if (tableBlockIds.has(block.id) && type !== 'table') continue
         if (!block.content) continue
 
         const content = parseBlockContent(block.content)
-        if (!content || hasAssetId(content)) continue
+        if (!content) continue
+
+        if (type === 'table') {
+            numbers.length = 0
+            parts.push({ text: tableToMarkdown(content, blocks), listItem: false })
+            continue
+        }
+
+        if (MEDIA_BLOCK_TYPES.includes(type) || hasAssetId(content)) {
+            parts.push({ text: `[${MEDIA_BLOCK_TYPES.includes(type) ? type : 'image'} omitted]`, listItem: false })
+            continue
+        }
 
-        if (hasDeltaFormat(content)) {
-            const text = extractTextFromDelta(content)
-            if (text) {
-                textParts.push(text)
-            }
+        if (type === 'divider') {
+            parts.push({ text: '---', listItem: false })
+            continue
+        }
+
+        if (!hasDeltaFormat(content)) continue
+
+        if (type === 'code') {
+            const code = deltaToMarkdown(content, true)
+            if (code.trim()) parts.push({ text: `\`\`\`${content.language ?? ''}\n${code}\n\`\`\``, listItem: false })
+            continue
+        }
+
+        const text = deltaToMarkdown(content).trim()
+        if (!text) continue
+
+        if (['bulleted_list', 'numbered_list', 'check_list'].includes(type)) {
+            const level = Math.max(0, Math.floor(content.indentation ?? 0))
+            const indent = '    '.repeat(level)
+
+            numbers.length = level + 1
+            numbers[level] = type === 'numbered_list' ? (numbers[level] ?? 0) + 1 : 0
+
+            const marker = type === 'numbered_list'
+                ? `${numbers[level]}.`
+                : type === 'check_list' ? `- [${content.checked ? 'x' : ' '}]` : '-'
+
+            parts.push({ text: `${indent}${marker} ${text.replace(/\n/g, `\n${indent}    `)}`, listItem: true })
+            continue
+        }
+
+        numbers.length = 0
+
+        switch (type) {
+            case 'large_title': parts.push({ text: `# ${text}`, listItem: false }); break
+            case 'medium_title': parts.push({ text: `## ${text}`, listItem: false }); break
+            case 'small_title': parts.push({ text: `### ${text}`, listItem: false }); break
+            case 'quote':
+            case 'notice_box': parts.push({ text: text.split('\n').map(line => `> ${line}`).join('\n'), listItem: false }); break
+            default: parts.push({ text, listItem: false })
         }
     }
 
-    return textParts.join('\n').trim()
+    // List items stay together; other blocks are separate paragraphs
+    return parts
+        .map((part, i) => (i === 0 ? '' : part.listItem && parts[i - 1].listItem ? '\n' : '\n\n') + part.text)
+        .join('')
 }
@@ -0,0 +1,13 @@
+/**
+ * Roughly estimates the number of tokens in a text (about 4 characters per token for
+ * English and code). Good enough to warn about oversized prompts, not for billing.
+ *
+ * @param text - The text to measure.
+ * @returns The estimated token count.
+ *
+ * @example
+ * estimateTokens("export function useAuth() {}") // Returns 7
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
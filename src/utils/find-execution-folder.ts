@@ -0,0 +1,45 @@
+import fs from "node:fs";
+import path from "node:path";
+
+const EXECUTIONS_DIR = path.join(process.cwd(), "executions");
+
+/**
+ * Lists the execution IDs found in `executions/`, newest first.
+ *
+ * @returns The IDs (timestamp-based folder names), or an empty list when no execution exists.
+ */
+export function listExecutionIds(): string[] {
+    if (!fs.existsSync(EXECUTIONS_DIR)) return [];
+
+    return fs.readdirSync(EXECUTIONS_DIR)
+        .filter(name => fs.statSync(path.join(EXECUTIONS_DIR, name)).isDirectory())
+        .sort()
+        .reverse();
+}
+
+/**
+ * Resolves an execution folder by ID, or the latest one when no ID is given.
+ *
+ * @param id - The execution ID (e.g. "1765692907016").
+ * @returns The ID and absolute path of the execution folder.
+ * @throws {Error} If the execution does not exist, or no execution exists at all
+ *
+ * @example
+ * findExecutionFolder("1765692907016");
+ * // { id: "1765692907016", folder: "/path/to/project/executions/1765692907016" }
+ */
+export function findExecutionFolder(id?: string): { id: string; folder: string } {
+    const resolvedId = id ?? listExecutionIds()[0];
+
+    if (!resolvedId) {
+        throw new Error("No execution folders found. Run 'mat execute' first.");
+    }
+
+    const folder = path.join(EXECUTIONS_DIR, resolvedId);
+
+    if (!fs.existsSync(folder)) {
+        throw new Error(`Execution not found: ${resolvedId} (looked in ${EXECUTIONS_DIR})`);
+    }
+
+    return { id: resolvedId, folder };
+}
@@ -0,0 +1,31 @@
+/**
+ * Maps items with an async function, running at most `limit` calls at a time.
+ * Results keep the order of `items`. A rejected call rejects the whole map, so callers
+ * that must isolate failures should catch inside `fn`.
+ *
+ * @param items - The items to process.
+ * @param limit - The maximum number of concurrent calls (at least 1).
+ * @param fn - The async function applied to each item.
+ * @returns The results, in the order of `items`.
+ *
+ * @example
+ * const sizes = await mapWithConcurrency(paths, 3, p => fs.promises.stat(p).then(s => s.size));
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index], index);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+    return results;
+}
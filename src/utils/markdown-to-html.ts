@@ -0,0 +1,74 @@
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function inlineToHtml(text: string): string {
+    return escapeHtml(text)
+        .replace(/`([^`]+)`/g, "<code>$1</code>")
+        .replace(/\*\*([^*]+)\*\*/g, "<strong>$1</strong>")
+        .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, '<a href="$2">$1</a>');
+}
+
+/**
+ * Converts the Markdown written by this agent (headings, bullet and numbered lists, paragraphs,
+ * bold, inline code, links and fenced code) to the HTML accepted in Monday update bodies.
+ *
+ * Indented lines after a list item belong to the item. Anything else is kept as escaped text.
+ *
+ * @param markdown - The Markdown, e.g. from `formatPlanToMarkdown`.
+ * @returns The HTML.
+ *
+ * @example
+ * markdownToHtml("## Steps\n1. Add the **hook**\n2. Use it");
+ * // "<h2>Steps</h2>\n<ol><li>Add the <strong>hook</strong></li><li>Use it</li></ol>"
+ */
+export function markdownToHtml(markdown: string): string {
+    const html: string[] = [];
+    const lines = markdown.replace(/\r\n/g, "\n").split("\n");
+
+    let list: { tag: "ul" | "ol"; items: string[] } | undefined;
+    let paragraph: string[] = [];
+
+    const flush = () => {
+        if (paragraph.length) html.push(`<p>${paragraph.map(inlineToHtml).join("<br>")}</p>`);
+        if (list) html.push(`<${list.tag}>${list.items.map(i => `<li>${i}</li>`).join("")}</${list.tag}>`);
+        paragraph = [];
+        list = undefined;
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        if (line.startsWith("```")) {
+            flush();
+            const code: string[] = [];
+            while (i + 1 < lines.length && !lines[i + 1].startsWith("```")) code.push(lines[++i]);
+            i++;
+            html.push(`<pre>${escapeHtml(code.join("\n"))}</pre>`);
+            continue;
+        }
+
+        const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+        const item = /^(?:([-*])|\d+\.)\s+(.*)$/.exec(line);
+
+        if (heading) {
+            flush();
+            html.push(`<h${heading[1].length}>${inlineToHtml(heading[2])}</h${heading[1].length}>`);
+        } else if (item) {
+            const tag = item[1] ? "ul" : "ol";
+            if (paragraph.length || (list && list.tag !== tag)) flush();
+            list ??= { tag, items: [] };
+            list.items.push(inlineToHtml(item[2]));
+        } else if (list && /^\s+\S/.test(line)) {
+            list.items[list.items.length - 1] += `<br>${inlineToHtml(line.trim())}`;
+        } else if (line.trim()) {
+            if (list) flush();
+            paragraph.push(line.trim());
+        } else {
+            flush();
+        }
+    }
+
+    flush();
+    return html.join("\n");
+}
@@ -1,23 +1,42 @@
 import type { PlannerOutput } from "@/types/plannerTypes";
+import { validateWithSchema } from "@/utils/validate-schema";
+import { planFileSchema } from "@/schemas/planner-output-schema";
 
 /**
- * Parses the raw JSON string from the Planner Agent into a structured PlannerOutput object.
- * 
+ * Parses the raw JSON string from the Planner Agent into a structured PlannerOutput object,
+ * and validates it against `planFileSchema`. Plans are read back from disk and may have been
+ * edited by hand, so a typo must be reported here rather than deep inside the executor.
+ *
  * @param jsonPlanContent - The raw JSON string containing the plan.
+ * @param source - Where the plan comes from (e.g. its file path), used in the error message.
  * @returns The parsed `PlannerOutput` object.
- * @throws Error if the JSON is invalid or cannot be parsed.
- * 
+ * @throws Error if the JSON is invalid or cannot be parsed, or if it does not match the
+ *         schema (one line per invalid field, with its path)
+ *
  * @example
  * ```ts
  * const rawJson = '{"task": { "id": "123", ... }, "implementation": { ... }}'
- * const plan = parsePlannerOutput(rawJson)
+ * const plan = parsePlannerOutput(rawJson, "plans/task-123.json")
  * console.log(plan.implementation.filesToModify)
+ * // or, for a typo: Error: Invalid plan (plans/task-123.json):
+ * // - implementation.filesToModify: Invalid input: expected array, received undefined
  * ```
  */
-export function parsePlannerOutput(jsonPlanContent: string): PlannerOutput {
+export function parsePlannerOutput(jsonPlanContent: string, source?: string): PlannerOutput {
+    const from = source ? ` (${source})` : "";
+    let parsed: unknown;
+
     try {
-        return JSON.parse(jsonPlanContent) as PlannerOutput
+        parsed = JSON.parse(jsonPlanContent);
     } catch (err) {
-        throw new Error("Invalid planner JSON passed to execution: Failed to parse string content.")
+        throw new Error(`Invalid planner JSON passed to execution${from}: Failed to parse string content.`)
     }
+
+    const { data, errors } = validateWithSchema(planFileSchema, parsed);
+
+    if (!data) {
+        throw new Error(`Invalid plan${from}:\n${errors.map(e => `- ${e}`).join("\n")}`);
+    }
+
+    return data;
 }
@@ -0,0 +1,64 @@
+export type SimpleYamlValue = string | string[];
+
+const BLOCK_SCALAR = /^[|>][-+]?$/;
+
+function unquote(value: string): string {
+    if (value.startsWith('"') && value.endsWith('"') && value.length > 1) return JSON.parse(value);
+    if (value.startsWith("'") && value.endsWith("'") && value.length > 1) return value.slice(1, -1).replace(/''/g, "'");
+
+    return value;
+}
+
+function dedent(lines: string[]): string[] {
+    const indents = lines.filter(l => l.trim()).map(l => l.length - l.trimStart().length);
+    const indent = indents.length ? Math.min(...indents) : 0;
+
+    return lines.map(l => l.slice(indent));
+}
+
+/**
+ * Parses the subset of YAML used by task files and Markdown front matter: top-level
+ * `key: value` pairs, where a value is a scalar (plain or quoted), a block scalar
+ * (`|` keeps line breaks, `>` folds them) or a list of scalars (`- item`).
+ *
+ * @param text - The YAML document.
+ * @returns The values by key.
+ * @throws {Error} On a line outside that subset (with its line number)
+ *
+ * @example
+ * parseSimpleYaml("title: Add avatar\ndescription: |\n  Show the avatar\n  in the header\n");
+ * // { title: "Add avatar", description: "Show the avatar\nin the header" }
+ */
+export function parseSimpleYaml(text: string): Record<string, SimpleYamlValue> {
+    const result: Record<string, SimpleYamlValue> = {};
+    const lines = text.replace(/\r\n/g, "\n").split("\n");
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (!line.trim() || line.startsWith("#")) continue;
+
+        const match = /^([A-Za-z_][\w-]*)\s*:(?:\s+(.*))?$/.exec(line);
+        if (!match) throw new Error(`Unsupported YAML on line ${i + 1}: ${line.trim()}`);
+
+        const [, key, rawValue = ""] = match;
+        const value = rawValue.trim();
+
+        // Blank and indented lines that follow belong to this key.
+        const block: string[] = [];
+        while (i + 1 < lines.length && (!lines[i + 1].trim() || /^\s/.test(lines[i + 1]))) block.push(lines[++i]);
+
+        const content = dedent(block);
+
+        if (BLOCK_SCALAR.test(value)) {
+            result[key] = value.startsWith("|")
+                ? content.join("\n").trim()
+                : content.map(l => l.trim() || "\n").join(" ").replace(/ ?\n ?/g, "\n").trim();
+        } else if (!value && content.some(l => l.startsWith("- "))) {
+            result[key] = content.filter(l => l.trim()).map(l => unquote(l.replace(/^-\s+/, "").trim()));
+        } else {
+            result[key] = unquote([value, ...content.map(l => l.trim())].filter(Boolean).join(" "));
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,89 @@
+import { applyPatch, createTwoFilesPatch } from "diff";
+
+import type { FileCreation } from "@/types/executor-output";
+
+/**
+ * Checks whether a unified diff describes the creation of a new file,
+ * i.e. its old-file header points to `/dev/null`.
+ *
+ * @param diff - The unified diff string.
+ * @returns `true` if the diff creates a file from nothing.
+ *
+ * @example
+ * isCreationDiff("--- /dev/null\n+++ src/hooks/use-foo.ts\n@@ -0,0 +1,3 @@\n+..."); // true
+ */
+export function isCreationDiff(diff: string): boolean {
+    return /^---\s+(a\/)?\/dev\/null\s*$/m.test(diff);
+}
+
+/**
+ * Rebuilds the file content from a creation diff by collecting every added line.
+ * Used when the `diff` library rejects the diff (usually because of a wrong hunk header).
+ *
+ * @param diff - The creation diff string.
+ * @returns The content of the new file.
+ */
+function extractAddedLines(diff: string): string {
+    const added: string[] = [];
+    let noNewlineAtEnd = false;
+
+    for (const line of diff.split("\n")) {
+        if (line.startsWith("+++")) continue;
+
+        if (line.startsWith("+")) {
+            added.push(line.substring(1));
+        } else if (line.startsWith("\\ No newline")) {
+            noNewlineAtEnd = true;
+        }
+    }
+
+    const content = added.join("\n");
+    return noNewlineAtEnd ? content : content + "\n";
+}
+
+/**
+ * Resolves the final content of a file the Executor Agent wants to create.
+ *
+ * Full `content` wins when present. Otherwise the creation diff is applied to an
+ * empty file, falling back to collecting the added lines when the diff is malformed.
+ *
+ * @param creation - The creation entry from the Executor Agent output.
+ * @returns The content to write to disk.
+ * @throws {Error} If the entry has neither `content` nor a `/dev/null` creation diff.
+ *
+ * @example
+ * resolveCreationContent({ path: "src/a.ts", content: "export const a = 1;\n" });
+ * // "export const a = 1;\n"
+ */
+export function resolveCreationContent(creation: FileCreation): string {
+    if (typeof creation.content === "string") {
+        return creation.content;
+    }
+
+    if (!creation.diff || !isCreationDiff(creation.diff)) {
+        throw new Error(
+            `Creation for ${creation.path} has neither content nor a /dev/null creation diff.`
+        );
+    }
+
+    try {
+        const result = applyPatch("", creation.diff);
+        if (result !== false) return result;
+    } catch {
+        // Malformed hunk header, rebuild from the added lines below.
+    }
+
+    return extractAddedLines(creation.diff);
+}
+
+/**
+ * Builds a `/dev/null`-style creation diff for a new file.
+ * Used to persist creations as `.patch` files alongside regular modifications.
+ *
+ * @param filePath - The relative path of the new file.
+ * @param content - The full content of the new file.
+ * @returns The unified diff creating the file.
+ */
+export function buildCreationDiff(filePath: string, content: string): string {
+    return createTwoFilesPatch("/dev/null", filePath, "", content, "", "", { context: 3 });
+}
@@ -0,0 +1,93 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import type { PipelinePhase, RunState } from "@/types/pipeline";
+
+const RUNS_DIR = path.join(process.cwd(), "runs");
+
+export const PIPELINE_PHASES: PipelinePhase[] = ["context", "index", "plan", "execute", "apply", "verify"];
+
+/**
+ * Returns the absolute path of a run folder.
+ *
+ * @example
+ * getRunFolder("123-1765692907016"); // "/path/to/project/runs/123-1765692907016"
+ */
+export function getRunFolder(id: string): string {
+    return path.join(RUNS_DIR, id);
+}
+
+/**
+ * Writes the run state to `runs/<id>/run-state.json`, updating `updatedAt`.
+ *
+ * @param state - The run state to save.
+ */
+export function saveRunState(state: RunState): void {
+    state.updatedAt = new Date().toISOString();
+
+    const folder = getRunFolder(state.id);
+    fs.mkdirSync(folder, { recursive: true });
+    fs.writeFileSync(path.join(folder, "run-state.json"), JSON.stringify(state, null, 2), "utf8");
+}
+
+/**
+ * Creates the folder and initial state of a new pipeline run, with every phase pending.
+ *
+ * @param taskId - The ID of the task in its tracker.
+ * @param options - Options reused when the run is resumed.
+ * @returns The saved run state.
+ *
+ * @example
+ * const state = createRunState("123", { editFormat: "search-replace" });
+ * console.log(state.id); // "123-1765692907016"
+ */
+export function createRunState(taskId: string, options: RunState["options"]): RunState {
+    const now = new Date().toISOString();
+
+    const state: RunState = {
+        id: `${taskId}-${Date.now()}`,
+        taskId,
+        createdAt: now,
+        updatedAt: now,
+        status: "running",
+        options,
+        phases: Object.fromEntries(
+            PIPELINE_PHASES.map(phase => [phase, { status: "pending" }])
+        ) as RunState["phases"],
+    };
+
+    saveRunState(state);
+    return state;
+}
+
+/**
+ * Loads the state of an existing run.
+ *
+ * @param id - The run ID.
+ * @returns The run state.
+ * @throws {Error} If the run does not exist
+ */
+export function loadRunState(id: string): RunState {
+    const statePath = path.join(getRunFolder(id), "run-state.json");
+
+    if (!fs.existsSync(statePath)) {
+        throw new Error(`Run not found: ${id} (looked for ${statePath})`);
+    }
+
+    return JSON.parse(fs.readFileSync(statePath, "utf8")) as RunState;
+}
+
+/**
+ * Lists the run IDs found in `runs/`, newest first.
+ *
+ * @param taskId - Only list the runs of this task.
+ */
+export function listRunIds(taskId?: string): string[] {
+    if (!fs.existsSync(RUNS_DIR)) return [];
+
+    return fs.readdirSync(RUNS_DIR)
+        .filter(id => fs.existsSync(path.join(RUNS_DIR, id, "run-state.json")))
+        // Task IDs are free-form ("avatar", "avatar-v2"), so the ID prefix is not enough.
+        .filter(id => !taskId || loadRunState(id).taskId === taskId)
+        .sort((a, b) => Number(b.split("-").pop()) - Number(a.split("-").pop()));
+}
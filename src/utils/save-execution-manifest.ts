@@ -1,12 +1,29 @@
 import fs from "node:fs";
 import path from "node:path";
 
-import type { ExecutorOutput } from "@/types/executor-output";
+import type { LlmCallStats, LlmUsageSummary } from "@/types/llm";
+import type { ContextBudgetReport } from "@/types/context-budget";
+import type { ExecutorFileResult } from "@/types/execution";
+import type { EditFormat, ExecutorMode, ExecutorOutput } from "@/types/executor-output";
+import type { FileEditReport } from "@/utils/build-modifications-from-edits";
 
 export type ExecutionManifest = {
+    createdAt?: string;
     plan: string;
+    planPath?: string; // Plan file the execution was generated from
+    runId?: string; // Pipeline run (`mat run`) that produced the execution
     projectDocsContext: string;
     filesLoaded: string[];
+    contextFiles: string[]; // Read-only files that import the files to modify
+    filesCreated: string[];
+    editFormat: EditFormat;
+    executorMode?: ExecutorMode;
+    fileResults?: ExecutorFileResult[]; // Only in per-file mode: the outcome of each executor call
+    editReports?: FileEditReport[]; // Only in search-replace mode: how each SEARCH block was matched
+    llmCache?: { enabled: boolean; hits: number; misses: number }; // Model calls answered from the response cache
+    llmUsage?: LlmUsageSummary; // Tokens, latency and estimated cost of the executor calls
+    llmCalls?: LlmCallStats[];
+    contextBudget?: ContextBudgetReport; // How the executor prompt was trimmed to fit its token budget
     executorOutput: ExecutorOutput; // We keep the output here as part of the manifest record
     diffPaths: string[];
 };
@@ -21,8 +38,12 @@ export type ExecutionManifest = {
  * @example
  * const manifest = {
  *   plan: "...",                // The original implementation plan JSON
+ *   planPath: "runs/123-1765692907016/plan.json", // Where the plan was read from
  *   projectDocsContext: "...",  // The project documentation context used
  *   filesLoaded: ["src/app.tsx"], // Files that were loaded for the AI
+ *   contextFiles: ["src/main.tsx"], // Read-only importers of the loaded files
+ *   filesCreated: ["src/hooks/use-foo.ts"], // New files produced by the AI
+ *   editFormat: "unified-diff",  // Protocol used for changes to existing files
  *   executorOutput: { ... },    // The full output from the AI agent
  *   diffPaths: ["executions/123/diff-src__app.tsx.patch"]
  * };
@@ -0,0 +1,51 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import type { LlmCallStats } from "@/types/llm";
+
+export type RepairAttempt = {
+    /** The 1-based repair attempt number. */
+    attempt: number;
+    /** The relative path of the file being repaired. */
+    file: string;
+    /** The diff that was rejected and sent to the model. */
+    failedDiff: string;
+    /** The error reported by each patch strategy for `failedDiff`. */
+    strategyErrors: string[];
+    /** The diff regenerated by the model, if the call succeeded. */
+    repairedDiff?: string;
+    /** Whether `repairedDiff` applied cleanly. */
+    success: boolean;
+    /** Error raised by the model call or by applying `repairedDiff`. */
+    error?: string;
+    /** Tokens, latency and estimated cost of the repair call. */
+    llmCall?: LlmCallStats;
+};
+
+/**
+ * Saves a self-repair attempt to the execution folder so the repair history can be reviewed.
+ * The regenerated diff is also written as a `.patch` file next to the JSON record.
+ *
+ * @param folder - The execution folder path (e.g., "executions/1765692907016").
+ * @param attempt - The repair attempt to record.
+ * @returns The absolute path to the saved JSON record.
+ *
+ * @example
+ * saveRepairAttempt("/executions/123", { attempt: 1, file: "src/App.tsx", ... });
+ * // Creates: /executions/123/repairs/src__App.tsx/attempt-1.json
+ * //          /executions/123/repairs/src__App.tsx/attempt-1.patch
+ */
+export function saveRepairAttempt(folder: string, attempt: RepairAttempt): string {
+    const safeName = attempt.file.replace(/[\\/]/g, "__");
+    const repairDir = path.join(folder, "repairs", safeName);
+    fs.mkdirSync(repairDir, { recursive: true });
+
+    const outPath = path.join(repairDir, `attempt-${attempt.attempt}.json`);
+    fs.writeFileSync(outPath, JSON.stringify(attempt, null, 2), "utf8");
+
+    if (attempt.repairedDiff) {
+        fs.writeFileSync(path.join(repairDir, `attempt-${attempt.attempt}.patch`), attempt.repairedDiff, "utf8");
+    }
+
+    return outPath;
+}
@@ -0,0 +1,311 @@
+import type { SearchReplaceBlock } from "@/types/executor-output";
+
+/** Minimum average line similarity (0-1) for a fuzzy match to be accepted. */
+const FUZZY_THRESHOLD = 0.85;
+
+/** Two fuzzy candidates closer than this are considered equally good (ambiguous). */
+const FUZZY_AMBIGUITY_MARGIN = 0.02;
+
+export type MatchStrategy = "exact" | "whitespace" | "fuzzy";
+
+/**
+ * Outcome of locating and applying a single SEARCH/REPLACE block.
+ */
+export type BlockMatchReport = {
+    /** 0-based index of the block in the file's block list. */
+    index: number;
+    /** `applied` when the anchor was found once, otherwise why it was not applied. */
+    status: "applied" | "missing" | "ambiguous";
+    /** The strategy that located the anchor. */
+    strategy?: MatchStrategy;
+    /** 1-based line where the anchor starts (when applied). */
+    line?: number;
+    /** 1-based lines of every equally good candidate (when ambiguous). */
+    candidates?: number[];
+    /** Average line similarity of the best candidate (fuzzy strategy only). */
+    similarity?: number;
+    /** Human readable explanation when the block was not applied. */
+    error?: string;
+};
+
+export type SearchReplaceResult = {
+    /** Whether every block was applied. */
+    success: boolean;
+    /** The content after applying every block that could be applied. */
+    content: string;
+    /** One report per block, in order. */
+    reports: BlockMatchReport[];
+};
+
+/**
+ * Splits a block of text into lines, ignoring the trailing newline.
+ */
+function toLines(text: string): string[] {
+    if (text === "") return [];
+    return text.replace(/\r\n/g, "\n").replace(/\n$/, "").split("\n");
+}
+
+/**
+ * Collapses all whitespace so that indentation and spacing differences are ignored.
+ */
+function normalizeWhitespace(line: string): string {
+    return line.trim().replace(/\s+/g, " ");
+}
+
+/**
+ * Returns the leading whitespace of a line.
+ */
+function leadingWhitespace(line: string): string {
+    return line.match(/^\s*/)?.[0] ?? "";
+}
+
+/**
+ * Computes the Levenshtein similarity (0-1) between two strings.
+ */
+function similarity(a: string, b: string): number {
+    if (a === b) return 1;
+    if (!a.length || !b.length) return 0;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+        }
+        previous = current;
+    }
+
+    return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
+/**
+ * Finds every window of `fileLines` whose lines all equal `searchLines` after whitespace normalization.
+ *
+ * @returns The 0-based start index of each matching window.
+ */
+function findWhitespaceMatches(fileLines: string[], searchLines: string[]): number[] {
+    const normalizedSearch = searchLines.map(normalizeWhitespace);
+    const matches: number[] = [];
+
+    for (let i = 0; i + searchLines.length <= fileLines.length; i++) {
+        let matched = true;
+        for (let j = 0; j < searchLines.length; j++) {
+            if (normalizeWhitespace(fileLines[i + j]) !== normalizedSearch[j]) {
+                matched = false;
+                break;
+            }
+        }
+        if (matched) matches.push(i);
+    }
+
+    return matches;
+}
+
+/**
+ * Scores every window of `fileLines` by average line similarity with `searchLines`.
+ *
+ * @returns The best score and the 0-based start index of every window scoring within the ambiguity margin of it.
+ */
+function findFuzzyMatches(fileLines: string[], searchLines: string[]): { score: number; starts: number[] } {
+    const normalizedSearch = searchLines.map(normalizeWhitespace);
+    const normalizedFile = fileLines.map(normalizeWhitespace);
+    const scores: number[] = [];
+
+    for (let i = 0; i + searchLines.length <= fileLines.length; i++) {
+        let total = 0;
+        for (let j = 0; j < searchLines.length; j++) {
+            total += similarity(normalizedFile[i + j], normalizedSearch[j]);
+        }
+        scores.push(total / searchLines.length);
+    }
+
+    const score = scores.length ? Math.max(...scores) : 0;
+    const starts = scores
+        .map((s, i) => ({ s, i }))
+        .filter(({ s }) => s >= score - FUZZY_AMBIGUITY_MARGIN)
+        .map(({ i }) => i);
+
+    return { score, starts };
+}
+
+/**
+ * Re-indents the replacement lines when the anchor was found with a different indentation
+ * (e.g. the model used spaces while the file uses tabs).
+ *
+ * The indentation of the first non-blank SEARCH line is compared with the matched file line;
+ * any replacement line starting with the SEARCH indentation gets the file indentation instead.
+ */
+function reindent(replaceLines: string[], searchLines: string[], matchedLines: string[]): string[] {
+    const firstIndex = searchLines.findIndex(l => l.trim() !== "");
+    if (firstIndex < 0) return replaceLines;
+
+    const searchIndent = leadingWhitespace(searchLines[firstIndex]);
+    const fileIndent = leadingWhitespace(matchedLines[firstIndex]);
+    if (searchIndent === fileIndent) return replaceLines;
+
+    return replaceLines.map(line => {
+        if (line.trim() === "" || !line.startsWith(searchIndent)) return line;
+        return fileIndent + line.substring(searchIndent.length);
+    });
+}
+
+/**
+ * Locates a single block in `content` and replaces it.
+ */
+function applyBlock(
+    content: string,
+    block: SearchReplaceBlock,
+    index: number
+): { content: string; report: BlockMatchReport } {
+    if (!block.search.trim()) {
+        if (!content.trim()) {
+            return { content: block.replace, report: { index, status: "applied", strategy: "exact", line: 1 } };
+        }
+        return {
+            content,
+            report: { index, status: "missing", error: "Empty SEARCH block on a non-empty file." }
+        };
+    }
+
+    const exactStarts: number[] = [];
+    for (let at = content.indexOf(block.search); at >= 0; at = content.indexOf(block.search, at + 1)) {
+        exactStarts.push(at);
+    }
+
+    const lineOf = (offset: number) => content.substring(0, offset).split("\n").length;
+
+    if (exactStarts.length === 1) {
+        const at = exactStarts[0];
+        return {
+            content: content.substring(0, at) + block.replace + content.substring(at + block.search.length),
+            report: { index, status: "applied", strategy: "exact", line: lineOf(at) }
+        };
+    }
+
+    if (exactStarts.length > 1) {
+        return {
+            content,
+            report: {
+                index,
+                status: "ambiguous",
+                strategy: "exact",
+                candidates: exactStarts.map(lineOf),
+                error: `SEARCH block matches ${exactStarts.length} locations. Add more surrounding lines to make it unique.`
+            }
+        };
+    }
+
+    const hadTrailingNewline = content.endsWith("\n");
+    const fileLines = toLines(content);
+    const searchLines = toLines(block.search);
+    const replaceLines = toLines(block.replace);
+
+    const splice = (start: number, strategy: MatchStrategy, score?: number) => {
+        const matched = fileLines.slice(start, start + searchLines.length);
+        const lines = [
+            ...fileLines.slice(0, start),
+            ...reindent(replaceLines, searchLines, matched),
+            ...fileLines.slice(start + searchLines.length),
+        ];
+        const report: BlockMatchReport = { index, status: "applied", strategy, line: start + 1 };
+        if (score !== undefined) report.similarity = Number(score.toFixed(3));
+
+        return {
+            content: lines.join("\n") + (hadTrailingNewline ? "\n" : ""),
+            report
+        };
+    };
+
+    const whitespaceStarts = findWhitespaceMatches(fileLines, searchLines);
+
+    if (whitespaceStarts.length === 1) {
+        return splice(whitespaceStarts[0], "whitespace");
+    }
+
+    if (whitespaceStarts.length > 1) {
+        return {
+            content,
+            report: {
+                index,
+                status: "ambiguous",
+                strategy: "whitespace",
+                candidates: whitespaceStarts.map(s => s + 1),
+                error: `SEARCH block matches ${whitespaceStarts.length} locations ignoring whitespace. Add more surrounding lines to make it unique.`
+            }
+        };
+    }
+
+    const fuzzy = findFuzzyMatches(fileLines, searchLines);
+
+    if (fuzzy.score < FUZZY_THRESHOLD) {
+        return {
+            content,
+            report: {
+                index,
+                status: "missing",
+                similarity: Number(fuzzy.score.toFixed(3)),
+                candidates: fuzzy.starts.slice(0, 5).map(s => s + 1),
+                error: `SEARCH block not found (best similarity ${fuzzy.score.toFixed(2)} < ${FUZZY_THRESHOLD}).`
+            }
+        };
+    }
+
+    if (fuzzy.starts.length > 1) {
+        return {
+            content,
+            report: {
+                index,
+                status: "ambiguous",
+                strategy: "fuzzy",
+                similarity: Number(fuzzy.score.toFixed(3)),
+                candidates: fuzzy.starts.map(s => s + 1),
+                error: `SEARCH block fuzzy-matches ${fuzzy.starts.length} locations equally well.`
+            }
+        };
+    }
+
+    return splice(fuzzy.starts[0], "fuzzy", fuzzy.score);
+}
+
+/**
+ * Applies SEARCH/REPLACE blocks to a file's content.
+ *
+ * Each block is located, in order of strictness:
+ * 1. **Exact**: the SEARCH text appears verbatim exactly once.
+ * 2. **Whitespace-insensitive**: the SEARCH lines match exactly one window of lines once
+ *    indentation and inner spacing are collapsed. The replacement is re-indented to the file.
+ * 3. **Fuzzy**: the window with the best average line similarity, if it scores at least
+ *    `FUZZY_THRESHOLD` and no other window is as good.
+ *
+ * Blocks are applied sequentially, so later blocks see the result of earlier ones.
+ * A block whose anchor is missing or ambiguous is reported and skipped.
+ *
+ * @param content - The original file content.
+ * @param blocks - The SEARCH/REPLACE blocks for this file.
+ * @returns The new content and a report for every block.
+ *
+ * @example
+ * const result = applySearchReplaceBlocks("const a = 1;\n", [
+ *   { search: "const a = 1;", replace: "const a = 2;" }
+ * ]);
+ * // result.content === "const a = 2;\n"
+ * // result.reports[0] → { index: 0, status: "applied", strategy: "exact", line: 1 }
+ */
+export function applySearchReplaceBlocks(content: string, blocks: SearchReplaceBlock[]): SearchReplaceResult {
+    const reports: BlockMatchReport[] = [];
+    let current = content;
+
+    blocks.forEach((block, index) => {
+        const result = applyBlock(current, block, index);
+        current = result.content;
+        reports.push(result.report);
+    });
+
+    return {
+        success: reports.every(r => r.status === "applied"),
+        content: current,
+        reports,
+    };
+}
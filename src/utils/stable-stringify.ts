@@ -0,0 +1,26 @@
+/**
+ * Serializes a value to JSON with sorted object keys and without `undefined` properties,
+ * so equal values always produce the same string (and the same hash).
+ *
+ * @param value - A JSON-compatible value.
+ * @returns The canonical JSON string.
+ *
+ * @example
+ * stableStringify({ b: 1, a: [2, { d: 3, c: undefined }] }) // Returns '{"a":[2,{"d":3}],"b":1}'
+ */
+export function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(",")}]`;
+    }
+
+    if (value && typeof value === "object") {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, v]) => v !== undefined)
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+
+        return `{${entries.join(",")}}`;
+    }
+
+    return JSON.stringify(value);
+}
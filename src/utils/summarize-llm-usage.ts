@@ -0,0 +1,19 @@
+import type { LlmCallStats, LlmUsageSummary } from "@/types/llm";
+
+/**
+ * Adds up the accounting records of several calls.
+ *
+ * @param calls - The `stats` of each `completeWithLlm` response.
+ * @returns The totals, with the distinct models used.
+ */
+export function summarizeLlmUsage(calls: LlmCallStats[]): LlmUsageSummary {
+    return {
+        calls: calls.length,
+        cachedCalls: calls.filter(c => c.cached).length,
+        promptTokens: calls.reduce((sum, c) => sum + c.promptTokens, 0),
+        completionTokens: calls.reduce((sum, c) => sum + c.completionTokens, 0),
+        latencyMs: calls.reduce((sum, c) => sum + c.latencyMs, 0),
+        costUsd: calls.reduce((sum, c) => sum + c.costUsd, 0),
+        models: Array.from(new Set(calls.map(c => c.model))),
+    };
+}
@@ -0,0 +1,51 @@
+import { z } from "zod/v4";
+
+/**
+ * Converts a schema into the JSON schema sent to the model (`LlmRequest.jsonSchema`).
+ *
+ * Objects get `additionalProperties: false` and every field in `required`, as OpenAI strict
+ * mode demands, so schemas given to a model must not use `.optional()`.
+ *
+ * @param schema - A schema from `src/schemas/`.
+ * @returns The JSON schema, without the `$schema` keyword.
+ */
+export function toModelJsonSchema(schema: z.ZodType): Record<string, unknown> {
+    const { $schema: _draft, ...jsonSchema } = z.toJSONSchema(schema) as Record<string, unknown>;
+    return jsonSchema;
+}
+
+function formatPath(path: PropertyKey[]): string {
+    return path.reduce<string>(
+        (out, key) => (typeof key === "number" ? `${out}[${key}]` : out ? `${out}.${String(key)}` : String(key)),
+        ""
+    ) || "(root)";
+}
+
+/**
+ * Validates a value against a schema and reports every mismatch with its field path.
+ *
+ * Unknown fields are dropped rather than reported, so an answer with extra notes is still usable.
+ *
+ * @param schema - The schema the value must match.
+ * @param value - The parsed JSON.
+ * @returns The typed value when it is valid, and the errors otherwise.
+ *
+ * @example
+ * validateWithSchema(plannerOutputSchema, { ...plan, confidence: 2 }).errors;
+ * // ["confidence: Too big: expected number to be <=1 (got 2)"]
+ */
+export function validateWithSchema<T extends z.ZodType>(
+    schema: T,
+    value: unknown
+): { data?: z.infer<T>; errors: string[] } {
+    const result = schema.safeParse(value, { reportInput: true });
+    if (result.success) return { data: result.data, errors: [] };
+
+    return {
+        errors: result.error.issues.map(issue => {
+            const input = (issue as { input?: unknown }).input;
+            const got = ["string", "number", "boolean"].includes(typeof input) ? ` (got ${JSON.stringify(input)})` : "";
+            return `${formatPath(issue.path)}: ${issue.message}${got}`;
+        }),
+    };
+}